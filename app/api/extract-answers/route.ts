@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import {
+  findLabeledValues,
+  MIN_EXTRACTION_CONFIDENCE,
+  parseExtractionFields,
+  toExtractedValues,
+  type ExtractionField,
+} from "@/app/lib/extract-answers";
+import { getCompletionSettings, getLlmProvider } from "@/app/lib/llm";
+import { getPlaceholderLabel } from "@/app/lib/placeholders";
+import { checkRateLimit, getClientIP } from "@/app/lib/rate-limiter";
+
+function describeField({ id, placeholder, context, controlType, options }: ExtractionField): string {
+  const choices = controlType === "dropdown" && options?.length ? ` (one of: ${options.join(", ")})` : "";
+  const yesNo = controlType === "checkbox" ? " (yes/no)" : "";
+  return `- id ${id}: "${getPlaceholderLabel(placeholder) || placeholder}"${choices}${yesNo}${context ? ` in "${context}"` : ""}`;
+}
+
+// Takes { message, fields, currentFieldId } and returns { values: [{ fieldId, value }] }
+// for every open field the message clearly answers, the current one included
+export async function POST(request: Request) {
+  try {
+    const { message, fields: rawFields, currentFieldId, documentContext, userApiKey } = await request.json();
+
+    if (typeof message !== "string" || !message.trim()) {
+      return NextResponse.json(
+        { error: "Message is required" },
+        { status: 400 }
+      );
+    }
+
+    const fields = parseExtractionFields(rawFields);
+    if (!fields.length) {
+      return NextResponse.json({ values: [], source: "deterministic" });
+    }
+
+    // Configured provider, with the user's key when they gave one
+    const provider = getLlmProvider(userApiKey);
+
+    if (!provider) {
+      return NextResponse.json({ values: findLabeledValues(message, fields), source: "deterministic" });
+    }
+
+    // Over the limit the message is still read for "Label: value" pairs
+    if (provider.usesServerKey) {
+      const clientIP = getClientIP(request);
+      if (!checkRateLimit(clientIP).allowed) {
+        console.log(`Rate limit exceeded for IP: ${clientIP}, extracting answers without AI`);
+        return NextResponse.json({ values: findLabeledValues(message, fields), source: "deterministic-fallback" });
+      }
+    }
+
+    try {
+      const aiResponse = await provider.complete({
+        ...getCompletionSettings("extract", { temperature: 0, maxTokens: Math.min(2000, 200 + fields.length * 40) }),
+        messages: [
+          {
+            role: "system",
+            content: `You read a user's chat reply while they fill in a legal document and pick out the values it gives for the document's open fields.
+
+RULES:
+1. Only fill a field when the reply clearly gives its value; never guess or fill from the document itself
+2. Copy values as the user wrote them, without reformatting (the app formats dates and amounts)
+3. One value per field; a value can't be used for two fields unless the reply says so
+4. The reply usually answers the current field first
+5. Give each value a confidence between 0 and 1
+
+OUTPUT FORMAT:
+{
+  "values": [
+    {"id": "p0.0", "value": "Acme Robotics Inc.", "confidence": 0.95},
+    {"id": "p3.1", "value": "Delaware", "confidence": 0.9}
+  ]
+}
+Return {"values": []} when the reply gives no clear values.`,
+          },
+          {
+            role: "user",
+            content: `Open fields:
+${fields.map(describeField).join("\n")}
+
+Current field: ${typeof currentFieldId === "string" ? currentFieldId : "none"}
+
+Document context: ${typeof documentContext === "string" ? documentContext.substring(0, 800) : "Legal agreement"}
+
+User reply: ${JSON.stringify(message.trim())}
+
+Return ONLY the JSON object, no other text.`,
+          },
+        ],
+        json: true,
+        mockResponse: () => JSON.stringify({
+          values: findLabeledValues(message, fields).map(({ fieldId, value }) => ({ id: fieldId, value, confidence: 1 })),
+        }),
+      });
+
+      const values = toExtractedValues(JSON.parse(aiResponse), fields);
+      console.log(`AI extracted ${values.length} values (confidence >= ${MIN_EXTRACTION_CONFIDENCE})`);
+      return NextResponse.json({ values, source: "ai" });
+    } catch (aiError) {
+      console.error(`${provider.name} API error, extracting answers without AI:`, aiError);
+      return NextResponse.json({ values: findLabeledValues(message, fields), source: "deterministic-fallback" });
+    }
+  } catch (error) {
+    console.error("Error in extract-answers endpoint:", error);
+    return NextResponse.json(
+      { error: "Failed to extract answers" },
+      { status: 500 }
+    );
+  }
+}
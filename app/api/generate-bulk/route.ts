@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server";
+import PizZip from "pizzip";
+import {
+  buildBulkReport,
+  BULK_REPORT_NAME,
+  getUniqueFilename,
+  MAX_BULK_ROWS,
+  parseBulkFields,
+  parseBulkRow,
+  renderFilename,
+  ROW_NUMBER_TOKEN,
+  type BulkRowResult,
+} from "@/app/lib/bulk";
+import { isDateOrder } from "@/app/lib/dates";
+import { fillDocument, readTemplateRequest } from "@/app/lib/fill-document";
+import { detectFormat, DOCUMENT_FORMATS, MAX_TEMPLATE_BYTES } from "@/app/lib/formats";
+import { getCanonicalName, getOccurrenceValues } from "@/app/lib/placeholders";
+import { parseSyntaxProfile } from "@/app/lib/placeholder-syntax";
+import { hashTemplate } from "@/app/lib/provenance";
+import { parseUnfilledPolicies } from "@/app/lib/unfilled";
+
+// Takes the same template request as generate-doc, with rows instead of answers:
+// { fields, rows: [{ [fieldId]: value }], required: [fieldId], filenameTemplate }.
+// Returns a zip with one document per row and bulk-report.csv.
+export async function POST(request: Request) {
+  try {
+    const { buffer, options, isExpired, isTooLarge } = await readTemplateRequest(request);
+    const { rows: rawRows, required, filenameTemplate, originalFilename, syntax: rawSyntax, unfilled, includeComments, dateOrder } = options;
+
+    if (isExpired) {
+      return NextResponse.json(
+        { error: "Template not found or expired. Please upload it again." },
+        { status: 404 }
+      );
+    }
+    if (isTooLarge) {
+      return NextResponse.json(
+        { error: `File is too large (max ${MAX_TEMPLATE_BYTES / 1024 / 1024} MB)` },
+        { status: 413 }
+      );
+    }
+    if (!buffer) {
+      return NextResponse.json(
+        { error: "Original file is required" },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(rawRows) || !rawRows.length) {
+      return NextResponse.json(
+        { error: "At least one row is required" },
+        { status: 400 }
+      );
+    }
+    if (rawRows.length > MAX_BULK_ROWS) {
+      return NextResponse.json(
+        { error: `Up to ${MAX_BULK_ROWS} rows can be generated at once` },
+        { status: 400 }
+      );
+    }
+
+    const format = detectFormat(new PizZip(buffer));
+    if (!format) {
+      return NextResponse.json(
+        { error: "Invalid document format" },
+        { status: 400 }
+      );
+    }
+    const { extension, preparePackage } = DOCUMENT_FORMATS[format];
+
+    const fields = parseBulkFields(options.fields);
+    const syntax = parseSyntaxProfile(rawSyntax);
+    const templateHash = hashTemplate(buffer);
+    const baseName = (originalFilename || `document${extension}`).replace(/\.(docx|odt)$/i, "");
+    const template =
+      typeof filenameTemplate === "string" && filenameTemplate.trim()
+        ? filenameTemplate
+        : `${baseName} - {${ROW_NUMBER_TOKEN}}`;
+
+    // Required fields refuse their row when empty, whatever the other policies say
+    const policies = parseUnfilledPolicies(unfilled);
+    const requiredIds = new Set(Array.isArray(required) ? required : []);
+    fields
+      .filter((field) => requiredIds.has(field.id))
+      .forEach((field) => {
+        field.occurrenceIds.forEach((id) => {
+          policies.fields[id] = "reject";
+        });
+      });
+    const fieldByOccurrenceId = new Map(fields.flatMap((field) => field.occurrenceIds.map((id) => [id, field])));
+
+    const archive = new PizZip();
+    const usedNames = new Set<string>();
+    const results: BulkRowResult[] = rawRows.map((rawRow: unknown, index: number): BulkRowResult => {
+      const row = index + 1;
+      const values = parseBulkRow(rawRow);
+      try {
+        const zip = new PizZip(buffer);
+        const { missingFields } = fillDocument(zip, format, getOccurrenceValues(fields, values), {
+          syntax,
+          policies,
+          includeComments: includeComments === true,
+          dateOrder: isDateOrder(dateOrder) ? dateOrder : undefined,
+          templateHash,
+        });
+        if (missingFields.length) {
+          const names = missingFields.map(({ id, placeholder }) => fieldByOccurrenceId.get(id)?.placeholder ?? placeholder);
+          return { row, status: "skipped", missingFields: Array.from(new Set(names)) };
+        }
+        preparePackage?.(zip);
+
+        // Filename tokens are field names, so {Company Name} and {company_name} both work
+        const namedValues = Object.fromEntries(
+          fields.filter((field) => values[field.id]).map((field) => [getCanonicalName(field.placeholder), values[field.id]]),
+        );
+        const filename = getUniqueFilename(renderFilename(template, namedValues, row), extension, usedNames);
+        archive.file(filename, zip.generate({ type: "nodebuffer", compression: "DEFLATE" }) as Buffer);
+        return { row, status: "generated", filename };
+      } catch (error) {
+        console.error(`Failed to generate bulk row ${row}`, error);
+        return { row, status: "failed", error: "Unable to generate document" };
+      }
+    });
+
+    const generated = results.filter((result) => result.status === "generated").length;
+    console.log(`Generated ${generated} of ${results.length} bulk rows`);
+    if (!generated) {
+      return NextResponse.json(
+        { error: "None of the rows could be generated", rows: results },
+        { status: 422 }
+      );
+    }
+
+    archive.file(BULK_REPORT_NAME, buildBulkReport(results));
+    const data = archive.generate({ type: "nodebuffer", compression: "DEFLATE" }) as Buffer;
+
+    return new NextResponse(Buffer.from(data), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${baseName}-bulk.zip"`,
+        // Lets the client say how many rows need attention without opening the zip
+        "X-Clausefill-Skipped-Rows": String(results.length - generated),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to generate bulk documents", error);
+    return NextResponse.json(
+      { error: "Unable to generate documents. Please try again." },
+      { status: 500 }
+    );
+  }
+}
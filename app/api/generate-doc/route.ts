@@ -1,101 +1,168 @@
 import { NextResponse } from "next/server";
-import Docxtemplater from "docxtemplater";
+import mammoth from "mammoth";
 import PizZip from "pizzip";
+import { isDateOrder } from "@/app/lib/dates";
+import { fillDocument, readTemplateRequest, type FillDocumentOptions } from "@/app/lib/fill-document";
+import { buildFillManifest, getReportTable, parseFillReportFields } from "@/app/lib/fill-report";
+import { detectFormat, DOCUMENT_FORMATS, MAX_TEMPLATE_BYTES } from "@/app/lib/formats";
+import { convertOdtToHtml, readOdtContent } from "@/app/lib/odt";
+import { findUnsupportedCharacters, renderPdf } from "@/app/lib/pdf";
+import { hashTemplate } from "@/app/lib/provenance";
+import { renderMarkdown, renderPlainText, renderStandaloneHtml } from "@/app/lib/text-export";
+import { parseSyntaxProfile } from "@/app/lib/placeholder-syntax";
+import type { AnswerValue } from "@/app/lib/placeholders";
+import { parseUnfilledPolicies } from "@/app/lib/unfilled";
+
+// "document" is the filled template in its own format (.docx or .odt)
+const OUTPUT_TYPES = ["document", "pdf", "markdown", "html", "text"] as const;
+type OutputType = (typeof OUTPUT_TYPES)[number];
+type RenderedOutputType = Exclude<OutputType, "document">;
+
+// Rendered from the filled document's HTML, so every output agrees with the document
+const RENDERED_OUTPUTS: Record<
+  RenderedOutputType,
+  { extension: string; contentType: string; render: (html: string, title: string) => Buffer | string }
+> = {
+  pdf: { extension: ".pdf", contentType: "application/pdf", render: renderPdf },
+  markdown: { extension: ".md", contentType: "text/markdown; charset=utf-8", render: renderMarkdown },
+  html: { extension: ".html", contentType: "text/html; charset=utf-8", render: renderStandaloneHtml },
+  text: { extension: ".txt", contentType: "text/plain; charset=utf-8", render: renderPlainText },
+};
+
+const DEFAULT_REVISION_AUTHOR = "Clausefill AI";
+
+interface OutputFile {
+  name: string;
+  contentType: string;
+  data: Buffer;
+}
 
 export async function POST(request: Request) {
   try {
-    const { originalFileBase64, answers, originalFilename } = await request.json();
+    const { buffer, options, isExpired, isTooLarge } = await readTemplateRequest(request);
+    const {
+      answers,
+      originalFilename,
+      syntax: rawSyntax,
+      outputs: rawOutputs,
+      trackChanges,
+      report,
+      unfilled,
+      includeComments,
+      dateOrder,
+    } = options;
 
-    if (!originalFileBase64 || typeof originalFileBase64 !== "string") {
+    if (isExpired) {
+      return NextResponse.json(
+        { error: "Template not found or expired. Please upload it again." },
+        { status: 404 }
+      );
+    }
+    if (isTooLarge) {
+      return NextResponse.json(
+        { error: `File is too large (max ${MAX_TEMPLATE_BYTES / 1024 / 1024} MB)` },
+        { status: 413 }
+      );
+    }
+    if (!buffer) {
       return NextResponse.json(
         { error: "Original file is required" },
         { status: 400 }
       );
     }
 
-    // Convert base64 back to buffer
-    const buffer = Buffer.from(originalFileBase64, "base64");
+    // Older clients send no outputs and get the document alone
+    const outputs: OutputType[] = Array.isArray(rawOutputs)
+      ? OUTPUT_TYPES.filter((type) => rawOutputs.includes(type))
+      : ["document"];
+    if (!outputs.length) {
+      return NextResponse.json(
+        { error: "Unsupported output format" },
+        { status: 400 }
+      );
+    }
 
     // Load the docx file as binary content
     const zip = new PizZip(buffer);
-    
-    // Get the document.xml content for manual replacement
-    const documentXml = zip.file("word/document.xml")?.asText();
-    
-    if (!documentXml) {
+
+    // Word or OpenDocument, decided by the package contents
+    const format = detectFormat(zip);
+    if (!format) {
       return NextResponse.json(
         { error: "Invalid document format" },
         { status: 400 }
       );
     }
+    const { extension, mimeType, preparePackage, bodyPath, appendReport } = DOCUMENT_FORMATS[format];
 
-    // Word often splits placeholders across <w:t> tags within a paragraph
-    // Strategy: For each paragraph, extract all text, do replacement, rebuild with single <w:t>
-    let modifiedXml = documentXml;
-    
-    Object.entries(answers as Record<string, string>).forEach(([placeholder, value]) => {
-      const escapedPlaceholder = placeholder.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-      const regex = new RegExp(escapedPlaceholder, "g");
-      
-      // Process each paragraph block
-      modifiedXml = modifiedXml.replace(
-        /(<w:p\b[^>]*>)([\s\S]*?)(<\/w:p>)/g,
-        (fullMatch: string, openTag: string, content: string, closeTag: string) => {
-          // Extract all text from <w:t> tags in this paragraph
-          const textMatches = content.match(/<w:t\b[^>]*>.*?<\/w:t>/g);
-          if (!textMatches) return fullMatch;
-          
-          let plainText = "";
-          textMatches.forEach((tag: string) => {
-            const textContent = tag.replace(/<w:t\b[^>]*>(.*?)<\/w:t>/, "$1");
-            plainText += textContent;
-          });
-          
-          // Check if this paragraph contains our placeholder
-          if (!regex.test(plainText)) {
-            return fullMatch; // No match, return unchanged
-          }
-          
-          console.log(`Found "${placeholder}" in paragraph, replacing with "${value}"`);
-          
-          // Replace placeholder in the plain text
-          const replacedText = plainText.replace(regex, value);
-          
-          // Escape XML special characters in the REPLACED text
-          const escapedText = replacedText
-            .replace(/&/g, "&amp;")
-            .replace(/</g, "&lt;")
-            .replace(/>/g, "&gt;");
-          
-          // Strategy: Keep the first <w:r> tag with all its formatting,
-          // but replace ALL <w:t> content with our single replaced text
-          let firstRun = true;
-          const modifiedContent = content.replace(
-            /(<w:r\b[^>]*>)([\s\S]*?)(<\/w:r>)/g,
-            (rMatch: string, rOpen: string, rContent: string, rClose: string) => {
-              if (firstRun) {
-                firstRun = false;
-                // Keep formatting properties but replace text content
-                const cleanedContent = rContent.replace(/<w:t\b[^>]*>.*?<\/w:t>/g, "");
-                // Add our single <w:t> with the fully replaced paragraph text
-                return rOpen + cleanedContent + `<w:t>${escapedText}</w:t>` + rClose;
-              }
-              // Remove subsequent runs that contained parts of the placeholder
-              return "";
-            }
-          );
-          
-          return openTag + modifiedContent + closeTag;
-        }
-      );
+    const values = (answers ?? {}) as Record<string, AnswerValue>;
+
+    // Redline mode: true, or { author, date } to say who made the changes and when
+    let revisions: FillDocumentOptions["revisions"];
+    if (trackChanges) {
+      if (format !== "docx") {
+        return NextResponse.json(
+          { error: "Tracked changes are only available for Word documents" },
+          { status: 400 }
+        );
+      }
+      const { author, date } = typeof trackChanges === "object" ? trackChanges : {};
+      const timestamp = typeof date === "string" && date ? new Date(date) : new Date();
+      if (Number.isNaN(timestamp.getTime())) {
+        return NextResponse.json(
+          { error: "Invalid tracked changes date" },
+          { status: 400 }
+        );
+      }
+      revisions = {
+        author: typeof author === "string" && author.trim() ? author.trim() : DEFAULT_REVISION_AUTHOR,
+        // Word writes revision dates without milliseconds
+        date: timestamp.toISOString().replace(/\.\d{3}Z$/, "Z"),
+      };
+    }
+
+    // Unfilled placeholders: { policy, fields: { [occurrenceId]: policy } }
+    const { replacedIds, missingFields, untrackedFields } = fillDocument(zip, format, values, {
+      syntax: parseSyntaxProfile(rawSyntax),
+      revisions,
+      policies: parseUnfilledPolicies(unfilled),
+      includeComments: includeComments === true,
+      dateOrder: isDateOrder(dateOrder) ? dateOrder : undefined,
+      templateHash: hashTemplate(buffer),
     });
+    if (missingFields.length) {
+      return NextResponse.json(
+        { error: "Some required placeholders are not filled", missingFields },
+        { status: 422 }
+      );
+    }
+
+    if (untrackedFields.length) {
+      return NextResponse.json(
+        {
+          error: `Tracked changes can't show removed {#if} branches or repeated loops (${untrackedFields.map(({ placeholder }) => placeholder).join(", ")}). Please download without tracked changes.`,
+          untrackedFields,
+        },
+        { status: 422 }
+      );
+    }
 
-    console.log("Replacement complete");
+    console.log(`Replaced ${replacedIds.size} of ${Object.keys(values).length} occurrences`);
 
-    // Update the zip with modified content
-    zip.file("word/document.xml", modifiedXml);
+    const filename = originalFilename || `document${extension}`;
+    const baseName = `${filename.replace(/\.(docx|odt)$/i, "")}-clausefill-ai-v1`;
 
-    console.log("Replaced placeholders:", Object.keys(answers));
+    // Fill report: { manifest, appendix, fields }. Statuses come from what was
+    // actually replaced above; the rest of each entry is the client's chat log.
+    const manifest =
+      report?.manifest || report?.appendix
+        ? buildFillManifest(filename, parseFillReportFields(report.fields), values, replacedIds)
+        : undefined;
+    if (manifest && report.appendix) {
+      zip.file(bodyPath, appendReport(zip.file(bodyPath)!.asText(), getReportTable(manifest)));
+    }
+
+    preparePackage?.(zip);
 
     // Generate the filled document
     const filledBuffer = zip.generate({
@@ -103,15 +170,63 @@ export async function POST(request: Request) {
       compression: "DEFLATE",
     }) as Buffer;
 
-    // Return as downloadable file
-    const filename = originalFilename || "document.docx";
-    const nameWithoutExt = filename.replace(/\.docx$/i, "");
-    
-    return new NextResponse(Buffer.from(filledBuffer), {
+    const files: OutputFile[] = [];
+
+    if (outputs.includes("document")) {
+      files.push({ name: `${baseName}${extension}`, contentType: mimeType, data: filledBuffer });
+    }
+    const renderedTypes = outputs.filter((type): type is RenderedOutputType => type !== "document");
+    if (renderedTypes.length) {
+      // Converted from the filled package, so exports show exactly what the document says
+      const html =
+        format === "odt"
+          ? convertOdtToHtml(readOdtContent(zip))
+          : (await mammoth.convertToHtml({ buffer: filledBuffer })).value ?? "";
+      // Refused rather than drawn as empty boxes
+      const unsupported = renderedTypes.includes("pdf") ? findUnsupportedCharacters(html) : [];
+      if (unsupported.length) {
+        return NextResponse.json(
+          {
+            error: `The PDF can't show some characters in this document (${unsupported.slice(0, 10).join(" ")}). Please download it in another format.`,
+          },
+          { status: 422 }
+        );
+      }
+      renderedTypes.forEach((type) => {
+        const { extension: outputExtension, contentType, render } = RENDERED_OUTPUTS[type];
+        const rendered = render(html, baseName);
+        files.push({
+          name: `${baseName}${outputExtension}`,
+          contentType,
+          data: typeof rendered === "string" ? Buffer.from(rendered, "utf-8") : rendered,
+        });
+      });
+    }
+
+    if (manifest && report.manifest) {
+      files.push({
+        name: `${baseName}-manifest.json`,
+        contentType: "application/json",
+        data: Buffer.from(JSON.stringify(manifest, null, 2), "utf-8"),
+      });
+    }
+
+    // Several outputs come back together in one zip
+    const file: OutputFile =
+      files.length === 1
+        ? files[0]
+        : {
+            name: `${baseName}.zip`,
+            contentType: "application/zip",
+            data: files
+              .reduce((archive, { name, data }) => archive.file(name, data), new PizZip())
+              .generate({ type: "nodebuffer", compression: "DEFLATE" }) as Buffer,
+          };
+
+    return new NextResponse(Buffer.from(file.data), {
       headers: {
-        "Content-Type":
-          "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-        "Content-Disposition": `attachment; filename="${nameWithoutExt}-clausefill-ai-v1.docx"`,
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.name}"`,
       },
     });
   } catch (error) {
@@ -1,41 +1,35 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
-import { checkRateLimit, getRateLimitConfig } from "@/app/lib/rate-limiter";
+import { getCompletionSettings, getLlmProvider } from "@/app/lib/llm";
+import { checkRateLimit, getClientIP, getRateLimitConfig } from "@/app/lib/rate-limiter";
+import {
+  getControlQuestion,
+  getPlaceholderLabel,
+  isAnonymousPlaceholder,
+  type ControlType,
+  type PlaceholderSource,
+} from "@/app/lib/placeholders";
 
-// Initialize OpenAI client with default or user-provided key
-const defaultApiKey = process.env.OPENAI_API_KEY;
-
-function getOpenAIClient(userApiKey?: string): OpenAI | null {
-  const apiKey = userApiKey || defaultApiKey;
-  return apiKey ? new OpenAI({ apiKey }) : null;
-}
-
-function getClientIP(request: Request): string {
-  // Try to get real IP from headers (for proxies/load balancers)
-  const forwarded = request.headers.get("x-forwarded-for");
-  const realIp = request.headers.get("x-real-ip");
-  
-  if (forwarded) {
-    return forwarded.split(",")[0].trim();
+// Fallback function for deterministic question generation
+function generateDeterministicQuestion(
+  placeholder: string,
+  context?: string,
+  controlType?: ControlType,
+  options?: string[],
+  source?: PlaceholderSource,
+): string {
+  // Unnamed blanks only make sense with the text around them
+  if (context && isAnonymousPlaceholder(placeholder)) {
+    return `What should go in the blank in "${context}"?`;
   }
-  if (realIp) {
-    return realIp;
+
+  // Checkboxes and dropdowns only accept a fixed set of answers
+  const controlQuestion = getControlQuestion(placeholder, controlType, options, source);
+  if (controlQuestion) {
+    return controlQuestion;
   }
-  
-  // Fallback to a generic identifier
-  return "unknown";
-}
 
-// Fallback function for deterministic question generation
-function generateDeterministicQuestion(placeholder: string): string {
   // Clean up the placeholder for display
-  let cleanedPlaceholder = placeholder
-    .replace(/^\$?\[/, "")
-    .replace(/\]$/, "")
-    .replace(/^\{/, "")
-    .replace(/\}$/, "")
-    .replace(/_{3,}/, "blank field")
-    .trim();
+  let cleanedPlaceholder = getPlaceholderLabel(placeholder);
 
   // Handle empty or very short placeholders
   if (!cleanedPlaceholder || cleanedPlaceholder.length < 2) {
@@ -47,7 +41,7 @@ function generateDeterministicQuestion(placeholder: string): string {
 
 export async function POST(request: Request) {
   try {
-    const { placeholder, documentContext, userApiKey } = await request.json();
+    const { placeholder, context, controlType, options, source, documentContext, userApiKey } = await request.json();
 
     if (!placeholder) {
       return NextResponse.json(
@@ -56,8 +50,11 @@ export async function POST(request: Request) {
       );
     }
 
+    // Configured provider, with the user's key when they gave one
+    const provider = getLlmProvider(userApiKey);
+
     // Rate limiting: Only apply when using default API key (not user's key)
-    if (!userApiKey && defaultApiKey) {
+    if (provider?.usesServerKey) {
       const clientIP = getClientIP(request);
       const rateLimit = checkRateLimit(clientIP);
       
@@ -69,9 +66,9 @@ export async function POST(request: Request) {
         return NextResponse.json(
           {
             error: "Rate limit exceeded",
-            message: `You've reached the maximum of ${config.maxRequests} AI questions per hour. Please try again after ${resetDate.toLocaleTimeString()}, or provide your own OpenAI API key.`,
+            message: `You've reached the maximum of ${config.maxRequests} AI questions per hour. Please try again after ${resetDate.toLocaleTimeString()}, or provide your own API key.`,
             resetTime: rateLimit.resetTime,
-            fallbackQuestion: generateDeterministicQuestion(placeholder),
+            fallbackQuestion: generateDeterministicQuestion(placeholder, context, controlType, options, source),
           },
           { 
             status: 429,
@@ -87,41 +84,35 @@ export async function POST(request: Request) {
       console.log(`Rate limit check passed for IP: ${clientIP}, remaining: ${rateLimit.remaining}`);
     }
 
-    // Get OpenAI client (user key or default)
-    const openai = getOpenAIClient(userApiKey);
-
-    // If no OpenAI API key, use deterministic fallback
-    if (!openai) {
-      console.log("No OpenAI API key found, using deterministic question generation");
+    // If no API key, use deterministic fallback
+    if (!provider) {
+      console.log("No AI provider configured, using deterministic question generation");
       return NextResponse.json({
-        question: generateDeterministicQuestion(placeholder),
+        question: generateDeterministicQuestion(placeholder, context, controlType, options, source),
         source: "deterministic",
       });
     }
 
     // Generate AI-enhanced question
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini", // Cost-efficient model
+      const aiQuestion = await provider.complete({
+        ...getCompletionSettings("question", { temperature: 0.7, maxTokens: 100 }),
         messages: [
           {
             role: "system",
             content:
-              "You are a helpful assistant for legal document filling. Generate a clear, professional, and conversational question to ask the user for the value of a placeholder in their legal document. Keep questions concise (under 20 words). Be direct and friendly. Do not include the placeholder syntax in your question.\n\nImportant: Pay attention to placeholder formatting:\n- Placeholders starting with $ (like $[___]) are typically dollar amounts\n- Placeholders with underscores (___) are typically amounts or blank fields\n- Placeholders in [brackets] are typically names, dates, or text values",
+              "You are a helpful assistant for legal document filling. Generate a clear, professional, and conversational question to ask the user for the value of a placeholder in their legal document. Keep questions concise (under 20 words). Be direct and friendly. Do not include the placeholder syntax in your question.\n\nImportant: Pay attention to placeholder formatting:\n- Placeholders starting with $ (like $[___]) are typically dollar amounts\n- Placeholders with underscores (___) are typically amounts or blank fields\n- Placeholders in [brackets] are typically names, dates, or text values\n- {{name}}, «name», <<name>> and %%name%% are named placeholders like [name]",
           },
           {
             role: "user",
-            content: `Generate a question to ask for this placeholder: "${placeholder}"\n\nDocument context (first 500 chars): ${documentContext?.substring(0, 500) || "Legal document"}\n\nNote: If the placeholder starts with $ or contains only underscores, it's likely a monetary amount.`,
+            content: `Generate a question to ask for this placeholder: "${placeholder}"${context ? `\n\nIt appears in: "${context}"` : ""}${source === "condition" ? "\n\nIt decides whether an optional clause is included in the document." : ""}${controlType === "checkbox" ? "\n\nIt is a checkbox, so ask a yes/no question." : ""}${controlType === "dropdown" && options?.length ? `\n\nIt is a dropdown; the answer must be one of: ${options.join(", ")}. List the options in the question.` : ""}\n\nDocument context (first 500 chars): ${documentContext?.substring(0, 500) || "Legal document"}\n\nNote: If the placeholder starts with $ or contains only underscores, it's likely a monetary amount.`,
           },
         ],
-        temperature: 0.7,
-        max_tokens: 100,
+        mockResponse: () => generateDeterministicQuestion(placeholder, context, controlType, options, source),
       });
 
-      const aiQuestion = completion.choices[0]?.message?.content?.trim();
-
       if (!aiQuestion) {
-        throw new Error("Empty response from OpenAI");
+        throw new Error(`Empty response from ${provider.name}`);
       }
 
       console.log(`AI question generated for "${placeholder}": ${aiQuestion}`);
@@ -132,9 +123,9 @@ export async function POST(request: Request) {
       });
     } catch (aiError) {
       // If AI fails, fall back to deterministic
-      console.error("OpenAI API error, falling back to deterministic:", aiError);
+      console.error(`${provider.name} API error, falling back to deterministic:`, aiError);
       return NextResponse.json({
-        question: generateDeterministicQuestion(placeholder),
+        question: generateDeterministicQuestion(placeholder, context, controlType, options, source),
         source: "deterministic-fallback",
       });
     }
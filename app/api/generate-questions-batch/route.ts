@@ -1,84 +1,72 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
-import { checkRateLimit, getRateLimitConfig } from "@/app/lib/rate-limiter";
+import { getFieldType, type FieldType } from "@/app/lib/answer-validation";
+import { getCompletionSettings, getLlmProvider } from "@/app/lib/llm";
+import { checkRateLimit, getClientIP, getRateLimitConfig } from "@/app/lib/rate-limiter";
+import { findDocumentSuggestions, parseSuggestions, type SuggestedAnswer } from "@/app/lib/suggestions";
+import {
+  getControlQuestion,
+  getPlaceholderLabel,
+  isAnonymousPlaceholder,
+  type ControlType,
+  type PlaceholderSource,
+} from "@/app/lib/placeholders";
 
-const defaultApiKey = process.env.OPENAI_API_KEY;
-
-function getOpenAIClient(userApiKey?: string): OpenAI | null {
-  const apiKey = userApiKey || defaultApiKey;
-  return apiKey ? new OpenAI({ apiKey }) : null;
+interface PlaceholderGroup {
+  id: string;
+  placeholder: string;
+  type: FieldType;
+  question: string;
+  // Values the document already gives, for the user to pick instead of typing
+  suggestions?: SuggestedAnswer[];
 }
 
-function getClientIP(request: Request): string {
-  const forwarded = request.headers.get("x-forwarded-for");
-  const realIp = request.headers.get("x-real-ip");
-  
-  if (forwarded) return forwarded.split(",")[0].trim();
-  if (realIp) return realIp;
-  return "unknown";
-}
+// Suggestions come from the signature block and recitals as much as the opening lines
+const SUGGESTION_CONTEXT_CHARS = 4000;
 
-interface PlaceholderGroup {
+// One entry per field; context is the snippet around the occurrence.
+// Word content controls and {#if} conditions also send their type and options.
+interface PlaceholderRequest {
+  id: string;
   placeholder: string;
-  type: "company" | "person" | "date" | "amount" | "address" | "email" | "phone" | "other";
-  question: string;
+  context?: string;
+  controlType?: ControlType;
+  options?: string[];
+  source?: PlaceholderSource;
 }
 
-// Analyze placeholder to determine its type
-function analyzePlaceholder(placeholder: string): PlaceholderGroup["type"] {
-  const lower = placeholder.toLowerCase();
-  
-  // Amount detection
-  if (placeholder.startsWith("$") || /amount|price|cost|fee|payment|salary|compensation/i.test(lower)) {
-    return "amount";
-  }
-  
-  // Company detection
-  if (/company|corporation|corp|llc|inc|organization|employer/i.test(lower)) {
-    return "company";
-  }
-  
-  // Person detection
-  if (/name|employee|investor|founder|officer|director|signatory|recipient/i.test(lower)) {
-    return "person";
-  }
-  
-  // Date detection
-  if (/date|day|month|year|effective|expiration|deadline/i.test(lower)) {
-    return "date";
-  }
-  
-  // Address detection
-  if (/address|street|city|state|zip|location/i.test(lower)) {
-    return "address";
-  }
-  
-  // Email detection
-  if (/email|e-mail/i.test(lower)) {
-    return "email";
-  }
-  
-  // Phone detection
-  if (/phone|telephone|mobile|cell/i.test(lower)) {
-    return "phone";
-  }
-  
-  return "other";
+// Accept plain placeholder strings as well as field objects
+function toPlaceholderRequests(placeholders: unknown[]): PlaceholderRequest[] {
+  return placeholders
+    .map((entry) =>
+      typeof entry === "string"
+        ? { id: entry, placeholder: entry }
+        : (entry as PlaceholderRequest)
+    )
+    .filter((entry) => entry && typeof entry.placeholder === "string" && typeof entry.id === "string");
 }
 
 // Generate deterministic fallback questions
-function generateFallbackQuestions(placeholders: string[]): PlaceholderGroup[] {
-  return placeholders.map(placeholder => {
-    const type = analyzePlaceholder(placeholder);
+function generateFallbackQuestions(placeholders: PlaceholderRequest[]): PlaceholderGroup[] {
+  return placeholders.map(({ id, placeholder, context, controlType, options, source }) => {
+    const type = getFieldType(placeholder);
     let question = "";
     
-    const cleanPlaceholder = placeholder
-      .replace(/^\$?\[/, "")
-      .replace(/\]$/, "")
-      .replace(/^\{/, "")
-      .replace(/\}$/, "")
-      .replace(/_{3,}/, "")
-      .trim() || "this value";
+    const cleanPlaceholder = getPlaceholderLabel(placeholder) || "this value";
+
+    // Unnamed blanks only make sense with the text around them
+    if (isAnonymousPlaceholder(placeholder) && context) {
+      return {
+        id,
+        placeholder,
+        type,
+        question: `What should go in the blank in "${context}"?`,
+      };
+    }
+
+    const controlQuestion = getControlQuestion(placeholder, controlType, options, source);
+    if (controlQuestion) {
+      return { id, placeholder, type, question: controlQuestion };
+    }
     
     switch (type) {
       case "amount":
@@ -106,23 +94,46 @@ function generateFallbackQuestions(placeholders: string[]): PlaceholderGroup[] {
         question = `What is the ${cleanPlaceholder}?`;
     }
     
-    return { placeholder, type, question };
+    return { id, placeholder, type, question };
   });
 }
 
+// Keep only suggested groups of known ids; an id can belong to one group
+function toFieldGroups(rawGroups: unknown, placeholders: PlaceholderRequest[]): string[][] {
+  if (!Array.isArray(rawGroups)) return [];
+
+  const knownIds = new Set(placeholders.map((p) => p.id));
+  const used = new Set<string>();
+
+  return rawGroups
+    .filter((group): group is unknown[] => Array.isArray(group))
+    .map((group) => {
+      const ids = Array.from(new Set(group.filter((id): id is string => typeof id === "string" && knownIds.has(id))))
+        .filter((id) => !used.has(id));
+      ids.forEach((id) => used.add(id));
+      return ids;
+    })
+    .filter((ids) => ids.length > 1);
+}
+
 export async function POST(request: Request) {
   try {
-    const { placeholders, documentContext, userApiKey } = await request.json();
+    const { placeholders: rawPlaceholders, documentContext, userApiKey } = await request.json();
 
-    if (!placeholders || !Array.isArray(placeholders) || placeholders.length === 0) {
+    if (!rawPlaceholders || !Array.isArray(rawPlaceholders) || rawPlaceholders.length === 0) {
       return NextResponse.json(
         { error: "Placeholders array is required" },
         { status: 400 }
       );
     }
 
+    const placeholders = toPlaceholderRequests(rawPlaceholders);
+
+    // Configured provider, with the user's key when they gave one
+    const provider = getLlmProvider(userApiKey);
+
     // Rate limiting: Only apply when using default API key
-    if (!userApiKey && defaultApiKey) {
+    if (provider?.usesServerKey) {
       const clientIP = getClientIP(request);
       const rateLimit = checkRateLimit(clientIP);
       
@@ -145,11 +156,9 @@ export async function POST(request: Request) {
       console.log(`Batch rate limit check passed for IP: ${clientIP}, remaining: ${rateLimit.remaining}`);
     }
 
-    const openai = getOpenAIClient(userApiKey);
-
-    // If no OpenAI API key, use deterministic fallback
-    if (!openai) {
-      console.log("No OpenAI API key found, using deterministic question generation");
+    // If no API key, use deterministic fallback
+    if (!provider) {
+      console.log("No AI provider configured, using deterministic question generation");
       return NextResponse.json({
         questions: generateFallbackQuestions(placeholders),
         source: "deterministic",
@@ -160,12 +169,16 @@ export async function POST(request: Request) {
     try {
       // Analyze placeholders first
       const analyzedPlaceholders = placeholders.map(p => ({
-        placeholder: p,
-        type: analyzePlaceholder(p),
+        ...p,
+        type: getFieldType(p.placeholder),
       }));
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
+      const aiResponse = await provider.complete({
+        // Repeated blanks now get one question each, so scale the budget with the count
+        ...getCompletionSettings("batch", {
+          temperature: 0.3, // Lower temperature for more consistent output
+          maxTokens: Math.min(4000, 200 + placeholders.length * 100),
+        }),
         messages: [
           {
             role: "system",
@@ -181,36 +194,53 @@ RULES:
    - "name/employee/investor" = person's name
    - "date/day/month/year" = date value
    - Underscores (___) = blank field to fill
+   - {{name}}, «name», <<name>> and %%name%% are named placeholders like [name]
+   - "checkbox" control = ask a yes/no question
+   - "dropdown" control = ask the user to pick one of the listed options and name them
+   - "condition" = decides whether an optional clause is included; ask about the clause, not a value
+5. Suggest up to 3 values per placeholder only when the document itself states them (a company named in the
+   signature block, the state in "a Delaware corporation"), each with a reason under 8 words. Never invent
+   values or suggest placeholder text; leave "suggestions" empty otherwise. Skip checkboxes and conditions.
 
 OUTPUT FORMAT:
-Return a JSON array with one object per placeholder:
-[
-  {"placeholder": "[Company Name]", "question": "What is the company's legal name?"},
-  {"placeholder": "$[Amount]", "question": "What is the investment amount in dollars?"}
-]
+Return a JSON object with one question per placeholder, echoing its id, and the groups of ids that need the same value:
+{
+  "questions": [
+    {"id": "p0.0", "placeholder": "[Company Name]", "question": "What is the company's legal name?",
+     "suggestions": [{"value": "Acme Robotics, Inc.", "reason": "Named in the signature block"}]},
+    {"id": "p2.1", "placeholder": "$[Amount]", "question": "What is the investment amount in dollars?", "suggestions": []},
+    {"id": "p5.0", "placeholder": "[COMPANY]", "question": "What is the company's legal name?", "suggestions": []}
+  ],
+  "groups": [["p0.0", "p5.0"]]
+}
 
-Be contextually aware - if multiple similar placeholders exist (like [Company Name] and [COMPANY]), they likely need the same value.`,
+The same blank (like ___) can appear several times with different ids. Use the surrounding context of each one to ask what that specific blank is for.
+
+Be contextually aware - if differently written placeholders ask for the same thing (like [Company Name] and [COMPANY]), put their ids in one group so the user is only asked once. Only group placeholders that clearly mean the same value; leave "groups" empty when unsure.`,
           },
           {
             role: "user",
             content: `Generate questions for these placeholders from a legal document:
 
-${analyzedPlaceholders.map((p, i) => `${i + 1}. "${p.placeholder}" (type: ${p.type})`).join("\n")}
+${analyzedPlaceholders.map((p, i) => `${i + 1}. id ${p.id}: "${p.placeholder}" (type: ${p.type})${p.controlType && p.controlType !== "text" ? ` [${p.source === "condition" ? "condition" : p.controlType} control${p.options?.length ? `, options: ${p.options.join(", ")}` : ""}]` : ""}${p.context ? ` in "${p.context}"` : ""}`).join("\n")}
 
-Document context: ${documentContext?.substring(0, 800) || "Legal agreement"}
+Document context: ${documentContext?.substring(0, SUGGESTION_CONTEXT_CHARS) || "Legal agreement"}
 
-Return ONLY the JSON array, no other text.`,
+Return ONLY the JSON object, no other text.`,
           },
         ],
-        temperature: 0.3, // Lower temperature for more consistent output
-        max_tokens: 500,
-        response_format: { type: "json_object" },
+        json: true,
+        mockResponse: () => JSON.stringify({
+          questions: generateFallbackQuestions(placeholders).map((question) => ({
+            ...question,
+            suggestions: typeof documentContext === "string" ? findDocumentSuggestions(question.placeholder, documentContext, question.type) : [],
+          })),
+          groups: [],
+        }),
       });
-
-      const aiResponse = completion.choices[0]?.message?.content?.trim();
       
       if (!aiResponse) {
-        throw new Error("Empty response from OpenAI");
+        throw new Error(`Empty response from ${provider.name}`);
       }
 
       console.log("Raw AI response:", aiResponse.substring(0, 200) + "...");
@@ -256,14 +286,24 @@ Return ONLY the JSON array, no other text.`,
         throw new Error("No questions generated");
       }
 
-      console.log(`AI batch generated ${questions.length} questions`);
+      // Recover the field id if the model only echoed the placeholder text
+      questions = questions.map((q, i) => ({
+        ...q,
+        id: q.id ?? placeholders.find(p => p.placeholder === q.placeholder)?.id ?? placeholders[i]?.id,
+        suggestions: parseSuggestions(q.suggestions),
+      }));
+
+      const groups = toFieldGroups(Array.isArray(parsed) ? undefined : parsed.groups, placeholders);
+
+      console.log(`AI batch generated ${questions.length} questions and ${groups.length} groups`);
 
       return NextResponse.json({
         questions,
+        groups,
         source: "ai",
       });
     } catch (aiError) {
-      console.error("OpenAI API error, falling back to deterministic:", aiError);
+      console.error(`${provider.name} API error, falling back to deterministic:`, aiError);
       return NextResponse.json({
         questions: generateFallbackQuestions(placeholders),
         source: "deterministic-fallback",
@@ -1,58 +1,241 @@
 import { NextResponse } from "next/server";
 import mammoth from "mammoth";
+import PizZip from "pizzip";
+import { extractPartOccurrences, extractPartSections } from "@/app/lib/docx";
+import { DOCUMENT_FORMATS, getFormatFromFilename, MAX_TEMPLATE_BYTES } from "@/app/lib/formats";
+import { convertOdtToHtml, extractOdtText, readOdtContent } from "@/app/lib/odt";
+import {
+  findBlankCandidates,
+  MAX_BLANK_SUGGESTIONS,
+  toBlankSuggestions,
+  type BlankProposal,
+  type BlankSuggestion,
+} from "@/app/lib/implicit-blanks";
+import { getCompletionSettings, getLlmProvider } from "@/app/lib/llm";
+import { groupOccurrences, type PlaceholderOccurrence } from "@/app/lib/placeholders";
+import { detectSyntaxProfile, parseSyntaxProfile } from "@/app/lib/placeholder-syntax";
+import { readProvenance } from "@/app/lib/provenance";
+import { checkRateLimit, getClientIP } from "@/app/lib/rate-limiter";
+import { buildSampleTemplate, SAMPLE_TEMPLATE_NAME } from "@/app/lib/sample-template";
+import { getTemplateStore } from "@/app/lib/template-store";
 
-function extractPlaceholders(text: string): string[] {
-  // Enhanced regex to match common placeholder patterns:
-  // - [Company Name], $[Amount], {variable}
-  // - Standalone underscores: ___ (3+)
-  // - Empty brackets: [ ], [  ]
-  // - Common indicators: [TBD], [INSERT], [FILL IN]
-  const placeholderRegex = /\$?\[[^\]]*\]|\{[^}]+\}|_{3,}|\[TBD\]|\[INSERT\]|\[FILL IN\]/gi;
-  const matches = text.match(placeholderRegex) ?? [];
-  const unique = new Set<string>();
-
-  matches.forEach((match) => {
-    const trimmed = match.trim();
-    if (trimmed.length > 0) {
-      unique.add(trimmed);
-    }
+// Characters of document text sent with the detection prompt
+const MAX_DETECTION_CHARS = 20000;
+
+// Proposals come back as JSON from the model, so keep only well-formed entries
+function toBlankProposals(value: unknown): BlankProposal[] {
+  const blanks = Array.isArray(value) ? value : (value as { blanks?: unknown })?.blanks;
+  if (!Array.isArray(blanks)) return [];
+  return blanks.flatMap((item): BlankProposal[] => {
+    if (!item || typeof item.text !== "string" || !Number.isInteger(item.paragraph)) return [];
+    return [
+      {
+        part: typeof item.part === "string" ? item.part : "document",
+        paragraphIndex: item.paragraph,
+        offset: Number.isInteger(item.offset) ? item.offset : 0,
+        text: item.text,
+        name: typeof item.name === "string" ? item.name : "",
+        reason: typeof item.reason === "string" ? item.reason : undefined,
+      },
+    ];
   });
+}
+
+// Ask the AI for blanks the syntax missed, with what it did find as the baseline.
+// Without a provider, over the rate limit or on an error, the heuristics answer instead.
+async function detectImplicitBlanks(
+  request: Request,
+  paragraphsByPart: Map<string, string[]>,
+  occurrences: PlaceholderOccurrence[],
+  userApiKey?: string,
+): Promise<{ suggestions: BlankSuggestion[]; source: string }> {
+  const fallback = () => toBlankSuggestions(findBlankCandidates(paragraphsByPart), paragraphsByPart, occurrences);
+  const provider = getLlmProvider(userApiKey);
+
+  if (!provider) {
+    return { suggestions: fallback(), source: "deterministic" };
+  }
+  if (provider.usesServerKey) {
+    const clientIP = getClientIP(request);
+    if (!checkRateLimit(clientIP).allowed) {
+      console.log(`Rate limit exceeded for IP: ${clientIP}, detecting blanks without AI`);
+      return { suggestions: fallback(), source: "deterministic-fallback" };
+    }
+  }
+
+  // Numbered so the model can say where each blank is; JSON strings keep tabs and runs of spaces visible
+  const lines: string[] = [];
+  let length = 0;
+  for (const [part, paragraphs] of paragraphsByPart) {
+    for (const [index, text] of paragraphs.entries()) {
+      if (!text.trim()) continue;
+      const line = `${part}:${index} ${JSON.stringify(text)}`;
+      if (length + line.length > MAX_DETECTION_CHARS) break;
+      lines.push(line);
+      length += line.length;
+    }
+  }
+  const found = occurrences.map(
+    (occurrence) => `${occurrence.part}:${occurrence.paragraphIndex} ${JSON.stringify(occurrence.displayText ?? occurrence.placeholder)}`,
+  );
+
+  try {
+    const aiResponse = await provider.complete({
+      ...getCompletionSettings("detect", { temperature: 0, maxTokens: 1500 }),
+      messages: [
+        {
+          role: "system",
+          content: `You find fill-in blanks in legal document templates that are not marked as placeholders.
+
+Look for:
+- Runs of spaces or tabs left for typing, e.g. "state of incorporation is          "
+- Partial values, e.g. "dated as of ____, 20__" (one blank for the whole date)
+- Sample text standing in for a real value, e.g. "Acme Corp." or "John Smith"
 
-  return Array.from(unique);
+Do not report placeholders already found, headings, defined terms or boilerplate that stays the same in every copy.
+
+OUTPUT FORMAT:
+Return a JSON object with at most ${MAX_BLANK_SUGGESTIONS} blanks. "paragraph" is the number after the part name, "offset" the character position of "text" in that paragraph, and "text" the exact characters to replace:
+{
+  "blanks": [
+    {"part": "document", "paragraph": 4, "offset": 41, "text": "          ", "name": "State of Incorporation", "reason": "Space left after a lead-in"}
+  ]
+}
+Return {"blanks": []} when there are none.`,
+        },
+        {
+          role: "user",
+          content: `Placeholders already found:
+${found.join("\n") || "(none)"}
+
+Document paragraphs:
+${lines.join("\n")}
+
+Return ONLY the JSON object, no other text.`,
+        },
+      ],
+      json: true,
+      mockResponse: () => JSON.stringify({
+        blanks: findBlankCandidates(paragraphsByPart).map(({ paragraphIndex, ...proposal }) => ({ ...proposal, paragraph: paragraphIndex })),
+      }),
+    });
+
+    const suggestions = toBlankSuggestions(toBlankProposals(JSON.parse(aiResponse)), paragraphsByPart, occurrences);
+    console.log(`AI proposed ${suggestions.length} implicit blanks`);
+    return { suggestions, source: "ai" };
+  } catch (aiError) {
+    console.error(`${provider.name} API error, detecting blanks without AI:`, aiError);
+    return { suggestions: fallback(), source: "deterministic-fallback" };
+  }
 }
 
 export async function POST(request: Request) {
   const formData = await request.formData();
-  const file = formData.get("file");
+  // sample=true parses the built-in sample instead of an upload
+  const isSample = formData.get("sample") === "true";
+  const file = isSample ? new File([new Uint8Array(buildSampleTemplate())], SAMPLE_TEMPLATE_NAME) : formData.get("file");
+  const includeComments = formData.get("includeComments") === "true";
+  // Enabled syntaxes and custom delimiters; without them the dominant syntax is detected
+  const requestedSyntax = parseSyntaxProfile(formData.get("syntax"));
+  // detectBlanks=true also proposes blanks the syntax can't see, for the user to review
+  const detectBlanks = formData.get("detectBlanks") === "true";
+  const userApiKey = formData.get("userApiKey");
 
   if (!file || !(file instanceof File)) {
     return NextResponse.json(
-      { error: "A .docx file is required" },
+      { error: "A .docx or .odt file is required" },
       { status: 400 },
     );
   }
 
-  if (!file.name.toLowerCase().endsWith(".docx")) {
+  const format = getFormatFromFilename(file.name);
+  if (!format) {
     return NextResponse.json(
-      { error: "Only .docx files are supported" },
+      { error: "Only .docx and .odt files are supported" },
       { status: 400 },
     );
   }
 
+  // Checked here too, since the client's limit is easy to skip
+  if (file.size > MAX_TEMPLATE_BYTES) {
+    return NextResponse.json(
+      { error: `File is too large (max ${MAX_TEMPLATE_BYTES / 1024 / 1024} MB)` },
+      { status: 413 },
+    );
+  }
+
   try {
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
+    const zip = new PizZip(buffer);
 
-    const [htmlResult, textResult] = await Promise.all([
-      mammoth.convertToHtml({ buffer }),
-      mammoth.extractRawText({ buffer }),
-    ]);
+    // Kept on the server so generate-doc can take the id instead of the file. Without
+    // a store the client still has the file and uploads it again.
+    const templateId = await getTemplateStore()
+      .save(buffer, file.name)
+      .catch((error) => {
+        console.error("Failed to store template", error);
+        return null;
+      });
 
-    const templateHtml = htmlResult.value ?? "";
-    const templateText = textResult.value ?? "";
-    const placeholders = extractPlaceholders(templateText);
+    let templateHtml: string;
+    let templateText: string;
+    if (format === "odt") {
+      const content = readOdtContent(zip);
+      templateHtml = convertOdtToHtml(content);
+      templateText = extractOdtText(content);
+    } else {
+      const [htmlResult, textResult] = await Promise.all([
+        mammoth.convertToHtml({ buffer }),
+        mammoth.extractRawText({ buffer }),
+      ]);
+      templateHtml = htmlResult.value ?? "";
+      templateText = textResult.value ?? "";
+    }
+
+    // Read occurrences from the XML itself so ids match what generate-doc sees.
+    // The preview only covers the body, so headers, footers and notes are scanned here too.
+    const { dialect, listTextParts, getPartName, readProperties } = DOCUMENT_FORMATS[format];
+    const syntax = requestedSyntax ?? detectSyntaxProfile(templateText);
+    const partPaths = listTextParts(zip, { includeComments });
+    const parts = partPaths.map(getPartName);
+    const partXml = partPaths.map((path) => zip.file(path)?.asText() ?? "");
+    const occurrences = partPaths.flatMap((path, index) =>
+      extractPartOccurrences(partXml[index], getPartName(path), syntax, dialect),
+    );
+    const sections = partPaths.flatMap((path, index) =>
+      extractPartSections(partXml[index], getPartName(path), dialect),
+    );
+    const blankDetection = detectBlanks
+      ? await detectImplicitBlanks(
+          request,
+          new Map(parts.map((part, index) => [part, dialect.readParagraphs(partXml[index]).map((paragraph) => paragraph.text)])),
+          occurrences,
+          typeof userApiKey === "string" && userApiKey ? userApiKey : undefined,
+        )
+      : undefined;
+    const fields = groupOccurrences(occurrences);
+    const placeholders = Array.from(new Set(occurrences.map((occurrence) => occurrence.placeholder)));
+    // Set when the file is a document filled here earlier
+    const provenance = readProvenance(readProperties(zip));
 
-    return NextResponse.json({ templateHtml, templateText, placeholders });
+    // The client sends syntax back to generate-doc so both sides match the same placeholders
+    return NextResponse.json({
+      templateHtml,
+      templateText,
+      placeholders,
+      occurrences,
+      fields,
+      sections,
+      parts,
+      syntax,
+      format,
+      provenance,
+      templateId,
+      filename: file.name,
+      blankSuggestions: blankDetection?.suggestions,
+      blankSource: blankDetection?.source,
+    });
   } catch (error) {
     console.error("Failed to parse document", error);
     return NextResponse.json(
@@ -0,0 +1,168 @@
+// Money amounts typed in the chat or a bulk file: "€250,000", "GBP 1.5m", "$1,000.50",
+// "500k". Amounts are kept in minor units (cents) so decimals survive formatting.
+
+export type CurrencyCode = "USD" | "EUR" | "GBP" | "CAD" | "AUD" | "CHF" | "JPY" | "INR";
+// "numeric" is "$100,000"; "legal" spells it out: "One Hundred Thousand Dollars ($100,000.00)"
+export type AmountStyle = "numeric" | "legal";
+
+interface CurrencyInfo {
+  code: CurrencyCode;
+  label: string;
+  // Digits after the decimal point; 0 for currencies without a minor unit
+  minorDigits: number;
+  unit: [singular: string, plural: string];
+  minorUnit?: [singular: string, plural: string];
+  // Symbols and words people type for it, lower case
+  aliases: string[];
+}
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: "USD", label: "US dollar", minorDigits: 2, unit: ["Dollar", "Dollars"], minorUnit: ["Cent", "Cents"], aliases: ["us$", "dollar", "dollars"] },
+  { code: "EUR", label: "Euro", minorDigits: 2, unit: ["Euro", "Euros"], minorUnit: ["Cent", "Cents"], aliases: ["€", "euro", "euros"] },
+  { code: "GBP", label: "British pound", minorDigits: 2, unit: ["Pound Sterling", "Pounds Sterling"], minorUnit: ["Penny", "Pence"], aliases: ["£", "pound", "pounds"] },
+  { code: "CAD", label: "Canadian dollar", minorDigits: 2, unit: ["Canadian Dollar", "Canadian Dollars"], minorUnit: ["Cent", "Cents"], aliases: ["c$", "ca$"] },
+  { code: "AUD", label: "Australian dollar", minorDigits: 2, unit: ["Australian Dollar", "Australian Dollars"], minorUnit: ["Cent", "Cents"], aliases: ["a$", "au$"] },
+  { code: "CHF", label: "Swiss franc", minorDigits: 2, unit: ["Swiss Franc", "Swiss Francs"], minorUnit: ["Centime", "Centimes"], aliases: ["fr.", "franc", "francs"] },
+  { code: "JPY", label: "Japanese yen", minorDigits: 0, unit: ["Yen", "Yen"], aliases: ["¥", "yen"] },
+  { code: "INR", label: "Indian rupee", minorDigits: 2, unit: ["Rupee", "Rupees"], minorUnit: ["Paisa", "Paise"], aliases: ["₹", "rupee", "rupees"] },
+];
+
+export const DEFAULT_CURRENCY: CurrencyCode = "USD";
+
+export interface Amount {
+  currency: CurrencyCode;
+  // Whole amount in the currency's smallest unit, e.g. 100050 for $1,000.50
+  minorUnits: number;
+  // Show decimals even when they are zero, because they were typed ("$1,000.00")
+  showMinor: boolean;
+}
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+// Symbols ("$", "CA$", "€") and words ("EUR", "euros"); shorthand like "k" is matched too and left alone
+const CURRENCY_TOKEN_REGEX = /[a-z]{0,2}\$|[€£¥₹]|[a-z]+\.?/gi;
+const NUMBER_REGEX = /^(\d[\d,.' ]*?)\s*(k|thousand|mm|mn|m|million|bn|b|billion)?$/i;
+
+function findCurrency(token: string, defaultCurrency: CurrencyCode): CurrencyCode | undefined {
+  const lower = token.toLowerCase();
+  // A bare "$" is the document's currency when that is a dollar, and US dollars otherwise
+  if (lower === "$") return ["USD", "CAD", "AUD"].includes(defaultCurrency) ? defaultCurrency : "USD";
+  return CURRENCIES.find((currency) => currency.code.toLowerCase() === lower || currency.aliases.includes(lower))?.code;
+}
+
+// "1,000.50", "1.000,50", "1 000", "1'000": whichever of , and . comes last is the
+// decimal point, unless it is followed by exactly three digits and nothing else says so.
+// So "250.000" is a quarter million either way; only a multiplier ("1.500k") makes it a decimal.
+function parseDigits(digits: string, hasMultiplier = false): { value: number; decimals: number } | undefined {
+  const compact = digits.replace(/[\s']/g, "");
+  const lastComma = compact.lastIndexOf(",");
+  const lastDot = compact.lastIndexOf(".");
+  let decimalIndex = Math.max(lastComma, lastDot);
+  if (decimalIndex >= 0) {
+    const separator = compact[decimalIndex];
+    const isOnlySeparator = lastComma < 0 || lastDot < 0;
+    const repeats = compact.split(separator).length > 2;
+    // "0.125" can't be thousands
+    const isThousands =
+      compact.length - decimalIndex - 1 === 3 && !/^0[,.]/.test(compact) && (separator === "," || !hasMultiplier);
+    if (isOnlySeparator && (repeats || isThousands)) {
+      decimalIndex = -1;
+    }
+  }
+
+  const whole = (decimalIndex >= 0 ? compact.slice(0, decimalIndex) : compact).replace(/[,.]/g, "");
+  const fraction = decimalIndex >= 0 ? compact.slice(decimalIndex + 1) : "";
+  if (!/^\d+$/.test(whole) || !/^\d*$/.test(fraction)) return undefined;
+  return { value: Number(`${whole}.${fraction || "0"}`), decimals: fraction.length };
+}
+
+// undefined when the text isn't an amount (e.g. "TBD"), so it can be kept as typed
+export function parseAmount(input: string, defaultCurrency: CurrencyCode = DEFAULT_CURRENCY): Amount | undefined {
+  let currency: CurrencyCode | undefined;
+  const rest = input
+    .trim()
+    .replace(CURRENCY_TOKEN_REGEX, (token) => {
+      if (MULTIPLIERS[token.toLowerCase()] !== undefined) return token;
+      const found = findCurrency(token, defaultCurrency);
+      if (!found || currency) return token;
+      currency = found;
+      return " ";
+    })
+    .trim();
+
+  const match = rest.match(NUMBER_REGEX);
+  if (!match) return undefined;
+  const parsed = parseDigits(match[1], !!match[2]);
+  if (!parsed) return undefined;
+
+  const info = getCurrency(currency ?? defaultCurrency);
+  const multiplier = match[2] ? MULTIPLIERS[match[2].toLowerCase()] : 1;
+  const minorUnits = Math.round(parsed.value * multiplier * 10 ** info.minorDigits);
+  return {
+    currency: info.code,
+    minorUnits,
+    showMinor: info.minorDigits > 0 && ((parsed.decimals > 0 && multiplier === 1) || minorUnits % 10 ** info.minorDigits !== 0),
+  };
+}
+
+export function getCurrency(code: CurrencyCode): CurrencyInfo {
+  return CURRENCIES.find((currency) => currency.code === code) ?? CURRENCIES[0];
+}
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return CURRENCIES.some((currency) => currency.code === value);
+}
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+const SCALES = ["", "Thousand", "Million", "Billion", "Trillion"];
+
+function hundredsToWords(value: number): string {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const tens = rest < 20 ? ONES[rest] : [TENS[Math.floor(rest / 10)], ONES[rest % 10]].filter(Boolean).join("-");
+  return [hundreds ? `${ONES[hundreds]} Hundred` : "", tens].filter(Boolean).join(" ");
+}
+
+// Title case, as contracts write it: 1250 -> "One Thousand Two Hundred Fifty"
+export function numberToWords(value: number): string {
+  if (value === 0) return "Zero";
+  const groups: string[] = [];
+  for (let remaining = Math.floor(value), scale = 0; remaining > 0; remaining = Math.floor(remaining / 1000), scale++) {
+    const group = remaining % 1000;
+    if (group) groups.unshift([hundredsToWords(group), SCALES[scale]].filter(Boolean).join(" "));
+  }
+  return groups.join(" ");
+}
+
+export function formatAmount(amount: Amount, style: AmountStyle = "numeric"): string {
+  const info = getCurrency(amount.currency);
+  const factor = 10 ** info.minorDigits;
+  const showMinor = style === "legal" ? info.minorDigits > 0 : amount.showMinor;
+  const numeric = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: info.code,
+    minimumFractionDigits: showMinor ? info.minorDigits : 0,
+    maximumFractionDigits: showMinor ? info.minorDigits : 0,
+  }).format(amount.minorUnits / factor);
+  if (style === "numeric") return numeric;
+
+  const major = Math.floor(amount.minorUnits / factor);
+  const minor = amount.minorUnits % factor;
+  const words = [`${numberToWords(major)} ${info.unit[major === 1 ? 0 : 1]}`];
+  if (minor && info.minorUnit) words.push(`${numberToWords(minor)} ${info.minorUnit[minor === 1 ? 0 : 1]}`);
+  return `${words.join(" and ")} (${numeric})`;
+}
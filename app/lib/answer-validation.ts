@@ -0,0 +1,189 @@
+// What a placeholder asks for, and whether a typed answer fits it. The question routes
+// use the type to word questions; the chat uses it to catch answers like "asdf" for an
+// email and ask again. Constraints written into the placeholder ("[Purchase Amount,
+// min $25,000]", "[Term (1-24 months)]", "[Plan: one of Basic, Pro]") and dropdown
+// options are checked too.
+
+import { getCurrency, parseAmount, type CurrencyCode } from "./amounts";
+import { parseDate, type DateOrder } from "./dates";
+import { isCheckedValue, type ControlType, type PlaceholderOccurrence } from "./placeholders";
+
+export type FieldType = "company" | "person" | "date" | "amount" | "address" | "email" | "phone" | "other";
+
+// A bound as written in the placeholder, so the message can quote it
+interface Bound {
+  value: number;
+  label: string;
+}
+
+export interface FieldConstraints {
+  min?: Bound;
+  max?: Bound;
+  // Answers other than these (ignoring case) are re-asked
+  allowed?: string[];
+}
+
+export interface FieldCheck {
+  placeholder: string;
+  type: FieldType;
+  constraints: FieldConstraints;
+  controlType?: ControlType;
+}
+
+export interface ValidationContext {
+  defaultCurrency: CurrencyCode;
+  dateOrder: DateOrder;
+}
+
+// Classify a placeholder by the words in its name. Email and phone come first so
+// "[Investor Email]" is an email, not a person. Whole words only, so "[Feedback Period]"
+// isn't a fee and "[Cancellation Notice Period]" isn't a cell phone.
+export function getFieldType(placeholder: string): FieldType {
+  // "{{company_name}}", "{CompanyName}" -> "company name"
+  const words = placeholder
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[\W_]+/g, " ")
+    .toLowerCase();
+
+  // Email detection
+  if (/\be ?mails?\b/.test(words)) {
+    return "email";
+  }
+
+  // Phone detection
+  if (/\b(?:(?:tele)?phones?|mobile|cell(?:phone)?)\b/.test(words)) {
+    return "phone";
+  }
+
+  // Amount detection
+  if (placeholder.startsWith("$") || /\b(?:amounts?|prices?|costs?|fees?|payments?|salary|salaries|compensation)\b/.test(words)) {
+    return "amount";
+  }
+
+  // Company detection
+  if (/\b(?:company|companies|corporation|corp|llc|inc|organi[sz]ation|employer)\b/.test(words)) {
+    return "company";
+  }
+
+  // Person detection
+  if (/\b(?:names?|employees?|investors?|founders?|officers?|directors?|signatory|signatories|recipients?)\b/.test(words)) {
+    return "person";
+  }
+
+  // Date detection
+  if (/\b(?:dates?|days?|months?|years?|birthday|effective|expiration|expiry|deadline)\b/.test(words)) {
+    return "date";
+  }
+
+  // Address detection
+  if (/\b(?:address(?:es)?|street|city|state|zip(?: ?code)?|postcode|location)\b/.test(words)) {
+    return "address";
+  }
+
+  return "other";
+}
+
+// First number in the text, with shorthand: "$25,000" -> 25000, "1.5m" -> 1500000
+const NUMBER_TOKEN_REGEX = /[$€£¥₹]?\s*\d[\d,.]*(?:\s*(?:k|mm|mn|m|bn|b)\b)?/i;
+
+function readNumber(text: string, currency: CurrencyCode): number | undefined {
+  const token = text.match(NUMBER_TOKEN_REGEX)?.[0];
+  const amount = token ? parseAmount(token, currency) : undefined;
+  return amount ? amount.minorUnits / 10 ** getCurrency(amount.currency).minorDigits : undefined;
+}
+
+function toBound(text: string | undefined, currency: CurrencyCode): Bound | undefined {
+  const label = text?.trim();
+  const value = label ? readNumber(label, currency) : undefined;
+  return value === undefined ? undefined : { value, label: label! };
+}
+
+// A value ends at a closing bracket, a semicolon or ", " (so "$25,000" stays whole)
+const VALUE_END = "(?=\\s*[)\\]}]|;|,\\s|$)";
+const BETWEEN_REGEX = new RegExp(`\\bbetween\\s+(.+?)\\s+and\\s+(.+?)${VALUE_END}`, "i");
+const RANGE_REGEX = /\(\s*([$€£¥₹]?\d[\d.,]*\s*[kmb]?)\s*(?:-|–|to)\s*([$€£¥₹]?\d[\d.,]*\s*[kmb]?)\b/i;
+const MIN_REGEX = new RegExp(`\\b(?:min(?:imum)?\\.?|at least|no less than)\\s*:?\\s*(.+?)${VALUE_END}`, "i");
+const MAX_REGEX = new RegExp(`\\b(?:max(?:imum)?\\.?|at most|up to|no more than)\\s*:?\\s*(.+?)${VALUE_END}`, "i");
+const ONE_OF_REGEX = /\bone of\s*:?\s*(.+?)\s*(?:[)\]}]|$)/i;
+
+// Constraints written into the placeholder, plus a dropdown's options
+export function readConstraints(
+  placeholder: string,
+  occurrence?: PlaceholderOccurrence,
+  currency: CurrencyCode = "USD",
+): FieldConstraints {
+  const constraints: FieldConstraints = {};
+
+  const between = placeholder.match(BETWEEN_REGEX) ?? placeholder.match(RANGE_REGEX);
+  const min = toBound(placeholder.match(MIN_REGEX)?.[1] ?? between?.[1], currency);
+  const max = toBound(placeholder.match(MAX_REGEX)?.[1] ?? between?.[2], currency);
+  if (min) constraints.min = min;
+  if (max) constraints.max = max;
+
+  const oneOf = placeholder.match(ONE_OF_REGEX)?.[1];
+  const allowed = (oneOf ? oneOf.split(/\s*(?:,|\/|\bor\b)\s*/i) : occurrence?.controlType === "dropdown" ? occurrence.options ?? [] : [])
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (allowed.length > 1) constraints.allowed = allowed;
+
+  return constraints;
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const PHONE_CHARACTERS_REGEX = /^[\d\s()+.\-/]+(?:\s*(?:x|ext\.?)\s*\d+)?$/i;
+const UNCHECKED_REGEX = /^(n|no|false|off|0|unchecked|☐)$/i;
+
+// undefined when the answer fits; otherwise what's wrong, written to the user
+export function validateAnswer(value: string, check: FieldCheck, context: ValidationContext): string | undefined {
+  const text = value.trim();
+  const { placeholder, type, constraints, controlType } = check;
+
+  if (controlType === "checkbox" && !isCheckedValue(text) && !UNCHECKED_REGEX.test(text)) {
+    return "Please answer yes or no.";
+  }
+  if (constraints.allowed && !constraints.allowed.some((option) => option.toLowerCase() === text.toLowerCase())) {
+    return `"${text}" isn't one of the options. Please choose one of: ${constraints.allowed.join(", ")}.`;
+  }
+
+  // A $[Amount] placeholder is in dollars unless the answer names another currency
+  const currency = placeholder.startsWith("$") ? "USD" : context.defaultCurrency;
+  switch (type) {
+    case "email":
+      if (!EMAIL_REGEX.test(text)) return `"${text}" doesn't look like an email address, such as name@example.com.`;
+      break;
+    case "phone": {
+      const digits = text.replace(/\D/g, "").length;
+      if (!PHONE_CHARACTERS_REGEX.test(text) || digits < 7 || digits > 15) {
+        return `"${text}" doesn't look like a phone number, such as +1 (555) 123-4567.`;
+      }
+      break;
+    }
+    case "date":
+      // Only full dates: "[Number of Days]" and "[Year]" are dates by name but want a number
+      if (/date/i.test(placeholder) && !parseDate(text, context.dateOrder)) {
+        return `I couldn't read "${text}" as a date. Try something like "March 3, 2025" or "in 30 days".`;
+      }
+      break;
+    case "amount":
+      if (!parseAmount(text, currency)) {
+        return `I couldn't read "${text}" as an amount. Try something like "$250,000" or "250k".`;
+      }
+      break;
+    case "person":
+      if (!/[a-z]/i.test(text) || text.includes("@")) return `"${text}" doesn't look like a person's name.`;
+      break;
+    case "company":
+    case "address":
+      if (!/[a-z0-9]/i.test(text)) return `"${text}" doesn't look like ${type === "company" ? "a company name" : "an address"}.`;
+      break;
+  }
+
+  if (constraints.min || constraints.max) {
+    const number = readNumber(text, currency);
+    if (number === undefined) return `I couldn't find a number in "${text}".`;
+    if (constraints.min && number < constraints.min.value) return `That's below the minimum of ${constraints.min.label}.`;
+    if (constraints.max && number > constraints.max.value) return `That's above the maximum of ${constraints.max.label}.`;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,239 @@
+// Bulk generation: one filled document per row of a CSV or JSON file. The client
+// parses the file and maps columns to fields; generate-bulk fills each row and zips
+// the documents with a report of the rows it couldn't generate.
+
+import { getCanonicalName, isAnonymousPlaceholder, type PlaceholderField } from "./placeholders";
+
+// Each row is a full fill on the server, so keep a run to a size one request can handle
+export const MAX_BULK_ROWS = 500;
+export const BULK_REPORT_NAME = "bulk-report.csv";
+// {row} is the row number; any other {Name} is the value of the field with that name
+export const ROW_NUMBER_TOKEN = "row";
+
+export interface BulkTable {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export type BulkRowStatus = "generated" | "skipped" | "failed";
+
+export interface BulkRowResult {
+  // 1-based, counting data rows only
+  row: number;
+  status: BulkRowStatus;
+  filename?: string;
+  missingFields?: string[];
+  error?: string;
+}
+
+// Header names become object keys, so blanks and repeats get a name of their own
+function getColumnNames(headers: string[]): string[] {
+  const used = new Set<string>();
+  return headers.map((header, index) => {
+    const base = header.trim() || `Column ${index + 1}`;
+    let name = base;
+    for (let copy = 2; used.has(name); copy++) name = `${base} (${copy})`;
+    used.add(name);
+    return name;
+  });
+}
+
+// Spreadsheets in some locales save with semicolons or tabs, so use whichever the header has most of
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return [",", ";", "\t"].reduce((best, delimiter) =>
+    header.split(delimiter).length > header.split(best).length ? delimiter : best,
+  );
+}
+
+// RFC 4180: quoted cells may hold delimiters, newlines and "" for a quote
+function parseCsvRecords(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && !cell) {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      records.push([...record, cell]);
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || record.length) records.push([...record, cell]);
+
+  // Blank lines, including the trailing one, aren't rows
+  return records.filter((cells) => cells.some((value) => value.trim()));
+}
+
+function parseCsv(text: string): BulkTable {
+  const [headers, ...records] = parseCsvRecords(text);
+  if (!headers) throw new Error("The CSV file is empty.");
+  const columns = getColumnNames(headers);
+  return {
+    columns,
+    rows: records.map((cells) => Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? ""]))),
+  };
+}
+
+function toCellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value).trim();
+}
+
+// An array of objects, or { rows: [...] }; columns are every key in order of first use
+function parseJson(text: string): BulkTable {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The JSON file could not be read.");
+  }
+  const items = Array.isArray(parsed) ? parsed : (parsed as { rows?: unknown })?.rows;
+  if (!Array.isArray(items) || !items.every((item) => item && typeof item === "object" && !Array.isArray(item))) {
+    throw new Error("The JSON file must be an array of objects, one per document.");
+  }
+
+  const columns = Array.from(new Set(items.flatMap((item) => Object.keys(item))));
+  return {
+    columns,
+    rows: items.map((item: Record<string, unknown>) =>
+      Object.fromEntries(columns.map((column) => [column, toCellText(item[column])])),
+    ),
+  };
+}
+
+// Throws with a message for the user when the file can't be used
+export function parseBulkFile(text: string, filename: string): BulkTable {
+  const content = text.replace(/^\uFEFF/, "");
+  const table = /\.json$/i.test(filename) || /^\s*[[{]/.test(content) ? parseJson(content) : parseCsv(content);
+  if (!table.rows.length) throw new Error("The file has no rows.");
+  if (table.rows.length > MAX_BULK_ROWS) {
+    throw new Error(`The file has ${table.rows.length} rows; up to ${MAX_BULK_ROWS} can be generated at once.`);
+  }
+  return table;
+}
+
+// Matches columns to fields by name: exact canonical names first (so "company_name"
+// finds [Company Name]), then ignoring spaces, then one name containing the other.
+// Each column is suggested for one field at most; loops and anonymous blanks are left out.
+export function suggestColumnMapping(fields: PlaceholderField[], columns: string[]): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  const usedColumns = new Set<string>();
+  const candidates = fields.filter((field) => !isAnonymousPlaceholder(field.placeholder));
+  const compact = (name: string) => getCanonicalName(name).replace(/ /g, "");
+  const matchers: ((column: string, name: string) => boolean)[] = [
+    (column, name) => getCanonicalName(column) === getCanonicalName(name),
+    (column, name) => compact(column) === compact(name),
+    (column, name) => {
+      const [a, b] = [compact(column), compact(name)];
+      return Math.min(a.length, b.length) >= 3 && (a.includes(b) || b.includes(a));
+    },
+  ];
+
+  matchers.forEach((matches) => {
+    candidates.forEach((field) => {
+      if (mapping[field.id]) return;
+      const names = [field.placeholder, ...(field.aliases ?? [])];
+      const column = columns.find(
+        (candidate) => !usedColumns.has(candidate) && names.some((name) => matches(candidate, name)),
+      );
+      if (!column) return;
+      mapping[field.id] = column;
+      usedColumns.add(column);
+    });
+  });
+
+  return mapping;
+}
+
+// Characters Windows and macOS don't allow in file names, plus control characters
+const UNSAFE_FILENAME_REGEX = /[\\/:*?"<>|\u0000-\u001f]+/g;
+const MAX_FILENAME_LENGTH = 120;
+
+// "NDA - {Company Name}" with the row's values by canonical field name; missing
+// values leave nothing behind. The extension is added by the caller.
+export function renderFilename(template: string, values: Record<string, string>, rowNumber: number): string {
+  const name = template
+    .replace(/\{([^{}]+)\}/g, (_, token: string) => {
+      const key = getCanonicalName(token);
+      return key === ROW_NUMBER_TOKEN ? String(rowNumber) : values[key] ?? "";
+    })
+    .replace(UNSAFE_FILENAME_REGEX, "-")
+    .replace(/\s+/g, " ")
+    .slice(0, MAX_FILENAME_LENGTH)
+    .replace(/^[\s.-]+|[\s.-]+$/g, "");
+  return name || `document-${rowNumber}`;
+}
+
+// Rows that render to the same name get " (2)", " (3)" and so on
+export function getUniqueFilename(name: string, extension: string, used: Set<string>): string {
+  let filename = `${name}${extension}`;
+  for (let copy = 2; used.has(filename.toLowerCase()); copy++) filename = `${name} (${copy})${extension}`;
+  used.add(filename.toLowerCase());
+  return filename;
+}
+
+function toCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One line per row, so the skipped ones can be fixed in the spreadsheet and run again
+export function buildBulkReport(results: BulkRowResult[]): string {
+  const lines = [
+    ["Row", "Status", "File", "Missing fields", "Error"],
+    ...results.map((result) => [
+      String(result.row),
+      result.status,
+      result.filename ?? "",
+      (result.missingFields ?? []).join("; "),
+      result.error ?? "",
+    ]),
+  ];
+  return `${lines.map((cells) => cells.map(toCsvCell).join(",")).join("\r\n")}\r\n`;
+}
+
+// Field lists come from the client, so keep only well-formed entries
+export function parseBulkFields(value: unknown): PlaceholderField[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    if (!item || typeof item.id !== "string" || typeof item.placeholder !== "string") return [];
+    if (!Array.isArray(item.occurrenceIds)) return [];
+    return [
+      {
+        id: item.id,
+        placeholder: item.placeholder,
+        occurrenceIds: item.occurrenceIds.filter((id: unknown): id is string => typeof id === "string"),
+      },
+    ];
+  });
+}
+
+// A row is { [fieldId]: value }; empty cells count as unanswered
+export function parseBulkRow(value: unknown): Record<string, string> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).flatMap(([fieldId, cell]) =>
+      typeof cell === "string" && cell.trim() ? [[fieldId, cell.trim()]] : [],
+    ),
+  );
+}
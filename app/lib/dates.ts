@@ -0,0 +1,228 @@
+// Dates typed in the chat or a bulk file: "3/4/25", "March 3rd", "in 30 days",
+// "end of Q2". Dates are calendar days with no time zone, so nothing shifts a day
+// when formatted.
+
+// Which of 3/4/25 is the month: "month-first" is US style, "day-first" UK and most of Europe
+export type DateOrder = "month-first" | "day-first";
+// long: "March 3, 2025"; legal: "the 3rd day of March, 2025"; iso: "2025-03-03";
+// numeric: "03/03/2025" in the document's day/month order
+export type DateFormat = "long" | "legal" | "iso" | "numeric";
+
+export interface CalendarDate {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+}
+
+export const DEFAULT_DATE_ORDER: DateOrder = "month-first";
+export const DATE_ORDERS: DateOrder[] = ["month-first", "day-first"];
+export const DEFAULT_DATE_FORMAT: DateFormat = "long";
+
+export const DATE_FORMATS: { id: DateFormat; label: string }[] = [
+  { id: "long", label: "March 3, 2025" },
+  { id: "legal", label: "the 3rd day of March, 2025" },
+  { id: "iso", label: "2025-03-03" },
+  { id: "numeric", label: "03/03/2025" },
+];
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+export function isDateOrder(value: unknown): value is DateOrder {
+  return DATE_ORDERS.includes(value as DateOrder);
+}
+
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export function isValidDate({ year, month, day }: CalendarDate): boolean {
+  return (
+    Number.isInteger(year) && year >= 1 && year <= 9999 &&
+    Number.isInteger(month) && month >= 1 && month <= 12 &&
+    Number.isInteger(day) && day >= 1 && day <= getDaysInMonth(year, month)
+  );
+}
+
+export function getToday(now = new Date()): CalendarDate {
+  return { year: now.getFullYear(), month: now.getMonth() + 1, day: now.getDate() };
+}
+
+function toUtc({ year, month, day }: CalendarDate): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function fromUtc(date: Date): CalendarDate {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  const utc = toUtc(date);
+  utc.setUTCDate(utc.getUTCDate() + days);
+  return fromUtc(utc);
+}
+
+// Jan 31 + 1 month is Feb 28 (or 29), not March 3
+export function addMonths(date: CalendarDate, months: number): CalendarDate {
+  const index = date.year * 12 + date.month - 1 + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return { year, month, day: Math.min(date.day, getDaysInMonth(year, month)) };
+}
+
+// Two-digit years are 2000-2069 or 1970-1999
+function expandYear(value: string): number {
+  const year = Number(value);
+  if (value.length > 2) return year;
+  return year < 70 ? 2000 + year : 1900 + year;
+}
+
+function findMonth(name: string): number | undefined {
+  const lower = name.toLowerCase().replace(/\.$/, "");
+  if (lower.length < 3) return undefined;
+  const index = MONTHS.findIndex((month) => month.toLowerCase().startsWith(lower) || (lower === "sept" && month === "September"));
+  return index >= 0 ? index + 1 : undefined;
+}
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7 };
+const UNIT_MONTHS: Record<string, number> = { month: 1, quarter: 3, year: 12 };
+
+function shift(date: CalendarDate, amount: number, unit: string): CalendarDate {
+  const singular = unit.toLowerCase().replace(/s$/, "");
+  return UNIT_DAYS[singular] !== undefined
+    ? addDays(date, amount * UNIT_DAYS[singular])
+    : addMonths(date, amount * UNIT_MONTHS[singular]);
+}
+
+// "end of Q2", "start of next month", "end of the year", "end of Q4 2026"
+function parsePeriodBoundary(text: string, today: CalendarDate): CalendarDate | undefined {
+  const match = text.match(
+    /^(end|start|beginning|first day|last day) of (?:the )?(this |next |last )?(month|quarter|year|q([1-4]))(?:,? (\d{4}))?$/,
+  );
+  if (!match) return undefined;
+  const [, edge, relative = "", period, quarter, year] = match;
+  const isEnd = edge === "end" || edge === "last day";
+  const offset = relative.trim() === "next" ? 1 : relative.trim() === "last" ? -1 : 0;
+
+  let firstMonth: number;
+  let months: number;
+  let startYear = year ? Number(year) : today.year;
+  if (quarter) {
+    firstMonth = (Number(quarter) - 1) * 3 + 1;
+    months = 3;
+    // A quarter already over this year means next year's, unless a year was given
+    if (!year && !offset && today.month > firstMonth + 2) startYear++;
+  } else if (period === "quarter") {
+    firstMonth = Math.floor((today.month - 1) / 3) * 3 + 1;
+    months = 3;
+  } else if (period === "year") {
+    firstMonth = 1;
+    months = 12;
+  } else {
+    firstMonth = today.month;
+    months = 1;
+  }
+
+  const start = addMonths({ year: startYear, month: firstMonth, day: 1 }, offset * months);
+  return isEnd ? addDays(addMonths(start, months), -1) : start;
+}
+
+function parseRelative(text: string, today: CalendarDate): CalendarDate | undefined {
+  if (text === "today" || text === "now") return today;
+  if (text === "tomorrow") return addDays(today, 1);
+  if (text === "yesterday") return addDays(today, -1);
+
+  let match = text.match(/^(next|last) (week|month|quarter|year)$/);
+  if (match) return shift(today, match[1] === "next" ? 1 : -1, match[2]);
+
+  // "in 30 days", "30 days from now", "2 weeks from today", "3 months ago"
+  match =
+    text.match(/^in (\d+) (days?|weeks?|months?|quarters?|years?)$/) ??
+    text.match(/^(\d+) (days?|weeks?|months?|quarters?|years?) (?:from (?:now|today)|later|hence)$/);
+  if (match) return shift(today, Number(match[1]), match[2]);
+  match = text.match(/^(\d+) (days?|weeks?|months?|quarters?|years?) ago$/);
+  if (match) return shift(today, -Number(match[1]), match[2]);
+
+  // "friday" and "next friday" are the coming one; "last friday" the one before today
+  match = text.match(/^(?:(next|this|last) )?(sun|mon|tues?|wed(?:nes)?|thu(?:rs)?|fri|sat(?:ur)?)(?:day)?$/);
+  if (match) {
+    const prefix = match[2].slice(0, 3);
+    const weekday = WEEKDAYS.findIndex((name) => name.startsWith(prefix));
+    const current = toUtc(today).getUTCDay();
+    if (match[1] === "last") return addDays(today, -(((current - weekday + 6) % 7) + 1));
+    return addDays(today, ((weekday - current + 6) % 7) + 1);
+  }
+
+  return parsePeriodBoundary(text, today);
+}
+
+// "3/4/25", "3-4-2025", "3.4.2025" in the given order; "2025-03-04" is always year first
+function parseNumeric(text: string, order: DateOrder, today: CalendarDate): CalendarDate | undefined {
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (match) return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})(?:[-/.](\d{2}|\d{4}))?$/);
+  if (!match) return undefined;
+  const [first, second] = [Number(match[1]), Number(match[2])];
+  const year = match[3] ? expandYear(match[3]) : today.year;
+  return order === "month-first" ? { year, month: first, day: second } : { year, month: second, day: first };
+}
+
+// "March 3rd", "March 3, 2025", "3 March 2025", "Sept. 3", "the 3rd day of March, 2025"
+function parseWritten(text: string, today: CalendarDate): CalendarDate | undefined {
+  const cleaned = text
+    .replace(/^(?:on )?the /, "")
+    .replace(/(\d)(?:st|nd|rd|th)\b/g, "$1")
+    .replace(/\b(?:day )?of\b/g, " ")
+    .replace(/,/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  let match = cleaned.match(/^([a-z]+\.?) (\d{1,2})(?: (\d{4}))?$/);
+  if (match && findMonth(match[1])) {
+    return { year: match[3] ? Number(match[3]) : today.year, month: findMonth(match[1])!, day: Number(match[2]) };
+  }
+  match = cleaned.match(/^(\d{1,2}) ([a-z]+\.?)(?: (\d{4}))?$/);
+  if (match && findMonth(match[2])) {
+    return { year: match[3] ? Number(match[3]) : today.year, month: findMonth(match[2])!, day: Number(match[1]) };
+  }
+  return undefined;
+}
+
+// undefined when the text isn't a date, or names one that doesn't exist ("February 30")
+export function parseDate(
+  input: string,
+  order: DateOrder = DEFAULT_DATE_ORDER,
+  today: CalendarDate = getToday(),
+): CalendarDate | undefined {
+  const text = input.trim().toLowerCase().replace(/\s+/g, " ").replace(/\.$/, "");
+  if (!text) return undefined;
+  const date = parseRelative(text, today) ?? parseNumeric(text, order, today) ?? parseWritten(text, today);
+  return date && isValidDate(date) ? date : undefined;
+}
+
+function getOrdinal(day: number): string {
+  const suffix = day % 100 >= 11 && day % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][day % 10] ?? "th";
+  return `${day}${suffix}`;
+}
+
+export function formatDate(date: CalendarDate, format: DateFormat = DEFAULT_DATE_FORMAT, order: DateOrder = DEFAULT_DATE_ORDER): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  const month = MONTHS[date.month - 1];
+  switch (format) {
+    case "legal":
+      return `the ${getOrdinal(date.day)} day of ${month}, ${date.year}`;
+    case "iso":
+      return `${pad(date.year, 4)}-${pad(date.month)}-${pad(date.day)}`;
+    case "numeric":
+      return order === "month-first"
+        ? `${pad(date.month)}/${pad(date.day)}/${date.year}`
+        : `${pad(date.day)}/${pad(date.month)}/${date.year}`;
+    default:
+      return `${month} ${date.day}, ${date.year}`;
+  }
+}
@@ -0,0 +1,219 @@
+// Structured placeholders in Word XML: content controls (w:sdt) and MERGEFIELD fields.
+// Positions are raw offsets into the part XML so docx.ts can map them to text segments.
+
+import { DEFAULT_DATE_ORDER, formatDate, parseDate, type DateOrder } from "./dates";
+import { decodeXml } from "./xml";
+import { isCheckedValue, type ControlType } from "./placeholders";
+
+// Content controls that are containers or document furniture rather than fill-in fields
+const IGNORED_CONTROL_TAGS = [
+  "w:docPartObj",
+  "w:docPartList",
+  "w:citation",
+  "w:bibliography",
+  "w:group",
+  "w:picture",
+  "w:equation",
+  "w15:repeatingSection",
+  "w15:repeatingSectionItem",
+];
+
+const SDT_TOKEN_REGEX = /<(\/?)w:sdt(?=[\s>/])[^>]*?(\/?)>/g;
+const FIELD_TOKEN_REGEX = /<w:fldChar\b[^>]*?w:fldCharType="(begin|separate|end)"[^>]*>|<w:instrText\b[^>]*>([\s\S]*?)<\/w:instrText>/g;
+const SIMPLE_FIELD_REGEX = /<w:fldSimple\b([^>]*?)(\/?)>/g;
+const MERGEFIELD_REGEX = /^\s*MERGEFIELD\s+(?:"([^"]+)"|(\S+))/i;
+
+export interface ContentControl {
+  start: number;
+  end: number;
+  // Range inside <w:sdtContent>, where the control's text lives
+  contentStart: number;
+  contentEnd: number;
+  name: string;
+  controlType: ControlType;
+  options?: string[];
+  properties: { start: number; end: number; xml: string };
+}
+
+export interface MergeField {
+  start: number;
+  // Range of the field result (the text Word shows, e.g. «CompanyName»)
+  contentStart: number;
+  contentEnd: number;
+  name: string;
+  // <w:fldSimple .../> has no result yet; filling expands the tag in place
+  selfClosingTag?: { start: number; end: number; attributes: string };
+}
+
+export function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+function getControlType(properties: string): ControlType {
+  if (/<w14:checkbox\b/.test(properties)) return "checkbox";
+  if (/<w:(dropDownList|comboBox)\b/.test(properties)) return "dropdown";
+  if (/<w:date\b/.test(properties)) return "date";
+  return "text";
+}
+
+function getControlOptions(properties: string): string[] {
+  return Array.from(properties.matchAll(/<w:listItem\b[^>]*>/g), ([tag]) =>
+    getAttribute(tag, "w:displayText") ?? getAttribute(tag, "w:value") ?? "",
+  ).filter(Boolean);
+}
+
+// Leaf content controls only: a control wrapping other controls is a container
+export function readContentControls(xml: string): ContentControl[] {
+  const controls: ContentControl[] = [];
+  const stack: { start: number; hasChildren: boolean }[] = [];
+
+  SDT_TOKEN_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SDT_TOKEN_REGEX.exec(xml))) {
+    const [tag, closing, selfClosing] = match;
+    if (selfClosing) continue;
+
+    if (!closing) {
+      if (stack.length) stack[stack.length - 1].hasChildren = true;
+      stack.push({ start: match.index, hasChildren: false });
+      continue;
+    }
+
+    const open = stack.pop();
+    if (!open || open.hasChildren) continue;
+
+    const end = match.index + tag.length;
+    const element = xml.slice(open.start, end);
+    const propertiesStart = element.indexOf("<w:sdtPr>");
+    const propertiesEnd = element.indexOf("</w:sdtPr>");
+    const contentOpen = element.indexOf("<w:sdtContent>");
+    const contentClose = element.lastIndexOf("</w:sdtContent>");
+    if (contentOpen === -1 || contentClose === -1) continue;
+
+    const properties = propertiesStart === -1 ? "" : element.slice(propertiesStart, propertiesEnd + "</w:sdtPr>".length);
+    if (IGNORED_CONTROL_TAGS.some((ignored) => properties.includes(`<${ignored}`))) continue;
+
+    const alias = properties.match(/<w:alias\b[^>]*>/)?.[0];
+    const tagElement = properties.match(/<w:tag\b[^>]*>/)?.[0];
+    const name =
+      (alias && getAttribute(alias, "w:val")) ||
+      (tagElement && getAttribute(tagElement, "w:val")) ||
+      `Content control ${controls.length + 1}`;
+    const controlType = getControlType(properties);
+
+    controls.push({
+      start: open.start,
+      end,
+      contentStart: open.start + contentOpen + "<w:sdtContent>".length,
+      contentEnd: open.start + contentClose,
+      name,
+      controlType,
+      options: controlType === "dropdown" ? getControlOptions(properties) : undefined,
+      properties: {
+        start: open.start + Math.max(propertiesStart, 0),
+        end: open.start + (propertiesStart === -1 ? 0 : propertiesEnd + "</w:sdtPr>".length),
+        xml: properties,
+      },
+    });
+  }
+
+  return controls;
+}
+
+function getMergeFieldName(instruction: string): string | undefined {
+  const match = instruction.match(MERGEFIELD_REGEX);
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+// Both simple (<w:fldSimple>) and complex (fldChar begin/separate/end) merge fields
+export function readMergeFields(xml: string): MergeField[] {
+  const fields: MergeField[] = [];
+
+  SIMPLE_FIELD_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SIMPLE_FIELD_REGEX.exec(xml))) {
+    const [tag, attributes, selfClosing] = match;
+    const name = getMergeFieldName(getAttribute(attributes, "w:instr") ?? "");
+    if (!name) continue;
+
+    const contentStart = match.index + tag.length;
+    if (selfClosing) {
+      fields.push({
+        start: match.index,
+        contentStart,
+        contentEnd: contentStart,
+        name,
+        selfClosingTag: { start: match.index, end: contentStart, attributes },
+      });
+      continue;
+    }
+
+    const contentEnd = xml.indexOf("</w:fldSimple>", contentStart);
+    if (contentEnd === -1) continue;
+    fields.push({ start: match.index, contentStart, contentEnd, name });
+  }
+
+  const stack: { start: number; instruction: string; resultStart?: number }[] = [];
+  FIELD_TOKEN_REGEX.lastIndex = 0;
+  while ((match = FIELD_TOKEN_REGEX.exec(xml))) {
+    const [tag, charType, instruction] = match;
+
+    if (instruction !== undefined) {
+      if (stack.length) stack[stack.length - 1].instruction += decodeXml(instruction);
+    } else if (charType === "begin") {
+      stack.push({ start: match.index, instruction: "" });
+    } else if (charType === "separate") {
+      if (stack.length) stack[stack.length - 1].resultStart = match.index + tag.length;
+    } else {
+      const open = stack.pop();
+      const name = open && getMergeFieldName(open.instruction);
+      // Fields without a result (no "separate") have nowhere to put the value
+      if (open && name && open.resultStart !== undefined) {
+        fields.push({ start: open.start, contentStart: open.resultStart, contentEnd: match.index, name });
+      }
+    }
+  }
+
+  return fields.sort((a, b) => a.start - b.start);
+}
+
+// Edits to a control's properties once it holds a real value. Date answers are already
+// formatted (see dates.ts), so they are read back in the document's day/month order.
+export function getControlPropertyEdits(
+  control: ContentControl,
+  value: string,
+  dateOrder: DateOrder = DEFAULT_DATE_ORDER,
+): { start: number; end: number; value: string }[] {
+  let properties = control.properties.xml.replace(/<w:showingPlcHdr\s*\/>/g, "");
+
+  if (control.controlType === "checkbox") {
+    properties = properties.replace(
+      /(<w14:checked\b[^>]*w14:val=")[^"]*(")/,
+      `$1${isCheckedValue(value) ? "1" : "0"}$2`,
+    );
+  }
+
+  if (control.controlType === "date") {
+    const parsed = parseDate(value, dateOrder);
+    if (parsed) {
+      const fullDate = `${formatDate(parsed, "iso")}T00:00:00Z`;
+      properties = properties.replace(/<w:date\b([^>]*?)(\/?)>/, (tag: string, attributes: string, slash: string) =>
+        `<w:date${attributes.replace(/\s*w:fullDate="[^"]*"/, "")} w:fullDate="${fullDate}"${slash}>`,
+      );
+    }
+  }
+
+  return properties === control.properties.xml
+    ? []
+    : [{ start: control.properties.start, end: control.properties.end, value: properties }];
+}
+
+// Checkbox controls show a symbol rather than the typed answer
+export function getCheckboxSymbol(control: ContentControl, checked: boolean): string {
+  const state = control.properties.xml.match(
+    checked ? /<w14:checkedState\b[^>]*>/ : /<w14:uncheckedState\b[^>]*>/,
+  )?.[0];
+  const code = state && getAttribute(state, "w14:val");
+  return code ? String.fromCharCode(parseInt(code, 16)) : checked ? "☒" : "☐";
+}
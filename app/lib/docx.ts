@@ -0,0 +1,1060 @@
+// Word XML helpers shared by parse-document and generate-doc.
+// Both routes walk paragraphs the same way so occurrence ids line up between them.
+// OpenDocument reuses the same engine through its own dialect (see odt.ts).
+
+import type PizZip from "pizzip";
+import {
+  buildSnippet,
+  extractParagraphOccurrences,
+  getPartPrefix,
+  getPlaceholderLabel,
+  isCheckedValue,
+  type AnswerRecord,
+  type AnswerValue,
+  type PlaceholderOccurrence,
+} from "./placeholders";
+import {
+  getCheckboxSymbol,
+  getControlPropertyEdits,
+  readContentControls,
+  readMergeFields,
+  type ContentControl,
+  type MergeField,
+} from "./docx-controls";
+import { buildPlaceholderRegex, DEFAULT_SYNTAX_PROFILE, type SyntaxProfile } from "./placeholder-syntax";
+import {
+  getConditionOccurrences,
+  getRemovedRanges,
+  isPositionRemoved,
+  readSections,
+  type ConditionalSection,
+  type TextRange,
+} from "./sections";
+import { fillRecordText, getRecordValue, readLoops, withLoopOccurrences, type LoopRange } from "./loops";
+import { withImplicitBlanks } from "./implicit-blanks";
+import type { ReportTable } from "./fill-report";
+import type { DateOrder } from "./dates";
+import { getUnfilledText, type UnfilledPolicy } from "./unfilled";
+import { applyEdits, decodeXml, encodeXml, type XmlEdit } from "./xml";
+
+// Parts that can hold fillable text, in the order their occurrences are reported.
+// The body comes first so the preview (which renders body, footnotes, endnotes) lines up.
+const TEXT_PART_PATTERNS: { pattern: RegExp; optional?: boolean }[] = [
+  { pattern: /^word\/document\.xml$/ },
+  { pattern: /^word\/footnotes\.xml$/ },
+  { pattern: /^word\/endnotes\.xml$/ },
+  { pattern: /^word\/header\d*\.xml$/ },
+  { pattern: /^word\/footer\d*\.xml$/ },
+  { pattern: /^word\/comments\.xml$/, optional: true },
+];
+
+const TOKEN_REGEX = /<(\/?)(w:p|w:t|w:tab|mc:Fallback)(?=[\s/>])[^>]*?(\/?)>/g;
+const ALTERNATE_CONTENT_REGEX = /<mc:AlternateContent\b[\s\S]*?<\/mc:AlternateContent>/g;
+const TEXTBOX_CONTENT_REGEX = /(<w:txbxContent\b[^>]*>)([\s\S]*?)(<\/w:txbxContent>)/g;
+const PLACEHOLDER_STYLE_REGEX = /<w:rStyle w:val="PlaceholderText"\s*\/>/g;
+// A run's opening tag and properties, matched where the run starts
+const RUN_PROPERTIES_REGEX = /<w:r\b[^>]*>\s*(<w:rPr>[\s\S]*?<\/w:rPr>)?/y;
+const ELEMENT_TOKEN_REGEX = /<(\/?)([A-Za-z][\w.:-]*)[^>]*?(\/?)>/g;
+
+// Raw range of the characters inside one <w:t> element (or one ODF text node)
+export interface TextSegment {
+  tagStart: number;
+  start: number;
+  end: number;
+  text: string;
+  // Position of this text within the paragraph's plain text
+  offset: number;
+  // An element standing for its text, like Word's <w:tab/>, rather than a text node
+  isElement?: boolean;
+}
+
+// Paragraph text from..to becomes value, written into the <w:t> holding anchor.
+// A highlight keeps the text as it is and only marks it.
+interface TextReplacement {
+  from: number;
+  to: number;
+  anchor: number;
+  value: string;
+  highlight?: boolean;
+}
+
+// Part of a segment's new text: kept as it was, or a deletion or insertion
+export interface TextPiece {
+  text: string;
+  change?: "delete" | "insert";
+  highlight?: boolean;
+}
+
+export interface FillOptions {
+  // Write replacements as tracked changes
+  revisions?: RevisionOptions;
+  // What to do with occurrences that have no value; "leave" when not given
+  getUnfilledPolicy?: (occurrenceId: string) => UnfilledPolicy;
+  // How date answers were written, so date controls store the same day
+  dateOrder?: DateOrder;
+}
+
+// Author and date of tracked changes. nextId is shared by every part of the package,
+// since revision ids must be unique in the document.
+export interface RevisionOptions {
+  author: string;
+  date: string;
+  nextId: number;
+}
+
+export interface DocxParagraph {
+  start: number;
+  end: number;
+  text: string;
+  segments: TextSegment[];
+}
+
+// A content control or merge field, with the text segments of its current value
+interface StructuredPlaceholder {
+  occurrence: PlaceholderOccurrence;
+  segments: TextSegment[];
+  control?: ContentControl;
+  mergeField?: MergeField;
+}
+
+// What differs between Word and OpenDocument XML. Matching, sections, loops and
+// the edits themselves are shared, so both formats fill the same way.
+export interface XmlDialect {
+  readParagraphs: (xml: string) => DocxParagraph[];
+  // Edit that rewrites the characters of one segment
+  writeText: (segment: TextSegment, text: string) => XmlEdit;
+  // Same, splitting the text where pieces are highlighted, or written as revision
+  // markup when revisions are given
+  writeRuns?: (xml: string, segment: TextSegment, pieces: TextPiece[], revisions?: RevisionOptions) => XmlEdit;
+  // Opening and closing of a container that needs at least one paragraph (a table
+  // cell, a text box), matched right before and after a paragraph
+  containerStart: RegExp;
+  containerEnd: RegExp;
+  // Paragraphs that carry document setup and must never be removed
+  protectedParagraph?: RegExp;
+  // Table row element, e.g. "w:tr"
+  tableRow: string;
+  readStructured?: (xml: string, part: string, paragraphs: DocxParagraph[]) => StructuredPlaceholder[];
+  // Last pass over a changed part
+  finalize?: (xml: string) => string;
+}
+
+interface PartScan {
+  paragraphs: DocxParagraph[];
+  structured: StructuredPlaceholder[];
+  sections: ConditionalSection[];
+  loops: LoopRange[];
+  occurrences: PlaceholderOccurrence[];
+}
+
+// "word/header2.xml" -> "header2"
+export function getPartName(path: string): string {
+  return path.replace(/^word\//, "").replace(/\.xml$/, "");
+}
+
+export function listTextParts(zip: PizZip, options: { includeComments?: boolean } = {}): string[] {
+  const paths = Object.keys(zip.files);
+
+  return TEXT_PART_PATTERNS.flatMap(({ pattern, optional }) =>
+    optional && !options.includeComments
+      ? []
+      : paths.filter((path) => pattern.test(path)).sort((a, b) => a.localeCompare(b, "en", { numeric: true })),
+  );
+}
+
+// Paragraphs in document order. Text box paragraphs nested inside a drawing are
+// listed after the paragraph that anchors them, and their text is not counted
+// as part of that paragraph. The VML copy of a text box (mc:Fallback) is skipped.
+export function readParagraphs(xml: string): DocxParagraph[] {
+  const paragraphs: DocxParagraph[] = [];
+  const stack: { paragraph: DocxParagraph; inFallback: boolean }[] = [];
+  let fallbackDepth = 0;
+
+  TOKEN_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_REGEX.exec(xml))) {
+    const [tag, closing, name, selfClosing] = match;
+    // A tab in a run; the tab stops in paragraph properties carry attributes
+    if (tag === "<w:tab/>") {
+      const owner = stack[stack.length - 1]?.paragraph;
+      owner?.segments.push({
+        tagStart: match.index,
+        start: match.index,
+        end: match.index + tag.length,
+        text: "\t",
+        offset: owner.text.length,
+        isElement: true,
+      });
+      if (owner) owner.text += "\t";
+      continue;
+    }
+    if (selfClosing) continue;
+
+    if (name === "mc:Fallback") {
+      fallbackDepth += closing ? -1 : 1;
+    } else if (name === "w:p" && !closing) {
+      stack.push({
+        paragraph: { start: match.index, end: match.index, text: "", segments: [] },
+        inFallback: fallbackDepth > 0,
+      });
+    } else if (name === "w:p") {
+      const open = stack.pop();
+      if (open && !open.inFallback) {
+        open.paragraph.end = match.index + tag.length;
+        paragraphs.push(open.paragraph);
+      }
+    } else if (name === "w:t" && !closing) {
+      const start = match.index + tag.length;
+      const end = xml.indexOf("</w:t>", start);
+      if (end === -1) break;
+
+      const owner = stack[stack.length - 1]?.paragraph;
+      if (owner) {
+        const text = decodeXml(xml.slice(start, end));
+        owner.segments.push({ tagStart: match.index, start, end, text, offset: owner.text.length });
+        owner.text += text;
+      }
+      TOKEN_REGEX.lastIndex = end;
+    }
+  }
+
+  return paragraphs.sort((a, b) => a.start - b.start);
+}
+
+function findSegment(paragraph: DocxParagraph, offset: number): TextSegment | undefined {
+  return paragraph.segments.find(
+    (segment) => offset >= segment.offset && offset < segment.offset + segment.text.length,
+  );
+}
+
+// Innermost paragraph containing a position, or the next one for block-level controls
+function findParagraphIndex(paragraphs: DocxParagraph[], position: number): number {
+  let containing = -1;
+  paragraphs.forEach((paragraph, index) => {
+    if (paragraph.start <= position && paragraph.end >= position) containing = index;
+  });
+  if (containing !== -1) return containing;
+
+  const next = paragraphs.findIndex((paragraph) => paragraph.start >= position);
+  return next === -1 ? Math.max(paragraphs.length - 1, 0) : next;
+}
+
+function readStructuredPlaceholders(xml: string, part: string, paragraphs: DocxParagraph[]): StructuredPlaceholder[] {
+  const prefix = getPartPrefix(part);
+  const controls = readContentControls(xml);
+  // A merge field inside a content control is filled through the control
+  const mergeFields = readMergeFields(xml).filter(
+    (field) => !controls.some((control) => field.start >= control.contentStart && field.start < control.contentEnd),
+  );
+  const sources: { control?: ContentControl; mergeField?: MergeField; id: string }[] = [
+    ...controls.map((control, index) => ({ control, id: `${prefix}sdt${index}` })),
+    ...mergeFields.map((mergeField, index) => ({ mergeField, id: `${prefix}fld${index}` })),
+  ];
+
+  return sources.map(({ control, mergeField, id }) => {
+    const { contentStart, contentEnd, name } = (control ?? mergeField)!;
+    const paragraphIndex = findParagraphIndex(paragraphs, contentStart);
+    const paragraph = paragraphs[paragraphIndex];
+    const segments = paragraphs.flatMap((candidate) =>
+      candidate.segments.filter((segment) => segment.start >= contentStart && segment.end <= contentEnd),
+    );
+    const displayText = segments.map((segment) => segment.text).join("");
+
+    // Empty controls have no text yet, so place them after whatever precedes them
+    const offset = segments.length && paragraph?.segments.includes(segments[0])
+      ? segments[0].offset
+      : (paragraph?.segments.filter((segment) => segment.end <= contentStart) ?? [])
+          .reduce((length, segment) => length + segment.text.length, 0);
+
+    return {
+      occurrence: {
+        id,
+        placeholder: name,
+        part,
+        paragraphIndex,
+        offset,
+        snippet: paragraph ? buildSnippet(paragraph.text, offset, offset + displayText.length) : displayText,
+        source: control ? "contentControl" : "mergeField",
+        displayText,
+        controlType: control?.controlType,
+        options: control?.options,
+      },
+      segments,
+      control,
+      mergeField,
+    };
+  });
+}
+
+function scanPart(xml: string, part: string, syntax: SyntaxProfile, dialect: XmlDialect): PartScan {
+  const paragraphs = dialect.readParagraphs(xml);
+  const structured = dialect.readStructured?.(xml, part, paragraphs) ?? [];
+  const ranges = structured.map(({ control, mergeField }) => control ?? mergeField!);
+  const isStructured = (segment?: TextSegment) =>
+    !!segment && ranges.some((range) => segment.start >= range.contentStart && segment.end <= range.contentEnd);
+
+  // Text inside a control or merge field belongs to it, even if it looks like [Company Name]
+  const pattern = buildPlaceholderRegex(syntax);
+  const textOccurrences = paragraphs.flatMap((paragraph, index) =>
+    extractParagraphOccurrences(paragraph.text, index, pattern, part, (offset) =>
+      isStructured(findSegment(paragraph, offset)),
+    ),
+  );
+
+  const paragraphTexts = paragraphs.map((paragraph) => paragraph.text);
+  const sections = readSections(paragraphTexts, part);
+  const loops = readLoops(paragraphTexts, part);
+
+  // Blanks the user accepted replace any placeholders they cover, e.g. the ___ of "___, 20__"
+  const occurrences = withLoopOccurrences(
+    withImplicitBlanks(
+      [
+        ...textOccurrences,
+        ...structured.map(({ occurrence }) => occurrence),
+        ...getConditionOccurrences(sections, paragraphTexts, part),
+      ],
+      syntax.blanks ?? [],
+      paragraphTexts,
+      part,
+      loops,
+    ).sort((a, b) => a.paragraphIndex - b.paragraphIndex || a.offset - b.offset),
+    loops,
+    paragraphTexts,
+    part,
+  );
+
+  return { paragraphs, structured, sections, loops, occurrences };
+}
+
+export function extractPartOccurrences(
+  xml: string,
+  part: string,
+  syntax: SyntaxProfile = DEFAULT_SYNTAX_PROFILE,
+  dialect: XmlDialect = WORD_DIALECT,
+): PlaceholderOccurrence[] {
+  return scanPart(xml, part, syntax, dialect).occurrences;
+}
+
+export function extractPartSections(xml: string, part: string, dialect: XmlDialect = WORD_DIALECT): ConditionalSection[] {
+  return readSections(dialect.readParagraphs(xml).map((paragraph) => paragraph.text), part);
+}
+
+// Word keeps a VML copy of each text box for older readers; mirror the filled
+// DrawingML text box content into it so both renderings agree
+function syncTextboxFallbacks(xml: string): string {
+  return xml.replace(ALTERNATE_CONTENT_REGEX, (block) => {
+    const fallbackIndex = block.indexOf("<mc:Fallback");
+    if (fallbackIndex === -1) return block;
+
+    const choice = block.slice(0, fallbackIndex);
+    const fallback = block.slice(fallbackIndex);
+    const filledContents = Array.from(choice.matchAll(TEXTBOX_CONTENT_REGEX), (match) => match[2]);
+    if (!filledContents.length) return block;
+
+    let index = 0;
+    const syncedFallback = fallback.replace(
+      TEXTBOX_CONTENT_REGEX,
+      (fullMatch: string, open: string, content: string, close: string) =>
+        index < filledContents.length ? open + filledContents[index++] + close : fullMatch,
+    );
+    return choice + syncedFallback;
+  });
+}
+
+function textRun(value: string): string {
+  return `<w:r><w:t xml:space="preserve">${encodeXml(value)}</w:t></w:r>`;
+}
+
+// Tabs left in the text go back to <w:tab/> elements between text nodes
+function encodeWordText(text: string, element = "w:t"): string {
+  return encodeXml(text).replace(/\t/g, `</${element}><w:tab/><${element} xml:space="preserve">`);
+}
+
+// Rewrite the whole <w:t> start tag so spaces at either end survive. A tab element
+// becomes a text node of its own.
+function writeWordText(segment: TextSegment, text: string): XmlEdit {
+  const value = `<w:t xml:space="preserve">${encodeWordText(text)}${segment.isElement ? "</w:t>" : ""}`;
+  return { start: segment.tagStart, end: segment.end, value };
+}
+
+function getRevisionAttributes(revisions: RevisionOptions): string {
+  const author = encodeXml(revisions.author).replace(/"/g, "&quot;");
+  return `w:id="${revisions.nextId++}" w:author="${author}" w:date="${revisions.date}"`;
+}
+
+// Word wants run properties in schema order, so the highlight goes before the first
+// property that must follow it
+function withHighlight(properties: string): string {
+  const cleaned = properties.replace(/<w:highlight\b[^>]*\/>/g, "");
+  if (!cleaned) return '<w:rPr><w:highlight w:val="yellow"/></w:rPr>';
+  const next = cleaned.search(
+    /<w:(?:u|effect|bdr|shd|fitText|vertAlign|rtl|cs|em|lang|eastAsianLayout|specVanish|oMath|rPrChange)\b|<\/w:rPr>/,
+  );
+  return `${cleaned.slice(0, next)}<w:highlight w:val="yellow"/>${cleaned.slice(next)}`;
+}
+
+// The run holding a <w:t> is closed before each changed or highlighted piece and
+// reopened after it with the same properties. Revisions sit between runs as Word expects.
+function writeWordRuns(
+  xml: string,
+  segment: TextSegment,
+  pieces: TextPiece[],
+  revisions?: RevisionOptions,
+): XmlEdit {
+  let runStart = xml.lastIndexOf("<w:r", segment.tagStart);
+  while (runStart !== -1 && !/[\s>]/.test(xml[runStart + 4])) runStart = xml.lastIndexOf("<w:r", runStart - 1);
+  RUN_PROPERTIES_REGEX.lastIndex = Math.max(runStart, 0);
+  const properties = (runStart !== -1 && RUN_PROPERTIES_REGEX.exec(xml)?.[1]) || "";
+  const isPlain = (piece?: TextPiece) => !!piece && !piece.change && !piece.highlight;
+
+  let value = "";
+  let inRun = true;
+  pieces.forEach((piece, index) => {
+    const text = encodeWordText(piece.text, piece.change === "delete" ? "w:delText" : "w:t");
+    if (isPlain(piece)) {
+      if (!inRun) value += `<w:r>${properties}`;
+      // The last kept text is closed by the segment's own </w:t>
+      value += `<w:t xml:space="preserve">${text}${index < pieces.length - 1 ? "</w:t>" : ""}`;
+      inRun = true;
+      return;
+    }
+    if (inRun) value += "</w:r>";
+    inRun = false;
+
+    const runProperties = piece.highlight ? withHighlight(properties) : properties;
+    if (piece.change === "delete") {
+      if (revisions) {
+        value += `<w:del ${getRevisionAttributes(revisions)}><w:r>${runProperties}<w:delText xml:space="preserve">${text}</w:delText></w:r></w:del>`;
+      }
+      return;
+    }
+    const run = `<w:r>${runProperties}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+    value += piece.change === "insert" && revisions ? `<w:ins ${getRevisionAttributes(revisions)}>${run}</w:ins>` : run;
+  });
+  // The segment's own </w:t> and the rest of its run follow
+  if (!isPlain(pieces[pieces.length - 1])) {
+    if (!inRun) value += `<w:r>${properties}`;
+    value += '<w:t xml:space="preserve">';
+  }
+  // A tab element has no </w:t> of its own to close the last text
+  if (segment.isElement) value += "</w:t>";
+
+  return { start: segment.tagStart, end: segment.end, value };
+}
+
+// Replace paragraph text ranges in place. Only the <w:t> elements a range covers
+// change: its value goes into the one holding the anchor, the rest lose just the
+// covered characters. Other runs, and tabs, breaks, bookmarks and fields, stay as they are.
+// With revisions, the covered characters and values are written as tracked changes.
+// Highlights mark the covered characters in each run instead of replacing them.
+function getTextReplacementEdits(
+  paragraph: DocxParagraph,
+  replacements: TextReplacement[],
+  dialect: XmlDialect,
+  revisions?: RevisionOptions,
+  xml = "",
+): XmlEdit[] {
+  const sorted = [...replacements].sort((a, b) => a.from - b.from);
+
+  return paragraph.segments.flatMap((segment, index) => {
+    const segmentEnd = segment.offset + segment.text.length;
+    const isLast = index === paragraph.segments.length - 1;
+    // The last segment also takes anchors at the very end of the paragraph
+    const holdsAnchor = (anchor: number) => anchor >= segment.offset && (anchor < segmentEnd || (isLast && anchor === segmentEnd));
+    const touching = sorted.filter(
+      (replacement) => (replacement.from < segmentEnd && replacement.to > segment.offset) || holdsAnchor(replacement.anchor),
+    );
+    if (!touching.length) return [];
+
+    const pieces: TextPiece[] = [];
+    let cursor = segment.offset;
+    touching.forEach((replacement) => {
+      if (replacement.from > cursor) {
+        pieces.push({ text: segment.text.slice(cursor - segment.offset, replacement.from - segment.offset) });
+      }
+      const coveredStart = Math.max(cursor, replacement.from);
+      cursor = Math.max(cursor, Math.min(replacement.to, segmentEnd));
+      const covered = segment.text.slice(coveredStart - segment.offset, cursor - segment.offset);
+      if (replacement.highlight) {
+        pieces.push({ text: covered, highlight: true });
+        return;
+      }
+      if (covered) pieces.push({ text: covered, change: "delete" });
+      if (holdsAnchor(replacement.anchor)) pieces.push({ text: replacement.value, change: "insert" });
+    });
+    pieces.push({ text: segment.text.slice(cursor - segment.offset) });
+
+    return getPieceEdits(xml, segment, pieces, dialect, revisions);
+  });
+}
+
+function getPieceEdits(
+  xml: string,
+  segment: TextSegment,
+  pieces: TextPiece[],
+  dialect: XmlDialect,
+  revisions?: RevisionOptions,
+): XmlEdit[] {
+  const nonEmpty = pieces.filter((piece) => piece.text);
+  const isHighlighted = nonEmpty.some((piece) => piece.highlight);
+  if ((revisions || isHighlighted) && dialect.writeRuns) {
+    return isHighlighted || nonEmpty.some((piece) => piece.change)
+      ? [dialect.writeRuns(xml, segment, nonEmpty, revisions)]
+      : [];
+  }
+  const text = nonEmpty
+    .filter((piece) => piece.change !== "delete")
+    .map((piece) => piece.text)
+    .join("");
+  return text === segment.text ? [] : [dialect.writeText(segment, text)];
+}
+
+// Put the value in the first segment and empty the rest
+function getSegmentEdits(xml: string, segments: TextSegment[], value: string, revisions?: RevisionOptions): XmlEdit[] {
+  if (revisions) {
+    return segments.flatMap((segment, index) =>
+      getPieceEdits(
+        xml,
+        segment,
+        [{ text: segment.text, change: "delete" }, ...(index === 0 ? [{ text: value, change: "insert" as const }] : [])],
+        WORD_DIALECT,
+        revisions,
+      ),
+    );
+  }
+  return segments.map((segment, index) =>
+    index === 0 ? writeWordText(segment, value) : { start: segment.start, end: segment.end, value: "" },
+  );
+}
+
+// Write a value into a content control or merge field result, keeping the control or field itself
+function getStructuredEdits(
+  xml: string,
+  placeholder: StructuredPlaceholder,
+  value: string,
+  revisions?: RevisionOptions,
+  dateOrder?: DateOrder,
+): XmlEdit[] {
+  const { control, mergeField, segments } = placeholder;
+  const { contentStart, contentEnd } = (control ?? mergeField)!;
+  let text = value;
+
+  if (control?.controlType === "checkbox") {
+    text = getCheckboxSymbol(control, isCheckedValue(value));
+  } else if (control?.controlType === "dropdown") {
+    text = control.options?.find((option) => option.toLowerCase() === value.trim().toLowerCase()) ?? value;
+  }
+
+  const edits: XmlEdit[] = control ? getControlPropertyEdits(control, value, dateOrder) : [];
+
+  // The value should not keep Word's grey placeholder styling
+  for (const match of xml.slice(contentStart, contentEnd).matchAll(PLACEHOLDER_STYLE_REGEX)) {
+    const start = contentStart + (match.index ?? 0);
+    edits.push({ start, end: start + match[0].length, value: "" });
+  }
+
+  if (segments.length) {
+    return [...edits, ...getSegmentEdits(xml, segments, text, revisions)];
+  }
+
+  const run = revisions ? `<w:ins ${getRevisionAttributes(revisions)}>${textRun(text)}</w:ins>` : textRun(text);
+
+  if (mergeField?.selfClosingTag) {
+    const { start, end, attributes } = mergeField.selfClosingTag;
+    return [...edits, { start, end, value: `<w:fldSimple${attributes}>${run}</w:fldSimple>` }];
+  }
+
+  // Empty block-level control: add the run to its first paragraph
+  const paragraphClose = xml.indexOf("</w:p>", contentStart);
+  const position = paragraphClose !== -1 && paragraphClose < contentEnd ? paragraphClose : contentStart;
+  return [...edits, { start: position, end: position, value: run }];
+}
+
+// Revision ids share their number space with comments and bookmarks, so new ones
+// start past every id already in the package
+export function getNextRevisionId(parts: string[]): number {
+  let next = 0;
+  parts.forEach((xml) => {
+    for (const match of xml.matchAll(/\bw:id="(\d+)"/g)) next = Math.max(next, Number(match[1]) + 1);
+  });
+  return next;
+}
+
+// Replace placeholder occurrences of one part by id. Values for unknown ids are ignored.
+// syntax must be the profile the ids were parsed with, or text ids won't line up.
+// Loops take a list of records; every other occurrence a string.
+// With revisions, replaced text is kept as a tracked deletion next to the inserted
+// value where the dialect supports it; removed sections and repeated loop content are not tracked.
+// Occurrences without a value follow their unfilled policy; those aren't reported as replaced.
+// The part is scanned once: the occurrences found and the ones left unfilled come back
+// with the XML, so callers don't scan it again.
+export function fillOccurrences(
+  xml: string,
+  part: string,
+  values: Record<string, AnswerValue>,
+  syntax: SyntaxProfile = DEFAULT_SYNTAX_PROFILE,
+  dialect: XmlDialect = WORD_DIALECT,
+  options: FillOptions = {},
+): {
+  xml: string;
+  replacedIds: string[];
+  occurrences: PlaceholderOccurrence[];
+  // Occurrences without a value, other than condition tags and anything in a removed branch
+  unfilled: PlaceholderOccurrence[];
+} {
+  const { revisions, getUnfilledPolicy, dateOrder } = options;
+  const { paragraphs, structured, sections, loops, occurrences } = scanPart(xml, part, syntax, dialect);
+  const replacedIds: string[] = [];
+  const edits: XmlEdit[] = [];
+  const getPolicy = (id: string) => (getUnfilledPolicy ? getUnfilledPolicy(id) : "leave");
+
+  structured.forEach((placeholder) => {
+    const value = values[placeholder.occurrence.id];
+    if (typeof value === "string") {
+      edits.push(...getStructuredEdits(xml, placeholder, value, revisions, dateOrder));
+      replacedIds.push(placeholder.occurrence.id);
+      return;
+    }
+    // A control or field can't be highlighted on its own, but can take a marker
+    const unfilledText = value === undefined ? getUnfilledText(getPolicy(placeholder.occurrence.id)) : undefined;
+    if (unfilledText !== undefined) edits.push(...getStructuredEdits(xml, placeholder, unfilledText, revisions));
+  });
+
+  const structuredSegments = new Set(structured.flatMap(({ segments }) => segments));
+
+  // Text occurrences by paragraph, so each paragraph only looks at its own
+  const textOccurrences = new Map<number, PlaceholderOccurrence[]>();
+  occurrences.forEach((occurrence) => {
+    if (occurrence.source !== "text") return;
+    const list = textOccurrences.get(occurrence.paragraphIndex);
+    if (list) list.push(occurrence);
+    else textOccurrences.set(occurrence.paragraphIndex, [occurrence]);
+  });
+
+  paragraphs.forEach((paragraph, paragraphIndex) => {
+    const replacements = (textOccurrences.get(paragraphIndex) ?? [])
+      .flatMap((occurrence): TextReplacement[] => {
+        const value = values[occurrence.id];
+        const policy = value === undefined ? getPolicy(occurrence.id) : "leave";
+        const unfilledText = getUnfilledText(policy);
+        if (typeof value !== "string" && policy !== "highlight" && unfilledText === undefined) return [];
+
+        // An implicit blank shows text other than its name, like a run of spaces
+        const matched = occurrence.displayText ?? occurrence.placeholder;
+        const from = occurrence.offset;
+        const to = from + matched.length;
+        // A match running into a control or field can't be split from it
+        const spansStructured = paragraph.segments.some(
+          (segment) =>
+            structuredSegments.has(segment) && segment.offset < to && segment.offset + segment.text.length > from,
+        );
+        if (spansStructured) return [];
+        if (policy === "highlight") return [{ from, to, anchor: from, value: "", highlight: true }];
+
+        if (typeof value === "string") replacedIds.push(occurrence.id);
+        // The value takes the formatting of the placeholder's name rather than its
+        // delimiters, e.g. the bold run in "[" + "Company Name" + "]"
+        const label = getPlaceholderLabel(matched);
+        const anchor = from + Math.max(label ? matched.indexOf(label) : 0, 0);
+        return [{ from, to, anchor, value: typeof value === "string" ? value : unfilledText! }];
+      });
+
+    edits.push(...getTextReplacementEdits(paragraph, replacements, dialect, revisions, xml));
+  });
+
+  // Sections are resolved on the filled XML: filling never adds or removes
+  // paragraphs, so the section tags are read back in the same order
+  const filled = edits.length ? applyEdits(xml, edits) : xml;
+  const { xml: resolved, decidedIds, ranges } = sections.length
+    ? removeSections(filled, part, values, dialect)
+    : { xml: filled, decidedIds: [], ranges: [] };
+  replacedIds.push(...decidedIds);
+
+  // Loops go last so a section inside one is decided once, before it is copied.
+  // Loops inside a removed branch are gone, so the rest are matched up in order.
+  let expanded = resolved;
+  if (loops.length) {
+    const filledLoops = readLoops(dialect.readParagraphs(filled).map((paragraph) => paragraph.text), part);
+    const keptIds = filledLoops
+      .filter((loop) => !isPositionRemoved(loop.open.start, ranges) && !isPositionRemoved(loop.close.start, ranges))
+      .map((loop) => loop.id);
+    const result = expandLoops(resolved, part, values, syntax, keptIds, dialect, revisions);
+    expanded = result.xml;
+    replacedIds.push(...result.expandedIds);
+  }
+
+  // Removed ranges above are positions in the filled text; these are in the original
+  const removedRanges = sections.length ? getRemovedRanges(sections, values) : [];
+  const unfilled = occurrences.filter(
+    (occurrence) =>
+      occurrence.source !== "condition" &&
+      values[occurrence.id] === undefined &&
+      !isPositionRemoved(occurrence, removedRanges),
+  );
+
+  if (expanded === xml) return { xml, replacedIds, occurrences, unfilled };
+
+  return { xml: dialect.finalize ? dialect.finalize(expanded) : expanded, replacedIds, occurrences, unfilled };
+}
+
+// Whether a slice of XML opens and closes its own elements, so it can be cut out whole
+function isBalanced(fragment: string): boolean {
+  const stack: string[] = [];
+
+  ELEMENT_TOKEN_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ELEMENT_TOKEN_REGEX.exec(fragment))) {
+    const [, closing, name, selfClosing] = match;
+    if (selfClosing) continue;
+    if (!closing) {
+      stack.push(name);
+    } else if (stack.pop() !== name) {
+      return false;
+    }
+  }
+
+  return stack.length === 0;
+}
+
+// Table cells and text boxes need a paragraph, and some paragraphs carry page setup
+function canRemoveParagraph(xml: string, paragraph: DocxParagraph, dialect: XmlDialect): boolean {
+  if (dialect.protectedParagraph?.test(xml.slice(paragraph.start, paragraph.end))) return false;
+
+  const isFirst = dialect.containerStart.test(xml.slice(Math.max(0, paragraph.start - 200), paragraph.start));
+  const isLast = dialect.containerEnd.test(xml.slice(paragraph.end, paragraph.end + 40));
+  return !(isFirst && isLast);
+}
+
+// Drop the given character intervals from a paragraph's <w:t> elements
+function getTextRemovalEdits(paragraph: DocxParagraph, intervals: [number, number][], dialect: XmlDialect): XmlEdit[] {
+  return paragraph.segments.flatMap((segment) => {
+    let text = "";
+    for (let index = 0; index < segment.text.length; index++) {
+      const offset = segment.offset + index;
+      if (!intervals.some(([from, to]) => offset >= from && offset < to)) text += segment.text[index];
+    }
+    return text === segment.text ? [] : [dialect.writeText(segment, text)];
+  });
+}
+
+// Cut text ranges out of a part. Paragraphs left with nothing but whitespace go
+// entirely, so a tag on its own line doesn't leave a blank line behind.
+function getRangeRemovalEdits(
+  xml: string,
+  paragraphs: DocxParagraph[],
+  ranges: TextRange[],
+  dialect: XmlDialect,
+): XmlEdit[] {
+  const intervals = new Map<number, [number, number][]>();
+  ranges.forEach(({ start, end }) => {
+    for (let index = start.paragraphIndex; index <= end.paragraphIndex && index < paragraphs.length; index++) {
+      const from = index === start.paragraphIndex ? start.offset : 0;
+      const to = index === end.paragraphIndex ? end.offset : paragraphs[index].text.length;
+      // Paragraphs strictly inside a range go even when they hold no text (e.g. images)
+      if (to > from || (index > start.paragraphIndex && index < end.paragraphIndex)) {
+        intervals.set(index, [...(intervals.get(index) ?? []), [from, to]]);
+      }
+    }
+  });
+
+  const whole: number[] = [];
+  const textEdits: XmlEdit[] = [];
+  Array.from(intervals.keys())
+    .sort((a, b) => a - b)
+    .forEach((index) => {
+      const paragraph = paragraphs[index];
+      const paragraphIntervals = intervals.get(index)!;
+      const kept = Array.from(paragraph.text)
+        .filter((_, offset) => !paragraphIntervals.some(([from, to]) => offset >= from && offset < to))
+        .join("");
+
+      if (!kept.trim() && canRemoveParagraph(xml, paragraph, dialect)) {
+        whole.push(index);
+      } else {
+        textEdits.push(...getTextRemovalEdits(paragraph, paragraphIntervals, dialect));
+      }
+    });
+
+  // Neighbouring paragraphs go in one cut when the XML between them is whole
+  // elements (e.g. a table inside the removed clause)
+  const wholeEdits: XmlEdit[] = [];
+  const runs: number[][] = [];
+  whole.forEach((index) => {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === index - 1) run.push(index);
+    else runs.push([index]);
+  });
+  runs.forEach((run) => {
+    const start = paragraphs[run[0]].start;
+    const end = Math.max(...run.map((index) => paragraphs[index].end));
+    if (isBalanced(xml.slice(start, end))) {
+      wholeEdits.push({ start, end, value: "" });
+      return;
+    }
+    run.forEach((index) => {
+      const { start: paragraphStart, end: paragraphEnd } = paragraphs[index];
+      if (!wholeEdits.some((edit) => paragraphStart >= edit.start && paragraphEnd <= edit.end)) {
+        wholeEdits.push({ start: paragraphStart, end: paragraphEnd, value: "" });
+      }
+    });
+  });
+
+  // Text box paragraphs inside a removed paragraph go with it
+  return [
+    ...wholeEdits,
+    ...textEdits.filter((edit) => !wholeEdits.some((removed) => edit.start >= removed.start && edit.end <= removed.end)),
+  ];
+}
+
+// Remove untaken branches and the tags of decided {#if} sections
+function removeSections(
+  xml: string,
+  part: string,
+  values: Record<string, AnswerValue>,
+  dialect: XmlDialect,
+): { xml: string; decidedIds: string[]; ranges: TextRange[] } {
+  const paragraphs = dialect.readParagraphs(xml);
+  const sections = readSections(paragraphs.map((paragraph) => paragraph.text), part);
+  const ranges = getRemovedRanges(sections, values);
+  if (!ranges.length) return { xml, decidedIds: [], ranges };
+
+  const decidedIds = sections
+    .flatMap((section) => section.branches)
+    .map((branch) => branch.conditionId)
+    .filter((id): id is string => !!id && values[id] !== undefined);
+
+  return { xml: applyEdits(xml, getRangeRemovalEdits(xml, paragraphs, ranges, dialect)), decidedIds, ranges };
+}
+
+// Start of the table row holding a position, if the row is still open there
+function findRowStart(xml: string, position: number, row: string): number {
+  let start = -1;
+  const rowStartRegex = new RegExp(`<${row}[\\s>]`, "g");
+  let match: RegExpExecArray | null;
+  while ((match = rowStartRegex.exec(xml)) && match.index < position) start = match.index;
+  return start !== -1 && !xml.slice(start, position).includes(`</${row}>`) ? start : -1;
+}
+
+// One copy of a loop's content, filled from a record the same way the document is
+function fillRecord(
+  fragment: string,
+  part: string,
+  record: AnswerRecord,
+  syntax: SyntaxProfile,
+  dialect: XmlDialect,
+  revisions?: RevisionOptions,
+): string {
+  const values: Record<string, string> = {};
+  extractPartOccurrences(fragment, part, syntax, dialect).forEach((occurrence) => {
+    const value = occurrence.source === "condition" ? undefined : getRecordValue(record, occurrence.placeholder);
+    if (value !== undefined) values[occurrence.id] = value;
+  });
+  return fillOccurrences(fragment, part, values, syntax, dialect, { revisions }).xml;
+}
+
+// Edits that repeat one loop per record. Tags in one paragraph repeat the text between
+// them; tags in one table row repeat the row; otherwise the paragraphs from the opening
+// tag to the closing one repeat. Loops that don't form whole elements are left alone.
+function getLoopEdits(
+  xml: string,
+  paragraphs: DocxParagraph[],
+  loop: LoopRange,
+  records: AnswerRecord[],
+  part: string,
+  syntax: SyntaxProfile,
+  dialect: XmlDialect,
+  revisions?: RevisionOptions,
+): XmlEdit[] {
+  const first = paragraphs[loop.open.start.paragraphIndex];
+  const last = paragraphs[loop.close.start.paragraphIndex];
+
+  if (first === last) {
+    const content = first.text.slice(loop.open.end.offset, loop.close.start.offset);
+    const pattern = buildPlaceholderRegex(syntax);
+    const copies = records.map((record) => fillRecordText(content, record, pattern)).join("");
+    const from = loop.open.start.offset;
+    return getTextReplacementEdits(
+      first,
+      [{ from, to: loop.close.end.offset, anchor: from, value: copies }],
+      dialect,
+      revisions,
+      xml,
+    );
+  }
+
+  const rowClose = `</${dialect.tableRow}>`;
+  const rowStart = findRowStart(xml, first.start, dialect.tableRow);
+  const rowEnd = xml.indexOf(rowClose, last.end);
+  const isRow = rowStart !== -1 && rowEnd !== -1 && !xml.slice(first.start, last.end).includes(rowClose);
+  const start = isRow ? rowStart : first.start;
+  const end = isRow ? rowEnd + rowClose.length : last.end;
+  if (!isBalanced(xml.slice(start, end))) return [];
+
+  // Tags on a line of their own take the paragraph with them
+  const tagEdits = getRangeRemovalEdits(xml, paragraphs, [loop.open, loop.close], dialect).map((edit) => ({
+    ...edit,
+    start: edit.start - start,
+    end: edit.end - start,
+  }));
+  const template = applyEdits(xml.slice(start, end), tagEdits);
+  const copies = records.map((record) => fillRecord(template, part, record, syntax, dialect, revisions)).join("");
+  return [{ start, end, value: copies }];
+}
+
+// Repeat loops that have a list answer. loopIds gives the id of each loop still in the
+// XML, in order, since removing sections may have taken some of them out.
+function expandLoops(
+  xml: string,
+  part: string,
+  values: Record<string, AnswerValue>,
+  syntax: SyntaxProfile,
+  loopIds: string[],
+  dialect: XmlDialect,
+  revisions?: RevisionOptions,
+): { xml: string; expandedIds: string[] } {
+  const paragraphs = dialect.readParagraphs(xml);
+  const loops = readLoops(paragraphs.map((paragraph) => paragraph.text), part);
+  const edits: XmlEdit[] = [];
+  const expandedIds: string[] = [];
+
+  loops.forEach((loop, index) => {
+    const id = loopIds[index];
+    const records = id === undefined ? undefined : values[id];
+    if (!Array.isArray(records)) return;
+
+    const loopEdits = getLoopEdits(xml, paragraphs, loop, records, part, syntax, dialect, revisions);
+    // Two loops in one table row would repeat the same row; the first one wins
+    const overlaps = loopEdits.some((edit) =>
+      edits.some((other) => edit.start < other.end && other.start < edit.end),
+    );
+    if (!loopEdits.length || overlaps) return;
+
+    edits.push(...loopEdits);
+    expandedIds.push(id);
+  });
+
+  return { xml: edits.length ? applyEdits(xml, edits) : xml, expandedIds };
+}
+
+function reportParagraph(text: string, runProperties = ""): string {
+  const properties = runProperties ? `<w:rPr>${runProperties}</w:rPr>` : "";
+  return `<w:p><w:r>${properties}<w:t xml:space="preserve">${encodeXml(text)}</w:t></w:r></w:p>`;
+}
+
+// The fill report on a page of its own at the end of the body, as a bordered table.
+// Formatting is direct so it doesn't depend on the template's styles.
+export function appendWordReport(xml: string, report: ReportTable): string {
+  const borders = ["top", "left", "bottom", "right", "insideH", "insideV"]
+    .map((side) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`)
+    .join("");
+  const row = (cells: string[][], header = false) =>
+    `<w:tr>${header ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}${cells
+      .map((lines) => `<w:tc>${lines.map((line) => reportParagraph(line, header ? "<w:b/>" : "")).join("")}</w:tc>`)
+      .join("")}</w:tr>`;
+
+  const table =
+    `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${borders}</w:tblBorders></w:tblPr>` +
+    `<w:tblGrid>${report.columns.map(() => '<w:gridCol w:w="2250"/>').join("")}</w:tblGrid>` +
+    row(report.columns.map((column) => [column]), true) +
+    report.rows.map((cells) => row(cells)).join("") +
+    "</w:tbl>";
+  const content =
+    '<w:p><w:r><w:br w:type="page"/></w:r></w:p>' +
+    reportParagraph(report.title, '<w:b/><w:sz w:val="32"/>') +
+    reportParagraph(report.summary) +
+    table +
+    // A table can't be the last thing before the section properties
+    "<w:p/>";
+
+  // Before the body's own section properties, which must stay last
+  const bodyEnd = xml.lastIndexOf("</w:body>");
+  if (bodyEnd === -1) return xml;
+  const sectionStart = xml.lastIndexOf("<w:sectPr", bodyEnd);
+  const position =
+    sectionStart !== -1 && !xml.slice(sectionStart, bodyEnd).includes("</w:p>") ? sectionStart : bodyEnd;
+  return xml.slice(0, position) + content + xml.slice(position);
+}
+
+const CUSTOM_PROPERTIES_PATH = "docProps/custom.xml";
+const CUSTOM_PROPERTIES_TYPE = "application/vnd.openxmlformats-officedocument.custom-properties+xml";
+const CUSTOM_PROPERTIES_RELATIONSHIP =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties";
+// Every custom property uses the user-defined property set
+const CUSTOM_PROPERTY_FMTID = "{D5CDD505-2E9C-101B-9397-08002B2CF9AE}";
+const CUSTOM_PROPERTY_REGEX = /<property\b[^>]*\bname="([^"]*)"[^>]*>([\s\S]*?)<\/property>/g;
+
+function encodeAttribute(value: string): string {
+  return encodeXml(value).replace(/"/g, "&quot;");
+}
+
+// Text properties from docProps/custom.xml, by name. Other value types are read as text too.
+export function readWordProperties(zip: PizZip): Record<string, string> {
+  const xml = zip.file(CUSTOM_PROPERTIES_PATH)?.asText() ?? "";
+  const properties: Record<string, string> = {};
+  for (const [, name, content] of xml.matchAll(CUSTOM_PROPERTY_REGEX)) {
+    const value = content.match(/<vt:\w+>([\s\S]*?)<\/vt:\w+>/)?.[1];
+    if (value !== undefined) properties[decodeXml(name)] = decodeXml(value);
+  }
+  return properties;
+}
+
+// Set text properties in docProps/custom.xml, replacing any with the same names and
+// keeping the rest. The part is created, typed and linked from the package if it's missing.
+export function writeWordProperties(zip: PizZip, properties: Record<string, string>): void {
+  const existing =
+    zip.file(CUSTOM_PROPERTIES_PATH)?.asText() ??
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" ' +
+      'xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes"></Properties>';
+
+  const kept = existing
+    .replace(/<Properties\b([^>]*)\/>/, "<Properties$1></Properties>")
+    .replace(CUSTOM_PROPERTY_REGEX, (property, name: string) => (decodeXml(name) in properties ? "" : property));
+  // pid 0 and 1 are reserved, so user properties start at 2
+  let pid = Math.max(1, ...Array.from(kept.matchAll(/\bpid="(\d+)"/g), (match) => Number(match[1]))) + 1;
+  const added = Object.entries(properties)
+    .map(
+      ([name, value]) =>
+        `<property fmtid="${CUSTOM_PROPERTY_FMTID}" pid="${pid++}" name="${encodeAttribute(name)}"><vt:lpwstr>${encodeXml(value)}</vt:lpwstr></property>`,
+    )
+    .join("");
+  const end = kept.lastIndexOf("</Properties>");
+  if (end === -1) return;
+  zip.file(CUSTOM_PROPERTIES_PATH, kept.slice(0, end) + added + kept.slice(end));
+
+  const contentTypes = zip.file("[Content_Types].xml")?.asText();
+  if (contentTypes && !contentTypes.includes(`PartName="/${CUSTOM_PROPERTIES_PATH}"`)) {
+    zip.file(
+      "[Content_Types].xml",
+      contentTypes.replace(
+        "</Types>",
+        `<Override PartName="/${CUSTOM_PROPERTIES_PATH}" ContentType="${CUSTOM_PROPERTIES_TYPE}"/></Types>`,
+      ),
+    );
+  }
+
+  const relationships = zip.file("_rels/.rels")?.asText();
+  if (relationships && !relationships.includes(CUSTOM_PROPERTIES_RELATIONSHIP)) {
+    const nextId = Math.max(0, ...Array.from(relationships.matchAll(/\bId="rId(\d+)"/g), (match) => Number(match[1]))) + 1;
+    zip.file(
+      "_rels/.rels",
+      relationships.replace(
+        "</Relationships>",
+        `<Relationship Id="rId${nextId}" Type="${CUSTOM_PROPERTIES_RELATIONSHIP}" Target="${CUSTOM_PROPERTIES_PATH}"/></Relationships>`,
+      ),
+    );
+  }
+}
+
+export const WORD_DIALECT: XmlDialect = {
+  readParagraphs,
+  writeText: writeWordText,
+  writeRuns: writeWordRuns,
+  containerStart: /(?:<w:tc\b[^>]*>|<\/w:tcPr>|<w:txbxContent\b[^>]*>)\s*$/,
+  containerEnd: /^\s*(?:<\/w:tc>|<\/w:txbxContent>)/,
+  // The last paragraph of a section carries its page setup
+  protectedParagraph: /<w:sectPr\b/,
+  tableRow: "w:tr",
+  readStructured: readStructuredPlaceholders,
+  finalize: syncTextboxFallbacks,
+};
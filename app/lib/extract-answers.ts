@@ -0,0 +1,96 @@
+// Several answers in one chat message: "Acme Robotics Inc., a Delaware corporation,
+// investor is Jane Doe putting in 250k on March 1". extract-answers asks the AI which
+// open fields a message fills; without it, "Label: value" pairs are read here.
+
+import {
+  getCanonicalName,
+  getPlaceholderLabel,
+  isAnonymousPlaceholder,
+  type ControlType,
+} from "./placeholders";
+
+// Below this the model is guessing, and a wrong value is worse than a question
+export const MIN_EXTRACTION_CONFIDENCE = 0.7;
+const MAX_EXTRACTION_FIELDS = 100;
+
+// An open field the message might answer; context is the snippet around it
+export interface ExtractionField {
+  id: string;
+  placeholder: string;
+  context?: string;
+  controlType?: ControlType;
+  options?: string[];
+}
+
+export interface ExtractedValue {
+  fieldId: string;
+  // As written in the message; the client normalizes it like a typed answer
+  value: string;
+}
+
+// Short replies answer the question asked; only longer ones with several parts are worth a pass
+export function shouldExtract(message: string, openFieldCount: number): boolean {
+  const text = message.trim();
+  return openFieldCount > 0 && text.length >= 20 && /[,;\n]|\band\b|\bis\b|:/.test(text);
+}
+
+// Field lists come from the client, so keep only well-formed entries
+export function parseExtractionFields(value: unknown): ExtractionField[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item) => item && typeof item.id === "string" && typeof item.placeholder === "string")
+    .slice(0, MAX_EXTRACTION_FIELDS)
+    .map(({ id, placeholder, context, controlType, options }) => ({
+      id,
+      placeholder,
+      context: typeof context === "string" ? context : undefined,
+      controlType: typeof controlType === "string" ? (controlType as ControlType) : undefined,
+      options: Array.isArray(options) ? options.filter((option: unknown) => typeof option === "string") : undefined,
+    }));
+}
+
+// Model output: known ids only, one value per field, confident ones only
+export function toExtractedValues(value: unknown, fields: ExtractionField[]): ExtractedValue[] {
+  const items = Array.isArray(value) ? value : (value as { values?: unknown })?.values;
+  if (!Array.isArray(items)) return [];
+
+  const knownIds = new Set(fields.map((field) => field.id));
+  const used = new Set<string>();
+  return items.flatMap((item): ExtractedValue[] => {
+    if (!item || typeof item.id !== "string" || typeof item.value !== "string") return [];
+    const text = item.value.trim();
+    const confidence = typeof item.confidence === "number" ? item.confidence : 1;
+    if (!knownIds.has(item.id) || used.has(item.id) || !text || confidence < MIN_EXTRACTION_CONFIDENCE) return [];
+    used.add(item.id);
+    return [{ fieldId: item.id, value: text }];
+  });
+}
+
+// Clauses end at a semicolon, a new line, or a comma before the next "label:" or "label is"
+const CLAUSE_SPLIT_REGEX = /[;\n]+|,\s+(?=[^,:]{1,40}(?::|\bis\b|\bare\b))/i;
+const LABELED_CLAUSE_REGEX = /^\s*(?:the\s+)?([^:=]{2,60}?)\s*(?::|=|\bis\b|\bare\b|\bwill be\b)\s*(.+?)\s*$/i;
+
+// "Company name: Acme; investor is Jane Doe". A label matches a field when one name
+// holds the other, so "investor" finds [Investor Name]; each field is filled once.
+export function findLabeledValues(message: string, fields: ExtractionField[]): ExtractedValue[] {
+  const compact = (name: string) => getCanonicalName(name).replace(/ /g, "");
+  const candidates = fields.filter((field) => !isAnonymousPlaceholder(field.placeholder));
+  const used = new Set<string>();
+
+  return message.split(CLAUSE_SPLIT_REGEX).flatMap((clause): ExtractedValue[] => {
+    const match = clause.match(LABELED_CLAUSE_REGEX);
+    if (!match) return [];
+    const label = compact(match[1]);
+    if (label.length < 3) return [];
+
+    const field =
+      candidates.find((candidate) => !used.has(candidate.id) && compact(candidate.placeholder) === label) ??
+      candidates.find((candidate) => {
+        const name = compact(getPlaceholderLabel(candidate.placeholder));
+        return !used.has(candidate.id) && name.length >= 3 && (name.includes(label) || label.includes(name));
+      });
+    if (!field) return [];
+    used.add(field.id);
+    return [{ fieldId: field.id, value: match[2] }];
+  });
+}
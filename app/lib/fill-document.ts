@@ -0,0 +1,145 @@
+// Filling a template package, shared by generate-doc (one document) and
+// generate-bulk (one document per row) so both write exactly the same output.
+
+import PizZip from "pizzip";
+import type { DateOrder } from "./dates";
+import { fillOccurrences, getNextRevisionId, type RevisionOptions } from "./docx";
+import { DOCUMENT_FORMATS, MAX_TEMPLATE_BYTES, type DocumentFormat } from "./formats";
+import type { AnswerValue, PlaceholderOccurrence } from "./placeholders";
+import { DEFAULT_SYNTAX_PROFILE, type SyntaxProfile } from "./placeholder-syntax";
+import { getProvenanceProperties, TOOL_VERSION } from "./provenance";
+import { buildSampleTemplate, SAMPLE_TEMPLATE_NAME } from "./sample-template";
+import { getTemplateStore, isTemplateId } from "./template-store";
+import { getUnfilledPolicy, type UnfilledPolicies } from "./unfilled";
+
+export interface FillDocumentOptions {
+  syntax?: SyntaxProfile;
+  // Tracked changes (Word only); revision ids are numbered after the template's own
+  revisions?: Omit<RevisionOptions, "nextId">;
+  policies: UnfilledPolicies;
+  // Whether parse-document scanned comments; without them comment placeholders were
+  // never asked, so no policy may touch them
+  includeComments?: boolean;
+  // The day/month order dates were answered in, for Word date controls
+  dateOrder?: DateOrder;
+  // SHA-256 of the template as uploaded, written to the provenance properties
+  templateHash: string;
+}
+
+export interface FilledDocument {
+  replacedIds: Set<string>;
+  // Every occurrence in the template, filled or not
+  occurrences: PlaceholderOccurrence[];
+  // Unanswered occurrences whose policy is "reject"; the document must not be handed out
+  missingFields: { id: string; placeholder: string }[];
+  // With revisions: {#if} conditions that removed a branch and loops that were repeated.
+  // Neither is written as tracked changes, so the redline would hide them.
+  untrackedFields: { id: string; placeholder: string }[];
+}
+
+// The template comes as a templateId from parse-document in a JSON body, or as the
+// multipart "file" field with everything else as JSON in "options". sample=true in a
+// JSON body rebuilds the built-in sample, for when its stored copy has expired. Older
+// clients post JSON with the file as base64 in originalFileBase64. Files past
+// MAX_TEMPLATE_BYTES are refused with isTooLarge, before they're read or unzipped.
+export async function readTemplateRequest(request: Request) {
+  if (!request.headers.get("content-type")?.startsWith("multipart/form-data")) {
+    const options = await request.json();
+    const { originalFileBase64, templateId, sample } = options;
+    if (sample === true) {
+      return {
+        buffer: buildSampleTemplate(),
+        options: { ...options, originalFilename: options.originalFilename || SAMPLE_TEMPLATE_NAME },
+      };
+    }
+    if (isTemplateId(templateId)) {
+      const stored = await getTemplateStore().load(templateId);
+      return {
+        buffer: stored?.data,
+        options: { ...options, originalFilename: options.originalFilename || stored?.filename },
+        isExpired: !stored,
+      };
+    }
+    if (typeof originalFileBase64 !== "string" || !originalFileBase64) return { buffer: undefined, options };
+    // Four base64 characters per three bytes
+    if (Math.floor((originalFileBase64.length * 3) / 4) > MAX_TEMPLATE_BYTES) {
+      return { buffer: undefined, options, isTooLarge: true };
+    }
+    return { buffer: Buffer.from(originalFileBase64, "base64"), options };
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+  const rawOptions = formData.get("options");
+  const options = typeof rawOptions === "string" ? JSON.parse(rawOptions) : {};
+  if (!(file instanceof File)) return { buffer: undefined, options };
+  if (file.size > MAX_TEMPLATE_BYTES) return { buffer: undefined, options, isTooLarge: true };
+
+  return {
+    buffer: Buffer.from(await file.arrayBuffer()),
+    options: { ...options, originalFilename: options.originalFilename || file.name },
+  };
+}
+
+// Answers are keyed by occurrence id (see parse-document), so each blank is replaced
+// on its own instead of by a global string match. Ids carry their part, so every text
+// part parse-document read is filled. Loop ids take a list of records instead of a string.
+export function fillDocument(
+  zip: PizZip,
+  format: DocumentFormat,
+  values: Record<string, AnswerValue>,
+  options: FillDocumentOptions,
+): FilledDocument {
+  const { dialect, listTextParts, getPartName, writeProperties } = DOCUMENT_FORMATS[format];
+  // Same syntax profile parse-document resolved, so text ids point at the same matches
+  const syntax = options.syntax ?? DEFAULT_SYNTAX_PROFILE;
+  const partPaths = listTextParts(zip, { includeComments: options.includeComments });
+  // Each part is read once and scanned once, by fillOccurrences below
+  const partTexts = partPaths.map((path) => zip.file(path)!.asText());
+  const revisions = options.revisions && { ...options.revisions, nextId: getNextRevisionId(partTexts) };
+  const getPolicy = (id: string) => getUnfilledPolicy(options.policies, id);
+
+  const replacedIds = new Set<string>();
+  const occurrences: PlaceholderOccurrence[] = [];
+  const unfilled: PlaceholderOccurrence[] = [];
+  partPaths.forEach((path, index) => {
+    const original = partTexts[index];
+    const result = fillOccurrences(original, getPartName(path), values, syntax, dialect, {
+      revisions,
+      getUnfilledPolicy: getPolicy,
+      dateOrder: options.dateOrder,
+    });
+    // Unfilled policies can change a part without replacing anything in it
+    if (result.xml !== original) zip.file(path, result.xml);
+    result.replacedIds.forEach((id) => replacedIds.add(id));
+    occurrences.push(...result.occurrences);
+    unfilled.push(...result.unfilled);
+  });
+
+  // Provenance: which template this came from and what was filled, read back by parse-document
+  const getNames = (list: PlaceholderOccurrence[]) =>
+    Array.from(new Set(list.map((occurrence) => occurrence.placeholder)));
+  writeProperties(
+    zip,
+    getProvenanceProperties({
+      templateHash: options.templateHash,
+      fields: getNames(occurrences),
+      filledFields: getNames(occurrences.filter((occurrence) => replacedIds.has(occurrence.id))),
+      filledAt: new Date().toISOString(),
+      toolVersion: TOOL_VERSION,
+    }),
+  );
+
+  // "reject" refuses the whole document while any of its occurrences has no answer
+  const missingFields = unfilled
+    .filter((occurrence) => getPolicy(occurrence.id) === "reject")
+    .map(({ id, placeholder }) => ({ id, placeholder }));
+
+  const untrackedFields = revisions
+    ? occurrences
+        .filter((occurrence) => replacedIds.has(occurrence.id) && (occurrence.source === "condition" || occurrence.source === "loop"))
+        .map(({ id, placeholder }) => ({ id, placeholder }))
+    : [];
+
+  return { replacedIds, occurrences, missingFields, untrackedFields };
+}
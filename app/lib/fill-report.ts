@@ -0,0 +1,158 @@
+// Audit trail of a fill: the client logs how each field was asked and answered,
+// generate-doc adds what actually went into the document, and the result comes
+// back as a JSON manifest and/or a report table appended to the document.
+
+import { formatAnswer, type AnswerValue } from "./placeholders";
+
+// Where a question came from; matches the source returned by the question routes
+export type QuestionSource = "ai" | "deterministic" | "deterministic-fallback";
+
+// Kept by the client while chatting, one per field
+export interface FieldLog {
+  question?: string;
+  questionSource?: QuestionSource;
+  // What the user typed, before normalizeValue; loops log one entry per reply
+  rawInputs?: string[];
+  skipped?: boolean;
+  askedAt?: string;
+  answeredAt?: string;
+}
+
+// Sent to generate-doc with the answers
+export interface FillReportField {
+  id: string;
+  placeholder: string;
+  aliases?: string[];
+  occurrenceIds: string[];
+  log?: FieldLog;
+}
+
+export type FillStatus = "filled" | "skipped" | "unanswered" | "not-written";
+
+export interface FillManifestEntry {
+  id: string;
+  placeholder: string;
+  aliases: string[];
+  occurrenceIds: string[];
+  question: string | null;
+  questionSource: QuestionSource | null;
+  rawInputs: string[];
+  value: AnswerValue | null;
+  status: FillStatus;
+  askedAt: string | null;
+  answeredAt: string | null;
+}
+
+export interface FillManifest {
+  document: string;
+  generatedAt: string;
+  summary: Record<FillStatus, number> & { total: number };
+  fields: FillManifestEntry[];
+}
+
+// The appendix as plain strings; each cell holds one or more lines
+export interface ReportTable {
+  title: string;
+  summary: string;
+  columns: string[];
+  rows: string[][][];
+}
+
+const QUESTION_SOURCE_LABELS: Record<QuestionSource, string> = {
+  ai: "AI",
+  deterministic: "Built-in",
+  "deterministic-fallback": "Built-in (AI unavailable)",
+};
+
+const STATUS_LABELS: Record<FillStatus, string> = {
+  filled: "Filled",
+  skipped: "Skipped",
+  unanswered: "Not answered",
+  "not-written": "Answered, not written",
+};
+
+const QUESTION_SOURCES = Object.keys(QUESTION_SOURCE_LABELS);
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+// Report fields come from the request body, so anything malformed is dropped
+export function parseFillReportFields(value: unknown): FillReportField[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (field): field is FillReportField =>
+      !!field &&
+      typeof field.id === "string" &&
+      typeof field.placeholder === "string" &&
+      Array.isArray(field.occurrenceIds),
+  );
+}
+
+// status says whether the value reached the document: a field is filled only if
+// generate-doc replaced at least one of its occurrences
+export function buildFillManifest(
+  documentName: string,
+  fields: FillReportField[],
+  values: Record<string, AnswerValue>,
+  replacedIds: Set<string>,
+  generatedAt = new Date(),
+): FillManifest {
+  const entries = fields.map((field): FillManifestEntry => {
+    const log = field.log ?? {};
+    const value = values[field.id] ?? null;
+    const status: FillStatus = field.occurrenceIds.some((id) => replacedIds.has(id))
+      ? "filled"
+      : log.skipped
+        ? "skipped"
+        : value === null
+          ? "unanswered"
+          : "not-written";
+
+    return {
+      id: field.id,
+      placeholder: field.placeholder,
+      aliases: field.aliases ?? [],
+      occurrenceIds: field.occurrenceIds,
+      question: typeof log.question === "string" ? log.question : null,
+      questionSource: QUESTION_SOURCES.includes(log.questionSource ?? "") ? log.questionSource! : null,
+      rawInputs: Array.isArray(log.rawInputs) ? log.rawInputs.filter((input) => typeof input === "string") : [],
+      value,
+      status,
+      askedAt: isTimestamp(log.askedAt) ? log.askedAt : null,
+      answeredAt: isTimestamp(log.answeredAt) ? log.answeredAt : null,
+    };
+  });
+
+  const summary = { total: entries.length, filled: 0, skipped: 0, unanswered: 0, "not-written": 0 };
+  entries.forEach((entry) => summary[entry.status]++);
+
+  return { document: documentName, generatedAt: generatedAt.toISOString(), summary, fields: entries };
+}
+
+// "2026-10-19 14:05 UTC"
+function formatTimestamp(value: string): string {
+  return `${new Date(value).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+export function getReportTable(manifest: FillManifest): ReportTable {
+  const { summary } = manifest;
+  return {
+    title: "Fill report",
+    summary:
+      `${manifest.document}, generated ${formatTimestamp(manifest.generatedAt)}. ` +
+      `${summary.filled} of ${summary.total} placeholders filled, ${summary.skipped} skipped, ${summary.unanswered} not answered.`,
+    columns: ["Placeholder", "Final value", "Input", "Status"],
+    rows: manifest.fields.map((entry) => [
+      [entry.placeholder, ...entry.aliases],
+      [entry.value === null ? "—" : formatAnswer(entry.value) || "(empty)"],
+      entry.rawInputs.length ? entry.rawInputs : ["—"],
+      [
+        STATUS_LABELS[entry.status],
+        ...(entry.questionSource ? [`Question: ${QUESTION_SOURCE_LABELS[entry.questionSource]}`] : []),
+        ...(entry.askedAt ? [`Asked ${formatTimestamp(entry.askedAt)}`] : []),
+        ...(entry.answeredAt ? [`${entry.status === "skipped" ? "Skipped" : "Answered"} ${formatTimestamp(entry.answeredAt)}`] : []),
+      ],
+    ]),
+  };
+}
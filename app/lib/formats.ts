@@ -0,0 +1,87 @@
+// Template formats. Routes dispatch on these instead of assuming Word XML: each
+// format knows its text parts, how to name them and which XML dialect they use.
+
+import type PizZip from "pizzip";
+import {
+  appendWordReport,
+  getPartName,
+  listTextParts,
+  readWordProperties,
+  WORD_DIALECT,
+  writeWordProperties,
+  type XmlDialect,
+} from "./docx";
+import type { ReportTable } from "./fill-report";
+import {
+  appendOdtReport,
+  getOdtPartName,
+  listOdtTextParts,
+  ODT_DIALECT,
+  ODT_MIME_TYPE,
+  prepareOdtPackage,
+  readOdtProperties,
+  writeOdtProperties,
+} from "./odt";
+
+export type DocumentFormat = "docx" | "odt";
+
+// Largest template parse-document accepts. Uploads are sent as binary multipart, not
+// base64 JSON, so the file itself is the request size; hosts can still cap request
+// bodies lower (Vercel functions at 4.5 MB).
+export const MAX_TEMPLATE_BYTES = 20 * 1024 * 1024;
+
+export interface FormatHandler {
+  extension: string;
+  mimeType: string;
+  dialect: XmlDialect;
+  listTextParts: (zip: PizZip, options?: { includeComments?: boolean }) => string[];
+  getPartName: (path: string) => string;
+  // Part holding the body, and how to add the fill report at its end
+  bodyPath: string;
+  appendReport: (xml: string, report: ReportTable) => string;
+  // Custom document properties: docProps/custom.xml for Word, meta.xml for OpenDocument
+  readProperties: (zip: PizZip) => Record<string, string>;
+  writeProperties: (zip: PizZip, properties: Record<string, string>) => void;
+  // Package fix-ups before the zip is written back
+  preparePackage?: (zip: PizZip) => void;
+}
+
+export const DOCUMENT_FORMATS: Record<DocumentFormat, FormatHandler> = {
+  docx: {
+    extension: ".docx",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    dialect: WORD_DIALECT,
+    listTextParts,
+    getPartName,
+    bodyPath: "word/document.xml",
+    appendReport: appendWordReport,
+    readProperties: readWordProperties,
+    writeProperties: writeWordProperties,
+  },
+  odt: {
+    extension: ".odt",
+    mimeType: ODT_MIME_TYPE,
+    dialect: ODT_DIALECT,
+    listTextParts: listOdtTextParts,
+    getPartName: getOdtPartName,
+    bodyPath: "content.xml",
+    appendReport: appendOdtReport,
+    readProperties: readOdtProperties,
+    writeProperties: writeOdtProperties,
+    preparePackage: prepareOdtPackage,
+  },
+};
+
+export function getFormatFromFilename(filename: string): DocumentFormat | undefined {
+  const lower = filename.toLowerCase();
+  return (Object.keys(DOCUMENT_FORMATS) as DocumentFormat[]).find((format) =>
+    lower.endsWith(DOCUMENT_FORMATS[format].extension),
+  );
+}
+
+// Read the format from the package itself, so a renamed file is still handled correctly
+export function detectFormat(zip: PizZip): DocumentFormat | undefined {
+  if (zip.file("word/document.xml")) return "docx";
+  if (zip.file("mimetype")?.asText().trim() === ODT_MIME_TYPE && zip.file("content.xml")) return "odt";
+  return undefined;
+}
@@ -0,0 +1,124 @@
+// The block structure of a document's HTML (mammoth output for Word, convertOdtToHtml
+// for OpenDocument): headings, paragraphs, list items and tables of bold/italic runs.
+// Exports that aren't HTML (PDF, Markdown, plain text) are written from these.
+
+import { decodeXml } from "./xml";
+
+const HTML_TOKEN_REGEX = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*?(\/?)>|([^<]+)/g;
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export type HtmlBlock =
+  | { type: "paragraph"; runs: TextRun[]; headingLevel?: number }
+  | { type: "listItem"; runs: TextRun[]; depth: number; marker: string }
+  | { type: "table"; rows: TextRun[][][] };
+
+export function decodeHtml(text: string): string {
+  return decodeXml(
+    text
+      .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+      .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+      .replace(/&nbsp;/g, " "),
+  );
+}
+
+// Tables nested in a cell are flattened into its text
+export function readHtmlBlocks(html: string): HtmlBlock[] {
+  const blocks: HtmlBlock[] = [];
+  const lists: { ordered: boolean; count: number }[] = [];
+  let block: Extract<HtmlBlock, { runs: TextRun[] }> | undefined;
+  let table: { rows: TextRun[][][]; row?: TextRun[][]; cell?: TextRun[] } | undefined;
+  let tableDepth = 0;
+  let bold = 0;
+  let italic = 0;
+
+  const flush = () => {
+    if (block?.runs.some((run) => run.text.trim())) blocks.push(block);
+    block = undefined;
+  };
+  const target = (): TextRun[] => {
+    if (table?.cell) return table.cell;
+    block ??= { type: "paragraph", runs: [] };
+    return block.runs;
+  };
+  const addBreak = () => {
+    const runs = target();
+    if (runs.length) runs.push({ text: "\n" });
+  };
+
+  for (const match of html.matchAll(HTML_TOKEN_REGEX)) {
+    const [, closing, rawName, , text] = match;
+    if (text !== undefined) {
+      if (table && !table.cell) continue;
+      const value = decodeHtml(text).replace(/\s+/g, " ");
+      if (value) target().push({ text: value, bold: bold > 0, italic: italic > 0 });
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    const heading = name.match(/^h([1-6])$/);
+    if (name === "strong" || name === "b" || name === "th") {
+      bold = Math.max(0, bold + (closing ? -1 : 1));
+      if (name !== "th") continue;
+    }
+    if (name === "em" || name === "i") {
+      italic = Math.max(0, italic + (closing ? -1 : 1));
+    } else if (name === "br") {
+      addBreak();
+    } else if (name === "table") {
+      tableDepth += closing ? -1 : 1;
+      if (!closing && tableDepth === 1) {
+        flush();
+        table = { rows: [] };
+      } else if (closing && tableDepth === 0 && table) {
+        if (table.rows.length) blocks.push({ type: "table", rows: table.rows });
+        table = undefined;
+      }
+    } else if (table) {
+      if (tableDepth > 1) {
+        if (name === "tr" || name === "p") addBreak();
+      } else if (name === "tr") {
+        if (!closing) table.row = [];
+        else if (table.row?.length) table.rows.push(table.row);
+      } else if (name === "td" || name === "th") {
+        if (!closing) table.cell = [];
+        else if (table.row) table.row.push(table.cell ?? []);
+        if (closing) table.cell = undefined;
+      } else if ((name === "p" || heading || name === "li") && !closing) {
+        addBreak();
+      }
+    } else if (heading || name === "p") {
+      if (block?.type === "listItem") {
+        if (!closing) addBreak();
+      } else if (!closing) {
+        flush();
+        block = { type: "paragraph", runs: [], headingLevel: heading ? Number(heading[1]) : undefined };
+      } else {
+        flush();
+      }
+    } else if (name === "ul" || name === "ol") {
+      flush();
+      if (!closing) lists.push({ ordered: name === "ol", count: 0 });
+      else lists.pop();
+    } else if (name === "li") {
+      flush();
+      if (!closing) {
+        const list = lists[lists.length - 1] ?? { ordered: false, count: 0 };
+        list.count++;
+        block = {
+          type: "listItem",
+          runs: [],
+          depth: Math.max(lists.length - 1, 0),
+          marker: list.ordered ? `${list.count}.` : "•",
+        };
+      }
+    }
+  }
+
+  flush();
+  return blocks;
+}
@@ -0,0 +1,218 @@
+// Blanks the placeholder syntax can't see: "state of incorporation is          ",
+// "dated as of ____, 20__", or sample text like "Acme Corp." standing in for a name.
+// parse-document proposes them, from the AI or the heuristics below without one. The
+// ones the user accepts travel in the syntax profile, so generate-doc fills the same spans.
+
+import { readLoops, type LoopRange } from "./loops";
+import { buildSnippet, getPartPrefix, type PlaceholderOccurrence } from "./placeholders";
+import type { ImplicitBlank } from "./placeholder-syntax";
+import type { TextPosition } from "./sections";
+
+// More than this and the review list is longer than the chat it saves
+export const MAX_BLANK_SUGGESTIONS = 30;
+
+// A span proposed by the AI or the heuristics, before it is checked against the document
+export interface BlankProposal {
+  part: string;
+  paragraphIndex: number;
+  offset: number;
+  text: string;
+  name: string;
+  reason?: string;
+}
+
+export interface BlankSuggestion {
+  blank: ImplicitBlank;
+  // What the occurrence list gains when the blank is accepted
+  occurrence: PlaceholderOccurrence;
+  // Placeholders inside the blank, e.g. the "____" of "____, 20__", which it replaces
+  replacesIds: string[];
+  reason?: string;
+}
+
+// Paragraph and offset rather than a count, so an id stays the same whichever blanks are accepted
+export function getBlankId(part: string, paragraphIndex: number, offset: number): string {
+  return `${getPartPrefix(part)}b${paragraphIndex}.${offset}`;
+}
+
+function getOccurrenceEnd(occurrence: PlaceholderOccurrence): number {
+  return occurrence.offset + (occurrence.displayText ?? occurrence.placeholder).length;
+}
+
+function isBefore(a: TextPosition, b: TextPosition): boolean {
+  return a.paragraphIndex < b.paragraphIndex || (a.paragraphIndex === b.paragraphIndex && a.offset < b.offset);
+}
+
+// undefined when the paragraph doesn't hold the blank's text at its offset,
+// e.g. the profile came from a different version of the template
+export function getBlankOccurrence(blank: ImplicitBlank, paragraphText: string): PlaceholderOccurrence | undefined {
+  const { part, paragraphIndex, offset, text, name } = blank;
+  if (paragraphText.slice(offset, offset + text.length) !== text) return undefined;
+
+  return {
+    id: getBlankId(part, paragraphIndex, offset),
+    placeholder: name,
+    part,
+    paragraphIndex,
+    offset,
+    snippet: buildSnippet(paragraphText, offset, offset + text.length),
+    source: "text",
+    displayText: text,
+  };
+}
+
+// Plain placeholders the blank takes over. undefined when it cuts into any other
+// placeholder, another blank or a loop, since those can't be filled alongside it.
+function getCoveredOccurrences(
+  blank: ImplicitBlank,
+  occurrences: PlaceholderOccurrence[],
+  loops: LoopRange[],
+): PlaceholderOccurrence[] | undefined {
+  const start = { paragraphIndex: blank.paragraphIndex, offset: blank.offset };
+  const end = { paragraphIndex: blank.paragraphIndex, offset: blank.offset + blank.text.length };
+  if (loops.some((loop) => isBefore(loop.open.start, end) && isBefore(start, loop.close.end))) return undefined;
+
+  const overlapping = occurrences.filter(
+    (occurrence) =>
+      occurrence.part === blank.part &&
+      occurrence.paragraphIndex === blank.paragraphIndex &&
+      occurrence.offset < end.offset &&
+      getOccurrenceEnd(occurrence) > start.offset,
+  );
+  const covered = overlapping.filter(
+    (occurrence) =>
+      occurrence.source === "text" &&
+      occurrence.displayText === undefined &&
+      occurrence.offset >= start.offset &&
+      getOccurrenceEnd(occurrence) <= end.offset,
+  );
+  return covered.length === overlapping.length ? covered : undefined;
+}
+
+// Accepted blanks of one part as occurrences, in place of the placeholders they cover.
+// Blanks that no longer line up with the text or run into another placeholder are left out.
+export function withImplicitBlanks(
+  occurrences: PlaceholderOccurrence[],
+  blanks: ImplicitBlank[],
+  paragraphs: string[],
+  part: string,
+  loops: LoopRange[],
+): PlaceholderOccurrence[] {
+  return blanks
+    .filter((blank) => blank.part === part)
+    .reduce((result, blank) => {
+      const paragraph = paragraphs[blank.paragraphIndex];
+      const occurrence = paragraph === undefined ? undefined : getBlankOccurrence(blank, paragraph);
+      const covered = occurrence && getCoveredOccurrences(blank, result, loops);
+      if (!occurrence || !covered) return result;
+      return [...result.filter((existing) => !covered.includes(existing)), occurrence];
+    }, occurrences);
+}
+
+// Models count offsets loosely, so the copy of the text nearest the given offset wins.
+// A run of spaces or tabs matches the nearest run of three or more.
+function locateText(paragraph: string, text: string, offset: number): { offset: number; text: string } | undefined {
+  if (paragraph.slice(offset, offset + text.length) === text) return { offset, text };
+
+  const candidates: { offset: number; text: string }[] = [];
+  if (text.trim()) {
+    for (let index = paragraph.indexOf(text); index >= 0; index = paragraph.indexOf(text, index + 1)) {
+      candidates.push({ offset: index, text });
+    }
+  } else {
+    for (const match of paragraph.matchAll(/[ \t]{3,}/g)) {
+      candidates.push({ offset: match.index ?? 0, text: match[0] });
+    }
+  }
+  return candidates.sort((a, b) => Math.abs(a.offset - offset) - Math.abs(b.offset - offset))[0];
+}
+
+// Check proposals against the parsed document: each must be in a known paragraph, hold
+// something besides placeholders already found, and stay clear of other placeholders,
+// loops and the proposals before it.
+export function toBlankSuggestions(
+  proposals: BlankProposal[],
+  paragraphsByPart: Map<string, string[]>,
+  occurrences: PlaceholderOccurrence[],
+): BlankSuggestion[] {
+  const loopsByPart = new Map(
+    Array.from(paragraphsByPart, ([part, paragraphs]) => [part, readLoops(paragraphs, part)]),
+  );
+  const taken = [...occurrences];
+  const suggestions: BlankSuggestion[] = [];
+
+  proposals.forEach(({ part, paragraphIndex, offset, text, name, reason }) => {
+    const paragraph = paragraphsByPart.get(part)?.[paragraphIndex];
+    if (suggestions.length >= MAX_BLANK_SUGGESTIONS || paragraph === undefined || !text) return;
+    const located = locateText(paragraph, text, offset);
+    if (!located) return;
+
+    const blank: ImplicitBlank = { part, paragraphIndex, ...located, name: name.trim() };
+    const occurrence = getBlankOccurrence(blank, paragraph);
+    const covered = getCoveredOccurrences(blank, taken, loopsByPart.get(part) ?? []);
+    if (!occurrence || !covered) return;
+    const coveredLength = covered.reduce((length, existing) => length + existing.placeholder.length, 0);
+    if (coveredLength >= blank.text.length) return;
+
+    taken.push(occurrence);
+    suggestions.push({ blank, occurrence, replacesIds: covered.map((existing) => existing.id), reason });
+  });
+
+  return suggestions;
+}
+
+// Words that end a lead-in rather than name the value, as in "incorporation is"
+const TRAILING_WORDS_REGEX = /^(?:is|are|was|be|of|as|at|in|on|by|to|for|the|a|an|and|or|dated|named|called)$/i;
+
+// "the Company's state of incorporation is" -> "State of Incorporation"
+function getNameFromContext(before: string): string {
+  const words = before.slice(-80).match(/[A-Za-z][A-Za-z'’-]*/g) ?? [];
+  while (words.length && TRAILING_WORDS_REGEX.test(words[words.length - 1])) words.pop();
+  return words
+    .slice(-3)
+    .map((word) => word.replace(/['’]s$/i, ""))
+    .map((word, index) =>
+      index > 0 && TRAILING_WORDS_REGEX.test(word) ? word.toLowerCase() : `${word.charAt(0).toUpperCase()}${word.slice(1)}`,
+    )
+    .join(" ");
+}
+
+// "____, 20__" or a lone "20__"
+const YEAR_BLANK_REGEX = /(?:_{2,}\s*,?\s*)?\b(?:19|20)_{1,2}(?!\w)/g;
+// Five or more spaces, or two or more tabs, after some text. Both readers give tab
+// elements as "\t" and ODF's <text:s/> as its spaces, so either can be filled over.
+const SPACE_BLANK_REGEX = /(\S)( {5,}|\t{2,})/g;
+
+// Without the AI: partial years and runs of spaces left for typing. Sample text
+// needs the AI, since nothing in it says it is a stand-in.
+export function findBlankCandidates(paragraphsByPart: Map<string, string[]>): BlankProposal[] {
+  return Array.from(paragraphsByPart).flatMap(([part, paragraphs]) =>
+    paragraphs.flatMap((paragraph, paragraphIndex) => [
+      ...Array.from(paragraph.matchAll(YEAR_BLANK_REGEX), (match): BlankProposal => ({
+        part,
+        paragraphIndex,
+        offset: match.index ?? 0,
+        text: match[0],
+        name: match[0].startsWith("_") ? "Date" : "Year",
+        reason: "Partial year left blank",
+      })),
+      ...Array.from(paragraph.matchAll(SPACE_BLANK_REGEX), (match): BlankProposal => {
+        // One space or tab stays before the value and one space after it, so it doesn't
+        // run into the words around it
+        const run = match[2];
+        const lead = 1;
+        const next = paragraph[(match.index ?? 0) + match[0].length];
+        const trail = run.endsWith(" ") && next && /\w/.test(next) ? 1 : 0;
+        const offset = (match.index ?? 0) + match[1].length + lead;
+        return {
+          part,
+          paragraphIndex,
+          offset,
+          text: run.slice(lead, run.length - trail),
+          name: getNameFromContext(paragraph.slice(0, offset)),
+          reason: "Space left for typing",
+        };
+      }),
+    ]),
+  );
+}
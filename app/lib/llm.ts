@@ -0,0 +1,159 @@
+// Language model providers behind the AI routes. LLM_PROVIDER picks one:
+//   openai             OpenAI (default), key from OPENAI_API_KEY
+//   openai-compatible  Any server speaking the OpenAI chat API at LLM_BASE_URL, e.g. a
+//                      self-hosted model; key from LLM_API_KEY when it needs one
+//   anthropic          Anthropic's Messages API, key from ANTHROPIC_API_KEY
+//   mock               Deterministic answers with no network, for tests and demos
+// Each route names its settings, so LLM_BATCH_MODEL or LLM_QUESTION_MAX_TOKENS
+// override that route only; LLM_MODEL sets the model for all of them.
+
+import OpenAI from "openai";
+
+export type LlmProviderName = "openai" | "openai-compatible" | "anthropic" | "mock";
+
+export interface LlmMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+export interface CompletionSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface CompletionRequest extends CompletionSettings {
+  messages: LlmMessage[];
+  // Ask for a JSON object back; providers without a JSON mode get it from the prompt
+  json?: boolean;
+  // What the mock provider answers, usually the route's deterministic fallback
+  mockResponse?: () => string;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  // True when the server's own key pays for the call, so it is rate limited
+  usesServerKey: boolean;
+  complete: (request: CompletionRequest) => Promise<string>;
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  openai: "gpt-4o-mini", // Cost-efficient model
+  "openai-compatible": "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  mock: "mock",
+};
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export function getProviderName(): LlmProviderName {
+  const name = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  return name === "openai-compatible" || name === "anthropic" || name === "mock" ? name : "openai";
+}
+
+function createOpenAIProvider(name: LlmProviderName, client: OpenAI, usesServerKey: boolean): LlmProvider {
+  return {
+    name,
+    usesServerKey,
+    async complete({ model, temperature, maxTokens, messages, json }) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        ...(json ? { response_format: { type: "json_object" as const } } : {}),
+      });
+      return completion.choices[0]?.message?.content?.trim() ?? "";
+    },
+  };
+}
+
+// Called over fetch so the server needs no extra SDK
+function createAnthropicProvider(apiKey: string, usesServerKey: boolean): LlmProvider {
+  return {
+    name: "anthropic",
+    usesServerKey,
+    async complete({ model, temperature, maxTokens, messages }) {
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model,
+          temperature,
+          max_tokens: maxTokens,
+          system: messages.filter((message) => message.role === "system").map((message) => message.content).join("\n\n"),
+          messages: messages.filter((message) => message.role === "user").map(({ role, content }) => ({ role, content })),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+      }
+      const data = (await response.json()) as { content?: { type: string; text?: string }[] };
+      return (data.content ?? [])
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join("")
+        .trim();
+    },
+  };
+}
+
+const mockProvider: LlmProvider = {
+  name: "mock",
+  usesServerKey: false,
+  async complete({ mockResponse, messages, json }) {
+    if (mockResponse) return mockResponse();
+    return json ? "{}" : `Mock response to: ${messages[messages.length - 1]?.content.slice(0, 80) ?? ""}`;
+  },
+};
+
+// null when the configured provider has no key, so routes use their deterministic fallback.
+// The key typed in by the user is an OpenAI key: it replaces the server's and isn't rate
+// limited with the openai provider, and is ignored by the others, which always use the
+// server's settings and its rate limit (a keyless self-hosted server takes any key).
+export function getLlmProvider(userApiKey?: string): LlmProvider | null {
+  const name = getProviderName();
+  switch (name) {
+    case "mock":
+      return mockProvider;
+    case "anthropic": {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      return apiKey ? createAnthropicProvider(apiKey, true) : null;
+    }
+    case "openai-compatible": {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) return null;
+      // Self-hosted servers often take no key, but the client needs one to send
+      const apiKey = process.env.LLM_API_KEY || "not-needed";
+      return createOpenAIProvider(name, new OpenAI({ apiKey, baseURL }), true);
+    }
+    default: {
+      const apiKey = userApiKey || process.env.OPENAI_API_KEY;
+      return apiKey ? createOpenAIProvider(name, new OpenAI({ apiKey }), !userApiKey) : null;
+    }
+  }
+}
+
+function readNumber(value: string | undefined): number | undefined {
+  const number = value === undefined || value.trim() === "" ? NaN : Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+// Route defaults, overridden by LLM_<ROUTE>_MODEL, LLM_<ROUTE>_TEMPERATURE and
+// LLM_<ROUTE>_MAX_TOKENS, e.g. route "batch" reads LLM_BATCH_MODEL
+export function getCompletionSettings(
+  route: string,
+  defaults: { temperature: number; maxTokens: number },
+): CompletionSettings {
+  const prefix = `LLM_${route.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}_`;
+  return {
+    model: process.env[`${prefix}MODEL`] || process.env.LLM_MODEL || DEFAULT_MODELS[getProviderName()],
+    temperature: readNumber(process.env[`${prefix}TEMPERATURE`]) ?? defaults.temperature,
+    maxTokens: Math.round(readNumber(process.env[`${prefix}MAX_TOKENS`]) ?? defaults.maxTokens),
+  };
+}
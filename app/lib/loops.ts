@@ -0,0 +1,194 @@
+// Repeating sections: {#investors}{name} – {amount}{/investors}. The content between
+// the tags is repeated once per record, with its placeholders filled from that record.
+// A loop inside a table row repeats the row; one spanning paragraphs repeats them.
+
+import {
+  buildSnippet,
+  getCanonicalName,
+  getPartPrefix,
+  getPlaceholderLabel,
+  type AnswerRecord,
+  type AnswerValue,
+  type PlaceholderOccurrence,
+} from "./placeholders";
+import type { TextPosition, TextRange } from "./sections";
+
+// {#if ...} and {/if} belong to conditional sections
+const LOOP_TAG_REGEX = /\{([#/])(?!(?:if|else)\})([A-Za-z_][\w.-]*)\}/g;
+
+export interface LoopRange {
+  id: string;
+  name: string;
+  part: string;
+  open: TextRange;
+  close: TextRange;
+}
+
+function comparePositions(a: TextPosition, b: TextPosition): number {
+  return a.paragraphIndex - b.paragraphIndex || a.offset - b.offset;
+}
+
+// Outermost loops only; tags of nested or unmatched loops are left as plain text
+export function readLoops(paragraphs: string[], part: string): LoopRange[] {
+  const loops: LoopRange[] = [];
+  let open: { name: string; range: TextRange } | undefined;
+  const prefix = getPartPrefix(part);
+
+  paragraphs.forEach((text, paragraphIndex) => {
+    for (const match of text.matchAll(LOOP_TAG_REGEX)) {
+      const [tag, kind, name] = match;
+      const offset = match.index ?? 0;
+      const range = { start: { paragraphIndex, offset }, end: { paragraphIndex, offset: offset + tag.length } };
+
+      if (kind === "#" && !open) {
+        open = { name, range };
+      } else if (kind === "/" && open?.name === name) {
+        loops.push({ id: `${prefix}loop${loops.length}`, name, part, open: open.range, close: range });
+        open = undefined;
+      }
+    }
+  });
+
+  return loops;
+}
+
+export function isInsideLoop(position: TextPosition, loop: LoopRange): boolean {
+  return comparePositions(position, loop.open.end) >= 0 && comparePositions(position, loop.close.start) < 0;
+}
+
+// One occurrence per loop. Its item fields are the placeholders between the tags,
+// one per canonical name; anonymous blanks can't be told apart so they are left out.
+export function getLoopOccurrences(
+  loops: LoopRange[],
+  paragraphs: string[],
+  part: string,
+  innerOccurrences: PlaceholderOccurrence[],
+): PlaceholderOccurrence[] {
+  return loops.map((loop) => {
+    const itemFields = new Map<string, string>();
+    innerOccurrences
+      .filter((occurrence) => isInsideLoop(occurrence, loop))
+      .forEach((occurrence) => {
+        const name = getCanonicalName(occurrence.placeholder);
+        if (name && !itemFields.has(name)) itemFields.set(name, occurrence.placeholder);
+      });
+
+    const { start, end } = loop.open;
+    return {
+      id: loop.id,
+      placeholder: loop.name,
+      part,
+      paragraphIndex: start.paragraphIndex,
+      offset: start.offset,
+      snippet: buildSnippet(paragraphs[start.paragraphIndex] ?? "", start.offset, end.offset),
+      source: "loop",
+      displayText: paragraphs[start.paragraphIndex]?.slice(start.offset, end.offset),
+      itemFields: Array.from(itemFields.values()),
+    };
+  });
+}
+
+// Placeholders inside a loop are asked per record, so they move onto the loop's
+// occurrence. Conditions stay where they are: they're answered once for the document.
+export function withLoopOccurrences(
+  occurrences: PlaceholderOccurrence[],
+  loops: LoopRange[],
+  paragraphs: string[],
+  part: string,
+): PlaceholderOccurrence[] {
+  if (!loops.length) return occurrences;
+
+  const isItem = (occurrence: PlaceholderOccurrence) =>
+    occurrence.source !== "condition" && loops.some((loop) => isInsideLoop(occurrence, loop));
+
+  return [
+    ...occurrences.filter((occurrence) => !isItem(occurrence)),
+    ...getLoopOccurrences(loops, paragraphs, part, occurrences.filter(isItem)),
+  ].sort((a, b) => a.paragraphIndex - b.paragraphIndex || a.offset - b.offset);
+}
+
+// Records are keyed by canonical name so {name}, {{name}} and «Name» read the same value
+export function getRecordValue(record: AnswerRecord, placeholder: string): string | undefined {
+  return record[getCanonicalName(placeholder)];
+}
+
+// "investors" -> "investor"
+export function getLoopItemLabel(name: string): string {
+  const label = getPlaceholderLabel(name) || "item";
+  return /[^s]s$/i.test(label) ? label.slice(0, -1) : label;
+}
+
+export function getLoopItemQuestion(loopName: string, placeholder: string, recordIndex: number): string {
+  return `What is the ${getPlaceholderLabel(placeholder) || "value"} for ${getLoopItemLabel(loopName)} ${recordIndex + 1}?`;
+}
+
+export function getLoopMoreQuestion(loopName: string, recordCount: number): string {
+  return recordCount
+    ? `Add another ${getLoopItemLabel(loopName)}? (yes/no)`
+    : `Does the document list any ${getPlaceholderLabel(loopName) || "items"}? (yes/no)`;
+}
+
+// First question of a loop: the first item field of record 1
+export function getLoopStartQuestion(loopName: string, itemFields: string[]): string {
+  const intro = `Let's list the ${getPlaceholderLabel(loopName) || "items"}, one ${getLoopItemLabel(loopName)} at a time.`;
+  const question = itemFields.length
+    ? getLoopItemQuestion(loopName, itemFields[0], 0)
+    : getLoopMoreQuestion(loopName, 0);
+  return `${intro} ${question}`;
+}
+
+// Fill one copy of a loop's content from a record; unknown placeholders stay as they are
+export function fillRecordText(
+  text: string,
+  record: AnswerRecord,
+  pattern: RegExp,
+  format: (value: string) => string = (value) => value,
+): string {
+  return text.replace(pattern, (match) => {
+    const value = getRecordValue(record, match);
+    return value === undefined ? match : format(value);
+  });
+}
+
+// Expand loops in a flat string such as the preview HTML. loopIds gives the id of
+// each loop in the order it appears; loops without a list answer stay as they are.
+export function applyLoopsToText(
+  text: string,
+  loopIds: string[],
+  values: Record<string, AnswerValue>,
+  pattern: RegExp,
+  format?: (value: string) => string,
+): string {
+  return readLoops([text], "").reduceRight((result, loop, index) => {
+    const records = values[loopIds[index]];
+    if (!Array.isArray(records)) return result;
+
+    const openStart = loop.open.start.offset;
+    const openEnd = loop.open.end.offset;
+    const closeStart = loop.close.start.offset;
+    const closeEnd = loop.close.end.offset;
+
+    // Tags in different paragraphs of one table row: repeat the row
+    const rowStart = result.lastIndexOf("<tr", openStart);
+    const rowEnd = result.indexOf("</tr>", closeEnd);
+    const isRow =
+      rowStart !== -1 &&
+      rowEnd !== -1 &&
+      result.slice(openEnd, closeStart).includes("</p>") &&
+      !result.slice(rowStart, openStart).includes("</tr>") &&
+      !result.slice(openEnd, closeStart).includes("</tr>");
+
+    if (isRow) {
+      const row =
+        result.slice(rowStart, openStart) +
+        result.slice(openEnd, closeStart) +
+        result.slice(closeEnd, rowEnd + "</tr>".length);
+      const rows = records.map((record) => fillRecordText(row, record, pattern, format)).join("");
+      return result.slice(0, rowStart) + rows + result.slice(rowEnd + "</tr>".length);
+    }
+
+    const content = result.slice(openEnd, closeStart);
+    const copies = records.map((record) => fillRecordText(content, record, pattern, format)).join("");
+    return result.slice(0, openStart) + copies + result.slice(closeEnd);
+  }, text);
+}
@@ -0,0 +1,302 @@
+// OpenDocument text (.odt) support. Text sits directly inside <text:p>/<text:h> and their
+// <text:span>s, so every text node is a segment, as are the space and tab elements between
+// them; docx.ts does the matching and filling.
+
+import type PizZip from "pizzip";
+import type { DocxParagraph, TextPiece, TextSegment, XmlDialect } from "./docx";
+import type { ReportTable } from "./fill-report";
+import { BODY_PART } from "./placeholders";
+import { decodeXml, encodeXml, type XmlEdit } from "./xml";
+
+export const ODT_MIME_TYPE = "application/vnd.oasis.opendocument.text";
+
+// content.xml holds the body; styles.xml the headers and footers of each page style
+const CONTENT_PART_PATH = "content.xml";
+const STYLES_PART_PATH = "styles.xml";
+export const ODT_STYLES_PART = "styles";
+
+const TAG_REGEX = /<(\/?)([A-Za-z][\w.:-]*)([^>]*?)(\/?)>/g;
+const PARAGRAPH_ELEMENTS = ["text:p", "text:h"];
+// Text that isn't part of the document flow: comments, tracked deletions, frame titles, note numbers
+const IGNORED_ELEMENTS = ["office:annotation", "text:tracked-changes", "svg:title", "svg:desc", "text:note-citation"];
+const HTML_ELEMENTS: Record<string, string> = {
+  "table:table": "table",
+  "table:table-row": "tr",
+  "table:table-cell": "td",
+  "text:list": "ul",
+  "text:list-item": "li",
+};
+
+// Runs of spaces are stored as <text:s text:c="3"/>
+function getSpaceCount(attributes: string): number {
+  return Number(attributes.match(/text:c="(\d+)"/)?.[1] ?? 1);
+}
+
+// Paragraphs in document order. Paragraphs nested in a note or text box are listed
+// after the one that anchors them, and their text isn't counted as part of it.
+export function readOdtParagraphs(xml: string): DocxParagraph[] {
+  const paragraphs: DocxParagraph[] = [];
+  const stack: DocxParagraph[] = [];
+  let ignoredDepth = 0;
+  let textStart = 0;
+
+  TAG_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_REGEX.exec(xml))) {
+    const [tag, closing, name, attributes, selfClosing] = match;
+    const owner = stack[stack.length - 1];
+
+    // The text node between the previous tag and this one
+    if (owner && !ignoredDepth && match.index > textStart) {
+      const text = decodeXml(xml.slice(textStart, match.index));
+      owner.segments.push({ tagStart: textStart, start: textStart, end: match.index, text, offset: owner.text.length });
+      owner.text += text;
+    }
+    textStart = match.index + tag.length;
+
+    if (IGNORED_ELEMENTS.includes(name)) {
+      if (!selfClosing) ignoredDepth += closing ? -1 : 1;
+    } else if (ignoredDepth) {
+      continue;
+    } else if (PARAGRAPH_ELEMENTS.includes(name)) {
+      if (selfClosing) {
+        paragraphs.push({ start: match.index, end: textStart, text: "", segments: [] });
+      } else if (!closing) {
+        stack.push({ start: match.index, end: match.index, text: "", segments: [] });
+      } else {
+        const open = stack.pop();
+        if (open) {
+          open.end = textStart;
+          paragraphs.push(open);
+        }
+      }
+    } else if ((name === "text:s" || name === "text:tab") && owner) {
+      // Filling over the spaces or tab replaces the element itself
+      const text = name === "text:s" ? " ".repeat(getSpaceCount(attributes)) : "\t";
+      owner.segments.push({ tagStart: match.index, start: match.index, end: textStart, text, offset: owner.text.length });
+      owner.text += text;
+    }
+  }
+
+  return paragraphs.sort((a, b) => a.start - b.start);
+}
+
+// ODF collapses whitespace in text nodes, so extra spaces, tabs and line breaks become elements
+function encodeOdtText(value: string): string {
+  return encodeXml(value)
+    .replace(/ {2,}/g, (spaces) => ` <text:s text:c="${spaces.length - 1}"/>`)
+    .replace(/\t/g, "<text:tab/>")
+    .replace(/\r?\n/g, "<text:line-break/>");
+}
+
+function writeOdtText(segment: TextSegment, text: string): XmlEdit {
+  return { start: segment.start, end: segment.end, value: encodeOdtText(text) };
+}
+
+const HIGHLIGHT_STYLE_NAME = "ClausefillHighlight";
+const HIGHLIGHT_STYLE =
+  `<style:style style:name="${HIGHLIGHT_STYLE_NAME}" style:family="text">` +
+  '<style:text-properties fo:background-color="#ffff00"/></style:style>';
+
+// Tracked changes are Word-only, so deletions are dropped and insertions written as
+// plain text; highlighted pieces get a span of their own
+function writeOdtRuns(_xml: string, segment: TextSegment, pieces: TextPiece[]): XmlEdit {
+  const value = pieces
+    .filter((piece) => piece.change !== "delete")
+    .map((piece) =>
+      piece.highlight
+        ? `<text:span text:style-name="${HIGHLIGHT_STYLE_NAME}">${encodeOdtText(piece.text)}</text:span>`
+        : encodeOdtText(piece.text),
+    )
+    .join("");
+  return { start: segment.start, end: segment.end, value };
+}
+
+// content.xml keeps its automatic styles before the body, styles.xml before the master
+// styles. Fragments without either are left alone.
+function addAutomaticStyles(xml: string, styles: string): string {
+  if (xml.includes("<office:automatic-styles/>")) {
+    return xml.replace("<office:automatic-styles/>", `<office:automatic-styles>${styles}</office:automatic-styles>`);
+  }
+  if (xml.includes("</office:automatic-styles>")) {
+    return xml.replace("</office:automatic-styles>", `${styles}</office:automatic-styles>`);
+  }
+  const anchor = ["<office:body>", "<office:master-styles>"].find((tag) => xml.includes(tag));
+  return anchor ? xml.replace(anchor, `<office:automatic-styles>${styles}</office:automatic-styles>${anchor}`) : xml;
+}
+
+// Define the highlight style once a highlighted span uses it
+function finalizeOdt(xml: string): string {
+  const isUsed = xml.includes(`text:style-name="${HIGHLIGHT_STYLE_NAME}"`);
+  return isUsed && !xml.includes(`style:name="${HIGHLIGHT_STYLE_NAME}"`) ? addAutomaticStyles(xml, HIGHLIGHT_STYLE) : xml;
+}
+
+export const ODT_DIALECT: XmlDialect = {
+  readParagraphs: readOdtParagraphs,
+  writeText: writeOdtText,
+  writeRuns: writeOdtRuns,
+  finalize: finalizeOdt,
+  containerStart: /(?:<table:table-cell\b[^>]*>|<draw:text-box\b[^>]*>|<text:list-item\b[^>]*>|<text:note-body>)\s*$/,
+  containerEnd: /^\s*(?:<\/table:table-cell>|<\/draw:text-box>|<\/text:list-item>|<\/text:note-body>)/,
+  tableRow: "table:table-row",
+};
+
+export function listOdtTextParts(zip: PizZip): string[] {
+  return [CONTENT_PART_PATH, STYLES_PART_PATH].filter((path) => zip.file(path));
+}
+
+// The body keeps the short ids ("p3.0") so the preview lines up as it does for Word
+export function getOdtPartName(path: string): string {
+  return path === CONTENT_PART_PATH ? BODY_PART : ODT_STYLES_PART;
+}
+
+export function readOdtContent(zip: PizZip): string {
+  return zip.file(CONTENT_PART_PATH)?.asText() ?? "";
+}
+
+// Plain text of the body, one blank line between paragraphs like mammoth's raw text
+export function extractOdtText(xml: string): string {
+  return readOdtParagraphs(xml)
+    .map((paragraph) => paragraph.text)
+    .join("\n\n");
+}
+
+// Preview HTML for the body: paragraphs, headings, lists and tables, without styling.
+// Notes and text boxes show inline where they are anchored.
+export function convertOdtToHtml(xml: string): string {
+  let html = "";
+  let inBody = false;
+  let ignoredDepth = 0;
+  let textStart = 0;
+  const open: string[] = [];
+
+  TAG_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_REGEX.exec(xml))) {
+    const [tag, closing, name, attributes, selfClosing] = match;
+    if (inBody && !ignoredDepth && open.length && match.index > textStart) {
+      // Escaped like mammoth output, so placeholders highlight the same way
+      html += encodeXml(decodeXml(xml.slice(textStart, match.index)));
+    }
+    textStart = match.index + tag.length;
+
+    if (name === "office:text" && !selfClosing) {
+      inBody = !closing;
+      continue;
+    }
+    if (!inBody) continue;
+
+    if (IGNORED_ELEMENTS.includes(name)) {
+      if (!selfClosing) ignoredDepth += closing ? -1 : 1;
+    } else if (ignoredDepth) {
+      continue;
+    } else if (PARAGRAPH_ELEMENTS.includes(name)) {
+      if (selfClosing) {
+        if (!open.length) html += "<p></p>";
+      } else if (!closing) {
+        const level = Math.min(Math.max(Number(attributes.match(/text:outline-level="(\d+)"/)?.[1] ?? 1), 1), 6);
+        const element = open.length ? "span" : name === "text:h" ? `h${level}` : "p";
+        html += open.length ? ` <${element}>` : `<${element}>`;
+        open.push(element);
+      } else if (open.length) {
+        html += `</${open.pop()}>`;
+      }
+    } else if (HTML_ELEMENTS[name] && !open.length && !selfClosing) {
+      html += `<${closing}${HTML_ELEMENTS[name]}>`;
+    } else if (name === "text:s" && open.length) {
+      html += " ".repeat(getSpaceCount(attributes));
+    } else if ((name === "text:tab" || name === "text:line-break") && open.length) {
+      html += name === "text:tab" ? " " : "<br />";
+    }
+  }
+
+  return html;
+}
+
+// ODF readers expect the mimetype entry first and uncompressed
+export function prepareOdtPackage(zip: PizZip): void {
+  const mimetype = zip.file("mimetype");
+  if (mimetype) zip.file("mimetype", mimetype.asText(), { compression: "STORE" });
+}
+
+const META_PART_PATH = "meta.xml";
+const USER_DEFINED_REGEX = /<meta:user-defined\b[^>]*\bmeta:name="([^"]*)"[^>]*(?:\/>|>([\s\S]*?)<\/meta:user-defined>)/g;
+
+// User-defined metadata from meta.xml, by name
+export function readOdtProperties(zip: PizZip): Record<string, string> {
+  const xml = zip.file(META_PART_PATH)?.asText() ?? "";
+  const properties: Record<string, string> = {};
+  for (const [, name, value = ""] of xml.matchAll(USER_DEFINED_REGEX)) {
+    properties[decodeXml(name)] = decodeXml(value);
+  }
+  return properties;
+}
+
+// Set user-defined string metadata in meta.xml, replacing any with the same names.
+// Packages without meta.xml get one, listed in the manifest.
+export function writeOdtProperties(zip: PizZip, properties: Record<string, string>): void {
+  const existing = zip.file(META_PART_PATH)?.asText();
+  const xml =
+    existing ??
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<office:document-meta xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" ' +
+      'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0" office:version="1.2"><office:meta/></office:document-meta>';
+
+  const kept = xml
+    .replace("<office:meta/>", "<office:meta></office:meta>")
+    .replace(USER_DEFINED_REGEX, (element, name: string) => (decodeXml(name) in properties ? "" : element));
+  const added = Object.entries(properties)
+    .map(
+      ([name, value]) =>
+        `<meta:user-defined meta:name="${encodeXml(name).replace(/"/g, "&quot;")}" meta:value-type="string">${encodeXml(value)}</meta:user-defined>`,
+    )
+    .join("");
+  const end = kept.indexOf("</office:meta>");
+  if (end === -1) return;
+  zip.file(META_PART_PATH, kept.slice(0, end) + added + kept.slice(end));
+
+  const manifest = zip.file("META-INF/manifest.xml")?.asText();
+  if (!existing && manifest && !manifest.includes(`manifest:full-path="${META_PART_PATH}"`)) {
+    zip.file(
+      "META-INF/manifest.xml",
+      manifest.replace(
+        "</manifest:manifest>",
+        `<manifest:file-entry manifest:full-path="${META_PART_PATH}" manifest:media-type="text/xml"/></manifest:manifest>`,
+      ),
+    );
+  }
+}
+
+// Styles for the fill report, added to the automatic styles of content.xml
+const REPORT_STYLES =
+  '<style:style style:name="ClausefillReportTitle" style:family="paragraph">' +
+  '<style:paragraph-properties fo:break-before="page"/>' +
+  '<style:text-properties fo:font-size="16pt" fo:font-weight="bold"/></style:style>' +
+  '<style:style style:name="ClausefillReportHeader" style:family="paragraph">' +
+  '<style:text-properties fo:font-weight="bold"/></style:style>';
+
+// The fill report on a page of its own at the end of the body, as a table
+export function appendOdtReport(xml: string, report: ReportTable): string {
+  const bodyEnd = xml.lastIndexOf("</office:text>");
+  if (bodyEnd === -1) return xml;
+
+  const row = (cells: string[][], header = false) =>
+    `<table:table-row>${cells
+      .map(
+        (lines) =>
+          `<table:table-cell office:value-type="string">${lines
+            .map((line) => `<text:p${header ? ' text:style-name="ClausefillReportHeader"' : ""}>${encodeOdtText(line)}</text:p>`)
+            .join("")}</table:table-cell>`,
+      )
+      .join("")}</table:table-row>`;
+  const content =
+    `<text:h text:style-name="ClausefillReportTitle" text:outline-level="1">${encodeOdtText(report.title)}</text:h>` +
+    `<text:p>${encodeOdtText(report.summary)}</text:p>` +
+    '<table:table table:name="ClausefillFillReport">' +
+    `<table:table-column table:number-columns-repeated="${report.columns.length}"/>` +
+    `<table:table-header-rows>${row(report.columns.map((column) => [column]), true)}</table:table-header-rows>` +
+    report.rows.map((cells) => row(cells)).join("") +
+    "</table:table>";
+
+  return addAutomaticStyles(xml.slice(0, bodyEnd) + content + xml.slice(bodyEnd), REPORT_STYLES);
+}
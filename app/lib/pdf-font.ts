@@ -0,0 +1,225 @@
+// The TrueType fonts the PDF export falls back to for text the standard Helvetica fonts
+// can't encode (₹, Greek, Cyrillic, "ł"): DejaVu Sans, from the dejavu-fonts-ttf package.
+// Only what embedding needs is read: glyph ids, advance widths and the font box. The
+// file embedded is a subset holding just the glyphs a document uses.
+
+import { readFileSync } from "fs";
+import path from "path";
+
+export interface TrueTypeFont {
+  data: Buffer;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  // Degrees, negative for obliques
+  italicAngle: number;
+  bbox: [number, number, number, number];
+  // Code point -> glyph id; characters the font lacks are missing
+  glyphs: Map<number, number>;
+  // Advance width per glyph id, in font units
+  advances: number[];
+}
+
+const FONT_DIRECTORY = path.join(process.cwd(), "node_modules", "dejavu-fonts-ttf", "ttf");
+const fonts = new Map<string, TrueTypeFont>();
+
+// Tables a PDF needs from an embedded TrueType font; cmap, names and layout tables
+// aren't used, since text is written as glyph ids
+const SUBSET_TABLES = ["head", "hhea", "maxp", "hmtx", "loca", "glyf", "cvt ", "fpgm", "prep"];
+
+// Tag -> offset and length
+function readTables(data: Buffer): Map<string, { offset: number; length: number }> {
+  const tables = new Map<string, { offset: number; length: number }>();
+  const count = data.readUInt16BE(4);
+  for (let index = 0; index < count; index++) {
+    const record = 12 + index * 16;
+    tables.set(data.toString("latin1", record, record + 4), {
+      offset: data.readUInt32BE(record + 8),
+      length: data.readUInt32BE(record + 12),
+    });
+  }
+  return tables;
+}
+
+// Windows Unicode subtables: format 12 covers every plane, format 4 the BMP
+function readCmap(data: Buffer, cmap: number): Map<number, number> {
+  const glyphs = new Map<number, number>();
+  const subtables = Array.from({ length: data.readUInt16BE(cmap + 2) }, (_, index) => {
+    const record = cmap + 4 + index * 8;
+    const offset = cmap + data.readUInt32BE(record + 4);
+    return { platform: data.readUInt16BE(record), encoding: data.readUInt16BE(record + 2), offset, format: data.readUInt16BE(offset) };
+  }).filter((subtable) => subtable.platform === 3 && (subtable.encoding === 1 || subtable.encoding === 10));
+  const subtable = subtables.find((candidate) => candidate.format === 12) ?? subtables.find((candidate) => candidate.format === 4);
+  if (!subtable) return glyphs;
+
+  const { offset } = subtable;
+  if (subtable.format === 12) {
+    for (let group = 0; group < data.readUInt32BE(offset + 12); group++) {
+      const record = offset + 16 + group * 12;
+      const startGlyph = data.readUInt32BE(record + 8);
+      for (let code = data.readUInt32BE(record); code <= data.readUInt32BE(record + 4); code++) {
+        glyphs.set(code, startGlyph + code - data.readUInt32BE(record));
+      }
+    }
+    return glyphs;
+  }
+
+  const segments = data.readUInt16BE(offset + 6) / 2;
+  const ends = offset + 14;
+  const starts = ends + segments * 2 + 2;
+  const deltas = starts + segments * 2;
+  const rangeOffsets = deltas + segments * 2;
+  for (let segment = 0; segment < segments; segment++) {
+    const start = data.readUInt16BE(starts + segment * 2);
+    const end = data.readUInt16BE(ends + segment * 2);
+    const delta = data.readInt16BE(deltas + segment * 2);
+    const rangeOffset = data.readUInt16BE(rangeOffsets + segment * 2);
+    for (let code = start; code <= end && code !== 0xffff; code++) {
+      let glyph = code;
+      if (rangeOffset) {
+        glyph = data.readUInt16BE(rangeOffsets + segment * 2 + rangeOffset + (code - start) * 2);
+        if (!glyph) continue;
+      }
+      glyph = (glyph + delta) & 0xffff;
+      if (glyph) glyphs.set(code, glyph);
+    }
+  }
+  return glyphs;
+}
+
+function parseTrueType(data: Buffer): TrueTypeFont {
+  const tables = readTables(data);
+  const head = tables.get("head")!.offset;
+  const hhea = tables.get("hhea")!.offset;
+  const hmtx = tables.get("hmtx")!.offset;
+  const os2 = tables.get("OS/2")?.offset;
+  const glyphCount = data.readUInt16BE(tables.get("maxp")!.offset + 4);
+  const metricCount = data.readUInt16BE(hhea + 34);
+
+  // Glyphs past the last metric share its advance
+  const advances = Array.from({ length: glyphCount }, (_, glyph) =>
+    data.readUInt16BE(hmtx + Math.min(glyph, metricCount - 1) * 4),
+  );
+  const ascent = data.readInt16BE(hhea + 4);
+  return {
+    data,
+    unitsPerEm: data.readUInt16BE(head + 18),
+    ascent,
+    descent: data.readInt16BE(hhea + 6),
+    // sCapHeight is only in OS/2 version 2 and later
+    capHeight: os2 !== undefined && data.readUInt16BE(os2) >= 2 ? data.readInt16BE(os2 + 88) : ascent,
+    italicAngle: data.readInt32BE(tables.get("post")!.offset + 4) / 65536,
+    bbox: [data.readInt16BE(head + 36), data.readInt16BE(head + 38), data.readInt16BE(head + 40), data.readInt16BE(head + 42)],
+    glyphs: readCmap(data, tables.get("cmap")!.offset),
+    advances,
+  };
+}
+
+// "DejaVuSans-Bold" -> the parsed font; read once per process
+export function loadFont(name: string): TrueTypeFont {
+  let font = fonts.get(name);
+  if (!font) {
+    font = parseTrueType(readFileSync(path.join(FONT_DIRECTORY, `${name}.ttf`)));
+    fonts.set(name, font);
+  }
+  return font;
+}
+
+// Start and end of each glyph in glyf, from loca in its short or long form
+function readGlyphOffsets(data: Buffer, tables: Map<string, { offset: number; length: number }>): number[] {
+  const loca = tables.get("loca")!.offset;
+  const isLong = data.readInt16BE(tables.get("head")!.offset + 50) === 1;
+  const count = data.readUInt16BE(tables.get("maxp")!.offset + 4) + 1;
+  return Array.from({ length: count }, (_, index) =>
+    isLong ? data.readUInt32BE(loca + index * 4) : data.readUInt16BE(loca + index * 2) * 2,
+  );
+}
+
+// Glyphs a composite glyph is built from, which the subset needs too
+function readComponents(glyph: Buffer): number[] {
+  if (glyph.length < 10 || glyph.readInt16BE(0) >= 0) return [];
+  const components: number[] = [];
+  let position = 10;
+  let flags: number;
+  do {
+    flags = glyph.readUInt16BE(position);
+    components.push(glyph.readUInt16BE(position + 2));
+    // Arguments are words or bytes, then an optional scale, x/y scale or 2x2 matrix
+    position += 4 + (flags & 0x1 ? 4 : 2) + (flags & 0x8 ? 2 : flags & 0x40 ? 4 : flags & 0x80 ? 8 : 0);
+  } while (flags & 0x20);
+  return components;
+}
+
+function getChecksum(table: Buffer): number {
+  const padded = Buffer.concat([table, Buffer.alloc((4 - (table.length % 4)) % 4)]);
+  let sum = 0;
+  for (let offset = 0; offset < padded.length; offset += 4) sum = (sum + padded.readUInt32BE(offset)) >>> 0;
+  return sum;
+}
+
+// The font with every glyph but the given ones (and glyph 0) emptied. Glyph ids stay
+// the same, so text written as glyph ids and the widths for them still apply.
+export function subsetFont(font: TrueTypeFont, glyphIds: Iterable<number>): Buffer {
+  const { data } = font;
+  const tables = readTables(data);
+  const glyf = tables.get("glyf")!.offset;
+  const offsets = readGlyphOffsets(data, tables);
+  const getGlyph = (id: number) => data.subarray(glyf + offsets[id], glyf + offsets[id + 1]);
+
+  const kept = new Set<number>();
+  const pending = [0, ...glyphIds];
+  while (pending.length) {
+    const id = pending.pop()!;
+    if (id >= offsets.length - 1 || kept.has(id)) continue;
+    kept.add(id);
+    pending.push(...readComponents(getGlyph(id)));
+  }
+
+  // Glyphs are 4-byte aligned, with loca rewritten in its long form
+  const glyphs: Buffer[] = [];
+  const loca = Buffer.alloc(offsets.length * 4);
+  let glyfLength = 0;
+  for (let id = 0; id < offsets.length - 1; id++) {
+    loca.writeUInt32BE(glyfLength, id * 4);
+    if (!kept.has(id)) continue;
+    const glyph = getGlyph(id);
+    const padding = Buffer.alloc((4 - (glyph.length % 4)) % 4);
+    glyphs.push(glyph, padding);
+    glyfLength += glyph.length + padding.length;
+  }
+  loca.writeUInt32BE(glyfLength, (offsets.length - 1) * 4);
+
+  const head = Buffer.from(data.subarray(tables.get("head")!.offset, tables.get("head")!.offset + tables.get("head")!.length));
+  head.writeUInt32BE(0, 8); // checkSumAdjustment, which nothing reading a PDF checks
+  head.writeInt16BE(1, 50);
+
+  const contents = SUBSET_TABLES.filter((tag) => tables.has(tag)).map((tag) => {
+    if (tag === "head") return { tag, table: head };
+    if (tag === "loca") return { tag, table: loca };
+    if (tag === "glyf") return { tag, table: Buffer.concat(glyphs) };
+    const { offset, length } = tables.get(tag)!;
+    return { tag, table: data.subarray(offset, offset + length) };
+  });
+
+  // Offset table, then a record per table, then the tables themselves
+  const header = Buffer.alloc(12 + contents.length * 16);
+  const searchPower = 2 ** Math.floor(Math.log2(contents.length));
+  header.writeUInt32BE(0x00010000, 0);
+  header.writeUInt16BE(contents.length, 4);
+  header.writeUInt16BE(searchPower * 16, 6);
+  header.writeUInt16BE(Math.log2(searchPower), 8);
+  header.writeUInt16BE(contents.length * 16 - searchPower * 16, 10);
+  let offset = header.length;
+  const body = contents.flatMap(({ tag, table }, index) => {
+    const record = 12 + index * 16;
+    header.write(tag, record, "latin1");
+    header.writeUInt32BE(getChecksum(table), record + 4);
+    header.writeUInt32BE(offset, record + 8);
+    header.writeUInt32BE(table.length, record + 12);
+    const padding = Buffer.alloc((4 - (table.length % 4)) % 4);
+    offset += table.length + padding.length;
+    return [table, padding];
+  });
+  return Buffer.concat([header, ...body]);
+}
@@ -0,0 +1,401 @@
+// PDF export without external services: the blocks of the filled document's HTML
+// are laid out with the standard Helvetica fonts. Characters WinAnsiEncoding lacks are
+// written in an embedded DejaVu Sans instead. Images are not kept.
+
+import { createHash } from "crypto";
+import { deflateSync } from "zlib";
+import { readHtmlBlocks, type TextRun } from "./html-blocks";
+import { loadFont, subsetFont } from "./pdf-font";
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BODY_SIZE = 11;
+const HEADING_SIZES = [20, 16, 14, 12, 11, 11];
+const LINE_HEIGHT = 1.35;
+const PARAGRAPH_SPACING = 6;
+const LIST_INDENT = 18;
+const CELL_PADDING = 4;
+
+// Helvetica and Helvetica-Bold advance widths for ASCII 32-126 (per 1000 units);
+// the oblique faces share them
+const REGULAR_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+];
+const BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722,
+  611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556,
+  611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778,
+  556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has
+const WIN_ANSI_CODES: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "ˆ": 0x88, "‰": 0x89,
+  "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95,
+  "–": 0x96, "—": 0x97, "˜": 0x98, "™": 0x99, "š": 0x9a, "›": 0x9b, "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+// The DejaVu Sans face standing in for each Helvetica face
+const FALLBACK_FONTS: Record<string, { id: string; name: string }> = {
+  F1: { id: "F5", name: "DejaVuSans" },
+  F2: { id: "F6", name: "DejaVuSans-Bold" },
+  F3: { id: "F7", name: "DejaVuSans-Oblique" },
+  F4: { id: "F8", name: "DejaVuSans-BoldOblique" },
+};
+
+// Glyph id -> code point, per fallback face used
+type UsedGlyphs = Map<string, Map<number, number>>;
+
+interface Piece {
+  text: string;
+  font: string;
+  x: number;
+}
+
+interface Line {
+  pieces: Piece[];
+  width: number;
+}
+
+function getFont(bold?: boolean, italic?: boolean): string {
+  return bold ? (italic ? "F4" : "F2") : italic ? "F3" : "F1";
+}
+
+// undefined for characters the fallback font has to write
+function toWinAnsi(char: string): number | undefined {
+  const code = char.charCodeAt(0);
+  if (char.length === 1 && (code < 0x80 || (code >= 0xa0 && code <= 0xff))) return code;
+  return WIN_ANSI_CODES[char];
+}
+
+function measure(text: string, font: string, size: number): number {
+  const widths = font === "F2" || font === "F4" ? BOLD_WIDTHS : REGULAR_WIDTHS;
+  const units = Array.from(text).reduce((total, char) => {
+    const code = toWinAnsi(char);
+    if (code === undefined) {
+      const fallback = loadFont(FALLBACK_FONTS[font].name);
+      return total + (fallback.advances[fallback.glyphs.get(char.codePointAt(0)!) ?? 0] * 1000) / fallback.unitsPerEm;
+    }
+    return total + (code >= 32 && code <= 126 ? widths[code - 32] : code === 0xa0 ? 278 : DEFAULT_WIDTH);
+  }, 0);
+  return (units * size) / 1000;
+}
+
+// Text that has to be WinAnsi; see splitByEncoding
+function escapePdfString(text: string): string {
+  return Array.from(text, (char) => toWinAnsi(char) ?? 0x3f)
+    .map((code) => {
+      if (code === 0x5c || code === 0x28 || code === 0x29) return `\\${String.fromCharCode(code)}`;
+      return code < 0x20 || code > 0x7e ? `\\${code.toString(8).padStart(3, "0")}` : String.fromCharCode(code);
+    })
+    .join("");
+}
+
+// "Fee: ₹500" -> ["Fee: ", "₹", "500"], so each part can be written in the font that has it
+function splitByEncoding(text: string): { text: string; isWinAnsi: boolean }[] {
+  return Array.from(text).reduce<{ text: string; isWinAnsi: boolean }[]>((parts, char) => {
+    const isWinAnsi = toWinAnsi(char) !== undefined;
+    const last = parts[parts.length - 1];
+    if (last?.isWinAnsi === isWinAnsi) last.text += char;
+    else parts.push({ text: char, isWinAnsi });
+    return parts;
+  }, []);
+}
+
+// Document metadata takes UTF-16 with a byte order mark
+function encodeTextString(text: string): string {
+  if (Array.from(text).every((char) => toWinAnsi(char) !== undefined)) return `(${escapePdfString(text)})`;
+  const units = Array.from({ length: text.length }, (_, index) => text.charCodeAt(index).toString(16).padStart(4, "0"));
+  return `<FEFF${units.join("")}>`;
+}
+
+// Characters neither Helvetica nor DejaVu Sans can show (CJK, for one), which the PDF
+// would draw as empty boxes
+export function findUnsupportedCharacters(html: string): string[] {
+  const unsupported = new Set<string>();
+  const check = (text: string, font: string) =>
+    Array.from(text).forEach((char) => {
+      if (toWinAnsi(char) !== undefined || /\s/.test(char)) return;
+      if (!loadFont(FALLBACK_FONTS[font].name).glyphs.has(char.codePointAt(0)!)) unsupported.add(char);
+    });
+
+  readHtmlBlocks(html).forEach((block) => {
+    if (block.type === "table") {
+      block.rows.flat(2).forEach((run) => check(run.text, getFont(run.bold, run.italic)));
+      return;
+    }
+    block.runs.forEach((run) =>
+      check(run.text, getFont(run.bold || (block.type === "paragraph" && !!block.headingLevel), run.italic)),
+    );
+    if (block.type === "listItem") check(block.marker, "F1");
+  });
+  return Array.from(unsupported);
+}
+
+// Greedy line breaking; words wider than a line are cut wherever they overflow
+function breakLines(runs: TextRun[], size: number, maxWidth: number): Line[] {
+  const lines: Line[] = [];
+  let line: Line = { pieces: [], width: 0 };
+  let pendingSpace = 0;
+
+  const pushLine = () => {
+    lines.push(line);
+    line = { pieces: [], width: 0 };
+    pendingSpace = 0;
+  };
+  const place = (text: string, font: string, width: number) => {
+    const last = line.pieces[line.pieces.length - 1];
+    if (last?.font === font) last.text += pendingSpace ? ` ${text}` : text;
+    else line.pieces.push({ text, font, x: line.width + pendingSpace });
+    line.width += pendingSpace + width;
+    pendingSpace = 0;
+  };
+
+  runs.forEach((run) => {
+    const font = getFont(run.bold, run.italic);
+    run.text.split(/(\n| +)/).forEach((token) => {
+      if (!token) return;
+      if (token === "\n") {
+        pushLine();
+      } else if (token.trim() === "") {
+        if (line.pieces.length) pendingSpace = measure(" ", font, size);
+      } else {
+        let word = token;
+        while (word) {
+          const width = measure(word, font, size);
+          if (line.width + pendingSpace + width <= maxWidth) {
+            place(word, font, width);
+            break;
+          }
+          if (line.pieces.length) {
+            pushLine();
+            continue;
+          }
+          // Alone on the line and still too wide: keep as many characters as fit
+          let count = 1;
+          while (count < word.length && measure(word.slice(0, count + 1), font, size) <= maxWidth) count++;
+          place(word.slice(0, count), font, measure(word.slice(0, count), font, size));
+          word = word.slice(count);
+          if (word) pushLine();
+        }
+      }
+    });
+  });
+
+  if (line.pieces.length || !lines.length) lines.push(line);
+  return lines;
+}
+
+// Lays blocks out top to bottom, starting a new page when the next line doesn't fit
+class PageWriter {
+  pages: string[] = [];
+  usedGlyphs: UsedGlyphs = new Map();
+  private content = "";
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor() {
+    this.pages.push("");
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height >= MARGIN || this.y === PAGE_HEIGHT - MARGIN) return;
+    this.finishPage();
+    this.pages.push("");
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  skip(height: number) {
+    if (this.y < PAGE_HEIGHT - MARGIN) this.y -= height;
+  }
+
+  writeLines(lines: Line[], size: number, x: number, marker?: string) {
+    const lineHeight = size * LINE_HEIGHT;
+    lines.forEach((line, index) => {
+      this.ensureSpace(lineHeight);
+      const baseline = this.y - size;
+      if (marker && index === 0) this.text(marker, "F1", size, x - 14, baseline);
+      line.pieces.forEach((piece) => this.text(piece.text, piece.font, size, x + piece.x, baseline));
+      this.y -= lineHeight;
+    });
+  }
+
+  writeTable(rows: TextRun[][][]) {
+    const columns = Math.max(...rows.map((row) => row.length));
+    const columnWidth = CONTENT_WIDTH / columns;
+    const lineHeight = BODY_SIZE * LINE_HEIGHT;
+
+    rows.forEach((row) => {
+      const cells = Array.from({ length: columns }, (_, index) =>
+        breakLines(row[index] ?? [], BODY_SIZE, columnWidth - 2 * CELL_PADDING),
+      );
+      const height = Math.max(...cells.map((lines) => lines.length)) * lineHeight + 2 * CELL_PADDING;
+      this.ensureSpace(height);
+
+      cells.forEach((lines, column) => {
+        const x = MARGIN + column * columnWidth;
+        lines.forEach((line, index) => {
+          const baseline = this.y - CELL_PADDING - index * lineHeight - BODY_SIZE;
+          line.pieces.forEach((piece) =>
+            this.text(piece.text, piece.font, BODY_SIZE, x + CELL_PADDING + piece.x, baseline),
+          );
+        });
+        this.content += `0.5 w ${x.toFixed(2)} ${(this.y - height).toFixed(2)} ${columnWidth.toFixed(2)} ${height.toFixed(2)} re S\n`;
+      });
+      this.y -= height;
+    });
+  }
+
+  finishPage() {
+    this.pages[this.pages.length - 1] = this.content;
+    this.content = "";
+  }
+
+  // Each Tj moves the text position past what it wrote, so the parts follow each other
+  private text(text: string, font: string, size: number, x: number, y: number) {
+    if (!text.trim()) return;
+    const parts = splitByEncoding(text).map((part) => {
+      if (part.isWinAnsi) return `/${font} ${size} Tf (${escapePdfString(part.text)}) Tj`;
+      const { id, name } = FALLBACK_FONTS[font];
+      const { glyphs } = loadFont(name);
+      const used = this.usedGlyphs.get(id) ?? new Map<number, number>();
+      this.usedGlyphs.set(id, used);
+      // Identity-H: two-byte glyph ids
+      const hex = Array.from(part.text, (char) => {
+        const glyph = glyphs.get(char.codePointAt(0)!) ?? 0;
+        if (glyph) used.set(glyph, char.codePointAt(0)!);
+        return glyph.toString(16).padStart(4, "0");
+      }).join("");
+      return `/${id} ${size} Tf <${hex}> Tj`;
+    });
+    this.content += `BT ${x.toFixed(2)} ${y.toFixed(2)} Td ${parts.join(" ")} ET\n`;
+  }
+}
+
+// Maps the glyph ids written back to text, for copying and search
+function getToUnicode(used: Map<number, number>): string {
+  const hex = (value: number) => value.toString(16).padStart(4, "0");
+  const entries = Array.from(used, ([glyph, code]) => {
+    // UTF-16, so characters past the BMP map to a surrogate pair
+    const text = String.fromCodePoint(code);
+    const units = Array.from({ length: text.length }, (_, index) => hex(text.charCodeAt(index)));
+    return `<${hex(glyph)}> <${units.join("")}>`;
+  });
+  // At most 100 mappings per block
+  const blocks = Array.from({ length: Math.ceil(entries.length / 100) }, (_, index) => {
+    const chunk = entries.slice(index * 100, index * 100 + 100);
+    return `${chunk.length} beginbfchar\n${chunk.join("\n")}\nendbfchar`;
+  });
+  return [
+    "/CIDInit /ProcSet findresource begin 12 dict begin begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def /CMapType 2 def",
+    "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+    ...blocks,
+    "endcmap CMapName currentdict /CMap defineresource pop end end",
+  ].join("\n");
+}
+
+// Type0 font over a subset of the TrueType file holding the glyphs used, with their
+// widths; returns the Type0 font's object number
+function addFallbackFont(objects: string[], fontName: string, used: Map<number, number>): number {
+  const font = loadFont(fontName);
+  const scale = (value: number) => Math.round((value * 1000) / font.unitsPerEm);
+  const glyphIds = Array.from(used.keys()).sort((a, b) => a - b);
+  // Subsets are named with a tag of six capital letters: "KQWMBD+DejaVuSans"
+  const hash = createHash("sha1").update(`${fontName}:${glyphIds.join(",")}`).digest();
+  const name = `${Array.from(hash.subarray(0, 6), (byte) => String.fromCharCode(65 + (byte % 26))).join("")}+${fontName}`;
+
+  // Binary, but one byte per character in the latin1 output
+  const subset = subsetFont(font, glyphIds);
+  const fontFile = deflateSync(subset);
+  objects.push(
+    `<< /Length ${fontFile.length} /Length1 ${subset.length} /Filter /FlateDecode >>\nstream\n${fontFile.toString("latin1")}\nendstream`,
+  );
+  objects.push(
+    `<< /Type /FontDescriptor /FontName /${name} /Flags ${font.italicAngle ? 96 : 32} /FontBBox [${font.bbox.map(scale).join(" ")}] ` +
+      `/ItalicAngle ${font.italicAngle} /Ascent ${scale(font.ascent)} /Descent ${scale(font.descent)} ` +
+      `/CapHeight ${scale(font.capHeight)} /StemV 80 /FontFile2 ${objects.length} 0 R >>`,
+  );
+  const widths = glyphIds.map((glyph) => `${glyph} [${scale(font.advances[glyph])}]`);
+  objects.push(
+    `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+      `/FontDescriptor ${objects.length} 0 R /CIDToGIDMap /Identity /W [${widths.join(" ")}] >>`,
+  );
+  const toUnicode = getToUnicode(used);
+  objects.push(`<< /Length ${toUnicode.length} >>\nstream\n${toUnicode}\nendstream`);
+  objects.push(
+    `<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H /DescendantFonts [${objects.length - 1} 0 R] /ToUnicode ${objects.length} 0 R >>`,
+  );
+  return objects.length;
+}
+
+function serialize(pages: string[], title: string, usedGlyphs: UsedGlyphs): Buffer {
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "", // page tree, filled in once the page objects are numbered
+    ...["Helvetica", "Helvetica-Bold", "Helvetica-Oblique", "Helvetica-BoldOblique"].map(
+      (font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`,
+    ),
+  ];
+  const fallbackFonts = Object.values(FALLBACK_FONTS)
+    .filter(({ id }) => usedGlyphs.has(id))
+    .map(({ id, name }) => ` /${id} ${addFallbackFont(objects, name, usedGlyphs.get(id)!)} 0 R`);
+  const fonts = `<< /F1 3 0 R /F2 4 0 R /F3 5 0 R /F4 6 0 R${fallbackFonts.join("")} >>`;
+
+  const pageIds = pages.map((content) => {
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font ${fonts} >> /Contents ${objects.length} 0 R >>`,
+    );
+    return objects.length;
+  });
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+  objects.push(`<< /Title ${encodeTextString(title)} /Producer (Clausefill AI) >>`);
+
+  let output = "%PDF-1.4\n%âãÏÓ\n";
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  // Every character written is a single byte, so string offsets are byte offsets
+  return Buffer.from(output, "latin1");
+}
+
+export function renderPdf(html: string, title = ""): Buffer {
+  const writer = new PageWriter();
+
+  readHtmlBlocks(html).forEach((block) => {
+    if (block.type === "table") {
+      writer.skip(PARAGRAPH_SPACING);
+      writer.writeTable(block.rows);
+      writer.skip(PARAGRAPH_SPACING);
+    } else if (block.type === "listItem") {
+      const indent = LIST_INDENT * (block.depth + 1);
+      writer.writeLines(breakLines(block.runs, BODY_SIZE, CONTENT_WIDTH - indent), BODY_SIZE, MARGIN + indent, block.marker);
+      writer.skip(PARAGRAPH_SPACING / 2);
+    } else {
+      const size = block.headingLevel ? HEADING_SIZES[block.headingLevel - 1] : BODY_SIZE;
+      const runs = block.headingLevel ? block.runs.map((run) => ({ ...run, bold: true })) : block.runs;
+      if (block.headingLevel) writer.skip(PARAGRAPH_SPACING);
+      writer.writeLines(breakLines(runs, size, CONTENT_WIDTH), size, MARGIN);
+      writer.skip(PARAGRAPH_SPACING);
+    }
+  });
+
+  writer.finishPage();
+  return serialize(writer.pages, title, writer.usedGlyphs);
+}
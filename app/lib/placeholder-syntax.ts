@@ -0,0 +1,189 @@
+// Placeholder syntaxes. parse-document, generate-doc and the client all build
+// their matcher from the same profile, so detection and filling never disagree.
+
+export type PlaceholderSyntax =
+  | "brackets"
+  | "braces"
+  | "handlebars"
+  | "guillemets"
+  | "angle"
+  | "percent"
+  | "underscores";
+
+export interface CustomDelimiter {
+  open: string;
+  close: string;
+}
+
+// Fill-in text no syntax matches, like a run of spaces or sample text, that the user
+// accepted after parse-document proposed it (see implicit-blanks.ts). text is what the
+// paragraph holds at offset; name is the field it asks for.
+export interface ImplicitBlank {
+  part: string;
+  paragraphIndex: number;
+  offset: number;
+  text: string;
+  name: string;
+}
+
+export interface SyntaxProfile {
+  syntaxes: PlaceholderSyntax[];
+  custom?: CustomDelimiter[];
+  blanks?: ImplicitBlank[];
+}
+
+// Longer delimiters come first so {{name}} is not read as {name} plus a stray brace
+const SYNTAX_PATTERNS: Record<PlaceholderSyntax, string> = {
+  handlebars: "\\{\\{(?![#:/])[^{}]+\\}\\}",
+  angle: "<<[^<>]+>>",
+  percent: "%%[^%]+%%",
+  guillemets: "«[^«»]+»",
+  // [Company Name], $[Amount], [ ], [TBD]
+  brackets: "\\$?\\[[^\\]]*\\]",
+  // {#if}, {:else} and {/if} are section tags, not placeholders (see sections.ts)
+  braces: "\\{(?![#:/])[^{}]+\\}",
+  underscores: "_{3,}",
+};
+
+export const PLACEHOLDER_SYNTAXES = Object.keys(SYNTAX_PATTERNS) as PlaceholderSyntax[];
+
+export const SYNTAX_EXAMPLES: Record<PlaceholderSyntax, string> = {
+  brackets: "[Company Name]",
+  braces: "{variable}",
+  handlebars: "{{variable}}",
+  guillemets: "«Name»",
+  angle: "<<Name>>",
+  percent: "%%name%%",
+  underscores: "___",
+};
+
+export const DEFAULT_SYNTAX_PROFILE: SyntaxProfile = { syntaxes: ["brackets", "braces", "underscores"] };
+
+// Presets offered in the uploader; "auto" lets parse-document pick from the text
+export const SYNTAX_PRESETS: { id: string; label: string; profile?: SyntaxProfile }[] = [
+  { id: "auto", label: "Auto-detect" },
+  { id: "standard", label: "[Brackets], {braces} and ___", profile: DEFAULT_SYNTAX_PROFILE },
+  { id: "handlebars", label: "{{Handlebars}}", profile: { syntaxes: ["handlebars", "underscores"] } },
+  { id: "guillemets", label: "«Guillemets»", profile: { syntaxes: ["guillemets", "underscores"] } },
+  { id: "angle", label: "<<Angle brackets>>", profile: { syntaxes: ["angle", "underscores"] } },
+  { id: "percent", label: "%%Percent%%", profile: { syntaxes: ["percent", "underscores"] } },
+  { id: "all", label: "All of the above", profile: { syntaxes: PLACEHOLDER_SYNTAXES } },
+  { id: "custom", label: "Custom delimiters" },
+];
+
+const MAX_DELIMITER_LENGTH = 10;
+const MAX_BLANKS = 200;
+const MAX_BLANK_TEXT_LENGTH = 200;
+const MAX_BLANK_NAME_LENGTH = 100;
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getCustomPattern({ open, close }: CustomDelimiter): string {
+  const openPattern = escapeRegExp(open);
+  const closePattern = escapeRegExp(close);
+  return `${openPattern}(?:(?!${openPattern}|${closePattern})[^\\n])+${closePattern}`;
+}
+
+function getPatterns(profile: SyntaxProfile): string[] {
+  // Custom delimiters are usually the most specific, so they win ties
+  return [
+    ...(profile.custom ?? []).map(getCustomPattern),
+    ...PLACEHOLDER_SYNTAXES.filter((syntax) => profile.syntaxes.includes(syntax)).map(
+      (syntax) => SYNTAX_PATTERNS[syntax],
+    ),
+  ];
+}
+
+// A fresh global regex for the profile; callers iterate it with matchAll
+export function buildPlaceholderRegex(profile: SyntaxProfile = DEFAULT_SYNTAX_PROFILE): RegExp {
+  const patterns = getPatterns(profile);
+  // A profile with nothing enabled matches nothing rather than everything
+  return new RegExp(patterns.length ? patterns.join("|") : "(?!)", "g");
+}
+
+// Pick the delimiter syntaxes a template actually uses. Underscore blanks are
+// kept whenever present since they mix with every other style.
+export function detectSyntaxProfile(text: string): SyntaxProfile {
+  const counts = new Map<PlaceholderSyntax, number>();
+  const combined = new RegExp(PLACEHOLDER_SYNTAXES.map((syntax) => `(${SYNTAX_PATTERNS[syntax]})`).join("|"), "g");
+
+  for (const match of text.matchAll(combined)) {
+    const syntax = PLACEHOLDER_SYNTAXES[match.slice(1).findIndex((group) => group !== undefined)];
+    counts.set(syntax, (counts.get(syntax) ?? 0) + 1);
+  }
+
+  const delimited = Array.from(counts.entries()).filter(([syntax]) => syntax !== "underscores");
+  if (!delimited.length) return DEFAULT_SYNTAX_PROFILE;
+
+  // Keep every syntax used at least half as often as the most common one
+  const max = Math.max(...delimited.map(([, count]) => count));
+  const syntaxes = delimited.filter(([, count]) => count * 2 >= max).map(([syntax]) => syntax);
+  if (counts.has("underscores")) syntaxes.push("underscores");
+
+  return { syntaxes: PLACEHOLDER_SYNTAXES.filter((syntax) => syntaxes.includes(syntax)) };
+}
+
+// Validate a profile sent by the client (form field or JSON body)
+export function parseSyntaxProfile(value: unknown): SyntaxProfile | undefined {
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!raw || typeof raw !== "object") return undefined;
+
+  const { syntaxes, custom, blanks } = raw as { syntaxes?: unknown; custom?: unknown; blanks?: unknown };
+  const profile: SyntaxProfile = {
+    syntaxes: Array.isArray(syntaxes)
+      ? PLACEHOLDER_SYNTAXES.filter((syntax) => syntaxes.includes(syntax))
+      : [],
+  };
+
+  if (Array.isArray(custom)) {
+    const delimiters = custom.filter(
+      (delimiter): delimiter is CustomDelimiter =>
+        !!delimiter &&
+        typeof delimiter.open === "string" &&
+        typeof delimiter.close === "string" &&
+        delimiter.open.trim().length > 0 &&
+        delimiter.close.trim().length > 0 &&
+        delimiter.open.length <= MAX_DELIMITER_LENGTH &&
+        delimiter.close.length <= MAX_DELIMITER_LENGTH,
+    );
+    if (delimiters.length) profile.custom = delimiters.map(({ open, close }) => ({ open, close }));
+  }
+
+  if (Array.isArray(blanks)) {
+    const accepted = blanks
+      .filter(
+        (blank): blank is ImplicitBlank =>
+          !!blank &&
+          typeof blank.part === "string" &&
+          Number.isInteger(blank.paragraphIndex) &&
+          blank.paragraphIndex >= 0 &&
+          Number.isInteger(blank.offset) &&
+          blank.offset >= 0 &&
+          typeof blank.text === "string" &&
+          blank.text.length > 0 &&
+          blank.text.length <= MAX_BLANK_TEXT_LENGTH &&
+          typeof blank.name === "string",
+      )
+      .slice(0, MAX_BLANKS);
+    if (accepted.length) {
+      profile.blanks = accepted.map(({ part, paragraphIndex, offset, text, name }) => ({
+        part,
+        paragraphIndex,
+        offset,
+        text,
+        name: name.trim().slice(0, MAX_BLANK_NAME_LENGTH),
+      }));
+    }
+  }
+
+  return profile.syntaxes.length || profile.custom || profile.blanks ? profile : undefined;
+}
@@ -0,0 +1,309 @@
+// Placeholder detection shared by the API routes and the client preview.
+// Every match is kept as its own occurrence so repeated blanks can be filled independently.
+
+import { buildPlaceholderRegex, DEFAULT_SYNTAX_PROFILE, type SyntaxProfile } from "./placeholder-syntax";
+
+// Characters of surrounding text shown on each side of an occurrence
+const SNIPPET_RADIUS = 40;
+
+// Any run of delimiter symbols at either end of a placeholder, which also covers custom delimiters
+const DELIMITER_EDGES_REGEX = /^\$?[[\]{}<>«»%@#^*~|=+\\/]+|[[\]{}<>«»%@#^*~|=+\\/]+$/g;
+
+// Where the value goes: matched text, a Word content control, a MERGEFIELD result,
+// the condition of an {#if} section (see sections.ts) or a repeating section (see loops.ts)
+export type PlaceholderSource = "text" | "contentControl" | "mergeField" | "condition" | "loop";
+export type ControlType = "text" | "dropdown" | "date" | "checkbox";
+
+export interface PlaceholderOccurrence {
+  id: string;
+  // Matched text, or the control/field name for structured placeholders
+  placeholder: string;
+  // Document part the occurrence was found in, e.g. "document", "header1", "footnotes"
+  part: string;
+  paragraphIndex: number;
+  offset: number;
+  snippet: string;
+  source: PlaceholderSource;
+  // What the document currently shows, when that isn't the placeholder itself
+  displayText?: string;
+  controlType?: ControlType;
+  options?: string[];
+  // Placeholders repeated for each record of a loop, e.g. "{name}" and "{amount}"
+  itemFields?: string[];
+}
+
+// One entry of a loop answer, keyed by the canonical name of each item field
+export type AnswerRecord = Record<string, string>;
+// Loops take a list of records; everything else a single string
+export type AnswerValue = string | AnswerRecord[];
+
+// A field is one question in the chat: one or more occurrences sharing a value
+export interface PlaceholderField {
+  id: string;
+  placeholder: string;
+  occurrenceIds: string[];
+  // Other spellings grouped into this field, e.g. "[COMPANY]" next to "[Company Name]"
+  aliases?: string[];
+}
+
+export const BODY_PART = "document";
+
+// Body ids stay short ("p3.0", "sdt1"); other parts are prefixed ("header1:p0.0")
+export function getPartPrefix(part: string): string {
+  return part === BODY_PART ? "" : `${part}:`;
+}
+
+export function getOccurrenceId(part: string, paragraphIndex: number, indexInParagraph: number): string {
+  return `${getPartPrefix(part)}p${paragraphIndex}.${indexInParagraph}`;
+}
+
+export function buildSnippet(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - SNIPPET_RADIUS);
+  const to = Math.min(text.length, end + SNIPPET_RADIUS);
+  const before = text.slice(from, start).replace(/\s+/g, " ").trimStart();
+  const after = text.slice(end, to).replace(/\s+/g, " ").trimEnd();
+
+  return `${from > 0 ? "…" : ""}${before}${text.slice(start, end)}${after}${to < text.length ? "…" : ""}`;
+}
+
+// Find every placeholder occurrence in a single paragraph. pattern comes from
+// buildPlaceholderRegex; isExcluded skips matches that belong to something
+// else, like the text of a content control.
+export function extractParagraphOccurrences(
+  text: string,
+  paragraphIndex: number,
+  pattern: RegExp,
+  part: string = BODY_PART,
+  isExcluded?: (offset: number) => boolean,
+): PlaceholderOccurrence[] {
+  const occurrences: PlaceholderOccurrence[] = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const placeholder = match[0];
+    const offset = match.index ?? 0;
+    if (!placeholder.trim() || isExcluded?.(offset)) continue;
+
+    occurrences.push({
+      id: getOccurrenceId(part, paragraphIndex, occurrences.length),
+      placeholder,
+      part,
+      paragraphIndex,
+      offset,
+      snippet: buildSnippet(text, offset, offset + placeholder.length),
+      source: "text",
+    });
+  }
+
+  return occurrences;
+}
+
+export function extractOccurrences(
+  paragraphs: string[],
+  syntax: SyntaxProfile = DEFAULT_SYNTAX_PROFILE,
+): PlaceholderOccurrence[] {
+  const pattern = buildPlaceholderRegex(syntax);
+  return paragraphs.flatMap((text, index) => extractParagraphOccurrences(text, index, pattern));
+}
+
+// Blanks like ___, [ ], {{ }} or [TBD] carry no name, so nothing says two of them share a value
+export function isAnonymousPlaceholder(placeholder: string): boolean {
+  return /^(?:TBD|INSERT|FILL IN)?$/i.test(getPlaceholderLabel(placeholder));
+}
+
+// Case, spacing, punctuation and delimiters don't change what a placeholder asks for:
+// "[Company Name]", "{{company_name}}" and "«CompanyName»" all become "company name"
+export function getCanonicalName(placeholder: string): string {
+  return placeholder
+    .replace(DELIMITER_EDGES_REGEX, "")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[\s_\-.,;:'"()/]+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function withAliases(field: PlaceholderField, placeholders: string[]): PlaceholderField {
+  const aliases = Array.from(new Set([...(field.aliases ?? []), ...placeholders])).filter(
+    (alias) => alias !== field.placeholder,
+  );
+  return { ...field, aliases: aliases.length ? aliases : undefined };
+}
+
+// Named placeholders with the same canonical name are linked by default;
+// every anonymous blank becomes its own field. A loop only links with loops,
+// since its answer is a list rather than text.
+export function groupOccurrences(occurrences: PlaceholderOccurrence[]): PlaceholderField[] {
+  const fields: PlaceholderField[] = [];
+  const byName = new Map<string, number>();
+
+  occurrences.forEach((occurrence) => {
+    const name = isAnonymousPlaceholder(occurrence.placeholder)
+      ? undefined
+      : `${occurrence.source === "loop" ? "#" : ""}${getCanonicalName(occurrence.placeholder)}`;
+    const index = name === undefined ? undefined : byName.get(name);
+
+    if (index !== undefined) {
+      const existing = fields[index];
+      fields[index] = withAliases(
+        { ...existing, occurrenceIds: [...existing.occurrenceIds, occurrence.id] },
+        [occurrence.placeholder],
+      );
+      return;
+    }
+
+    if (name !== undefined) byName.set(name, fields.length);
+    fields.push({
+      id: occurrence.id,
+      placeholder: occurrence.placeholder,
+      occurrenceIds: [occurrence.id],
+    });
+  });
+
+  return fields;
+}
+
+// One line for an answer: lists read "Jane – $5,000; John – $10,000"
+export function formatAnswer(value: AnswerValue): string {
+  return typeof value === "string" ? value : value.map((record) => Object.values(record).join(" – ")).join("; ");
+}
+
+// generate-doc fills by occurrence id, so spread each field's answer over its occurrences
+export function getOccurrenceValues(
+  fields: PlaceholderField[],
+  answers: Record<string, AnswerValue>,
+): Record<string, AnswerValue> {
+  const values: Record<string, AnswerValue> = {};
+  fields.forEach((field) => {
+    const value = answers[field.id];
+    if (value === undefined) return;
+    field.occurrenceIds.forEach((occurrenceId) => {
+      values[occurrenceId] = value;
+    });
+  });
+  return values;
+}
+
+// Move all occurrences of one field into another so they share a single answer
+export function linkFields(fields: PlaceholderField[], sourceId: string, targetId: string): PlaceholderField[] {
+  const source = fields.find((field) => field.id === sourceId);
+  if (!source || sourceId === targetId) return fields;
+
+  return fields
+    .filter((field) => field.id !== sourceId)
+    .map((field) =>
+      field.id === targetId
+        ? withAliases(
+            { ...field, occurrenceIds: [...field.occurrenceIds, ...source.occurrenceIds] },
+            [source.placeholder, ...(source.aliases ?? [])],
+          )
+        : field,
+    );
+}
+
+// Apply suggested groups of field ids (e.g. from the AI). Each group is merged
+// into its earliest field; unknown ids and ids already grouped are ignored.
+export function mergeFieldGroups(fields: PlaceholderField[], groups: string[][]): PlaceholderField[] {
+  const order = new Map(fields.map((field, index) => [field.id, index]));
+  const used = new Set<string>();
+
+  return groups.reduce((result, group) => {
+    const ids = Array.from(new Set(group))
+      .filter((id) => order.has(id) && !used.has(id))
+      .sort((a, b) => order.get(a)! - order.get(b)!);
+    if (ids.length < 2) return result;
+
+    ids.forEach((id) => used.add(id));
+    return ids.slice(1).reduce((merged, id) => linkFields(merged, id, ids[0]), result);
+  }, fields);
+}
+
+// Undo an alias grouping: one field per distinct placeholder text, in place.
+// The first group keeps the field id, so an existing answer key stays valid.
+export function splitField(
+  fields: PlaceholderField[],
+  fieldId: string,
+  occurrences: PlaceholderOccurrence[],
+): PlaceholderField[] {
+  const placeholderById = new Map(occurrences.map((occurrence) => [occurrence.id, occurrence.placeholder]));
+
+  return fields.flatMap((field) => {
+    if (field.id !== fieldId) return [field];
+
+    const byPlaceholder = new Map<string, string[]>();
+    field.occurrenceIds.forEach((occurrenceId) => {
+      const placeholder = placeholderById.get(occurrenceId) ?? field.placeholder;
+      byPlaceholder.set(placeholder, [...(byPlaceholder.get(placeholder) ?? []), occurrenceId]);
+    });
+
+    return Array.from(byPlaceholder, ([placeholder, occurrenceIds]) => ({
+      id: occurrenceIds[0],
+      placeholder,
+      occurrenceIds,
+    }));
+  });
+}
+
+// Split a linked field back into one field per occurrence, in place
+export function unlinkField(fields: PlaceholderField[], fieldId: string): PlaceholderField[] {
+  return fields.flatMap((field) =>
+    field.id === fieldId
+      ? field.occurrenceIds.map((occurrenceId) => ({
+          id: occurrenceId,
+          placeholder: field.placeholder,
+          occurrenceIds: [occurrenceId],
+        }))
+      : [field],
+  );
+}
+
+export function isCheckedValue(value: string): boolean {
+  return /^(y|yes|true|x|checked|on|1|✓|☒)$/i.test(value.trim());
+}
+
+// Content control answers: use the matching dropdown entry, read checkboxes as Yes/No.
+// Returns undefined when the occurrence isn't a control with a fixed set of values.
+export function normalizeControlValue(value: string, occurrence?: PlaceholderOccurrence): string | undefined {
+  if (occurrence?.controlType === "checkbox") {
+    return isCheckedValue(value) ? "Yes" : "No";
+  }
+  if (occurrence?.controlType === "dropdown") {
+    return occurrence.options?.find((option) => option.toLowerCase() === value.trim().toLowerCase());
+  }
+  return undefined;
+}
+
+// "header2" -> "Header 2", "footnotes" -> "Footnotes"
+export function getPartLabel(part: string): string {
+  // OpenDocument keeps every header and footer in styles.xml
+  if (part === "styles") return "Headers & footers";
+  const [, name, number] = part.match(/^([a-z]+?)s?(\d*)$/i) ?? [, part, ""];
+  const label = `${name.charAt(0).toUpperCase()}${name.slice(1)}${number ? ` ${number}` : ""}`;
+  return /^(footnote|endnote|comment)$/i.test(name) && !number ? `${label}s` : label;
+}
+
+// Strip placeholder syntax for display, e.g. "$[Amount]" -> "Amount", "{{ name }}" -> "name".
+export function getPlaceholderLabel(placeholder: string): string {
+  return placeholder
+    .replace(DELIMITER_EDGES_REGEX, "")
+    .replace(/_+/g, "")
+    .trim();
+}
+
+// Checkboxes and dropdowns have a fixed set of answers, so ask for one of them
+export function getControlQuestion(
+  placeholder: string,
+  controlType?: ControlType,
+  options?: string[],
+  source?: PlaceholderSource,
+): string | undefined {
+  const label = getPlaceholderLabel(placeholder) || "this option";
+  if (source === "condition" && controlType === "checkbox") {
+    return `Should the document include the "${label}" section? (yes/no)`;
+  }
+  if (controlType === "checkbox") {
+    return `Should "${label}" be checked? (yes/no)`;
+  }
+  if (controlType === "dropdown" && options?.length) {
+    return `Which ${label} applies? Options: ${options.join(", ")}`;
+  }
+  return undefined;
+}
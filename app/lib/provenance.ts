@@ -0,0 +1,64 @@
+// Where a filled document came from, kept in its custom document properties so a
+// copy that has left the tool can be traced back to its template and fill.
+
+import { createHash } from "crypto";
+import packageJson from "../../package.json";
+
+export const TOOL_NAME = "Clausefill AI";
+export const TOOL_VERSION: string = packageJson.version;
+
+const PROPERTY_NAMES = {
+  templateHash: "Clausefill Template SHA-256",
+  fields: "Clausefill Fields",
+  filledFields: "Clausefill Filled Fields",
+  filledAt: "Clausefill Filled At",
+  toolVersion: "Clausefill Version",
+} as const;
+
+export interface Provenance {
+  // SHA-256 of the template file as uploaded, in hex
+  templateHash: string;
+  // Every placeholder in the template, and the ones that were filled
+  fields: string[];
+  filledFields: string[];
+  filledAt: string;
+  toolVersion: string;
+}
+
+export function hashTemplate(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+// Properties hold text only, so the field lists are stored as JSON arrays
+export function getProvenanceProperties(provenance: Provenance): Record<string, string> {
+  return {
+    [PROPERTY_NAMES.templateHash]: provenance.templateHash,
+    [PROPERTY_NAMES.fields]: JSON.stringify(provenance.fields),
+    [PROPERTY_NAMES.filledFields]: JSON.stringify(provenance.filledFields),
+    [PROPERTY_NAMES.filledAt]: provenance.filledAt,
+    [PROPERTY_NAMES.toolVersion]: provenance.toolVersion,
+  };
+}
+
+function parseNameList(value: string | undefined): string[] {
+  try {
+    const parsed: unknown = JSON.parse(value ?? "");
+    return Array.isArray(parsed) ? parsed.filter((name): name is string => typeof name === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+// Documents that weren't generated here have no template hash and give null
+export function readProvenance(properties: Record<string, string>): Provenance | null {
+  const templateHash = properties[PROPERTY_NAMES.templateHash];
+  if (!templateHash) return null;
+
+  return {
+    templateHash,
+    fields: parseNameList(properties[PROPERTY_NAMES.fields]),
+    filledFields: parseNameList(properties[PROPERTY_NAMES.filledFields]),
+    filledAt: properties[PROPERTY_NAMES.filledAt] ?? "",
+    toolVersion: properties[PROPERTY_NAMES.toolVersion] ?? "",
+  };
+}
@@ -65,6 +65,17 @@ export function checkRateLimit(identifier: string): {
   };
 }
 
+// Requests are counted per client IP, taken from proxy headers when behind a load balancer
+export function getClientIP(request: Request): string {
+  const forwarded = request.headers.get("x-forwarded-for");
+  const realIp = request.headers.get("x-real-ip");
+
+  if (forwarded) return forwarded.split(",")[0].trim();
+  if (realIp) return realIp;
+  // Fallback to a generic identifier
+  return "unknown";
+}
+
 export function getRateLimitConfig() {
   return {
     windowMs: RATE_LIMIT_WINDOW_MS,
@@ -0,0 +1,59 @@
+// The sample SAFE agreement, built as a real .docx so it goes through parse-document
+// and generate-doc like any upload and can be downloaded filled.
+
+import PizZip from "pizzip";
+import { encodeXml } from "./xml";
+
+export const SAMPLE_TEMPLATE_NAME = "Sample SAFE Agreement.docx";
+
+const SAMPLE_TITLE = "SAFE Agreement";
+const SAMPLE_PARAGRAPHS = [
+  'This SAFE agreement (the "Agreement") is made on [Date of Safe] between [Company Name], a Delaware corporation (the "Company"), and [Investor Name] (the "Investor").',
+  "The Investor agrees to invest $[Investment Amount] in exchange for the right to certain shares representing {equity_percent} of the Company.",
+  "The Company will use the funds to pursue its business plan in the [Company Focus Area].",
+];
+// Placeholders are bold in the sample so they stand out in the preview
+const SAMPLE_PLACEHOLDER_REGEX = /(\$?\[[^\]]+\]|\{[^}]+\})/;
+
+const WORD_NAMESPACE = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+function run(text: string, properties = ""): string {
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ""}<w:t xml:space="preserve">${encodeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(text: string): string {
+  const runs = text
+    .split(SAMPLE_PLACEHOLDER_REGEX)
+    .filter(Boolean)
+    .map((part) => run(part, SAMPLE_PLACEHOLDER_REGEX.test(part) ? "<w:b/>" : ""));
+  return `<w:p>${runs.join("")}</w:p>`;
+}
+
+export function buildSampleTemplate(): Buffer {
+  const zip = new PizZip();
+  zip.file(
+    "[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      "</Types>",
+  );
+  zip.file(
+    "_rels/.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      "</Relationships>",
+  );
+  zip.file(
+    "word/document.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="${WORD_NAMESPACE}"><w:body>` +
+      `<w:p>${run(SAMPLE_TITLE, '<w:b/><w:sz w:val="32"/>')}</w:p>` +
+      SAMPLE_PARAGRAPHS.map(paragraph).join("") +
+      '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>' +
+      "</w:body></w:document>",
+  );
+  return zip.generate({ type: "nodebuffer", compression: "DEFLATE" }) as Buffer;
+}
@@ -0,0 +1,226 @@
+// Conditional sections: {#if name}...{:else if name == "Value"}...{:else}...{/if}.
+// Tags can sit in different paragraphs. Each condition becomes an occurrence so the
+// chat asks for it like any other field; the answers decide which text is removed.
+
+import {
+  buildSnippet,
+  getPartPrefix,
+  isCheckedValue,
+  type AnswerValue,
+  type PlaceholderOccurrence,
+} from "./placeholders";
+
+const SECTION_TAG_REGEX = /\{(?:#if\s+([^{}<]+?)|:else(?:\s+if\s+([^{}<]+?))?|(\/if))\s*\}/g;
+// has_mfn, or governing_law == "Delaware" (Word often turns the quotes into curly ones)
+const CONDITION_REGEX = /^([^=!]+?)\s*(?:==\s*(?:["“”'‘’]|&quot;)?(.*?)(?:["“”'‘’]|&quot;)?)?$/;
+
+export interface TextPosition {
+  paragraphIndex: number;
+  offset: number;
+}
+
+export interface TextRange {
+  start: TextPosition;
+  end: TextPosition;
+}
+
+export interface Condition {
+  name: string;
+  // Compared against the answer; without it the answer is read as yes/no
+  value?: string;
+}
+
+export interface SectionBranch {
+  tag: TextRange;
+  text: string;
+  // Missing for {:else}
+  condition?: Condition;
+  conditionId?: string;
+}
+
+export interface ConditionalSection {
+  part: string;
+  branches: SectionBranch[];
+  endTag: TextRange;
+}
+
+interface SectionTag extends TextRange {
+  kind: "if" | "else" | "end";
+  text: string;
+  condition?: Condition;
+}
+
+function parseCondition(expression: string): Condition | undefined {
+  const match = expression.trim().match(CONDITION_REGEX);
+  if (!match) return undefined;
+  return { name: match[1].trim(), value: match[2]?.trim() || undefined };
+}
+
+// Tags whose condition can't be read (e.g. "a != b") are left as plain text
+function readTags(paragraphs: string[]): SectionTag[] {
+  return paragraphs.flatMap((text, paragraphIndex) =>
+    Array.from(text.matchAll(SECTION_TAG_REGEX)).flatMap((match): SectionTag[] => {
+      const offset = match.index ?? 0;
+      const [tag, ifExpression, elseIfExpression, end] = match;
+      const expression = ifExpression ?? elseIfExpression;
+      const condition = expression ? parseCondition(expression) : undefined;
+      if (expression && !condition) return [];
+
+      return [{
+        kind: end ? "end" : ifExpression ? "if" : "else",
+        text: tag,
+        condition,
+        start: { paragraphIndex, offset },
+        end: { paragraphIndex, offset: offset + tag.length },
+      }];
+    }),
+  );
+}
+
+function comparePositions(a: TextPosition, b: TextPosition): number {
+  return a.paragraphIndex - b.paragraphIndex || a.offset - b.offset;
+}
+
+// Match tags into sections. Stray {:else} or {/if} tags are left as plain text,
+// as is an {#if} that is never closed.
+export function readSections(paragraphs: string[], part: string): ConditionalSection[] {
+  const sections: ConditionalSection[] = [];
+  const stack: { branches: SectionBranch[]; hasElse: boolean }[] = [];
+
+  readTags(paragraphs).forEach((tag) => {
+    const branch: SectionBranch = { tag: { start: tag.start, end: tag.end }, text: tag.text, condition: tag.condition };
+    const open = stack[stack.length - 1];
+
+    if (tag.kind === "if") {
+      stack.push({ branches: [branch], hasElse: false });
+    } else if (tag.kind === "else") {
+      if (open && !open.hasElse) {
+        open.branches.push(branch);
+        open.hasElse = !tag.condition;
+      }
+    } else if (open) {
+      stack.pop();
+      sections.push({ part, branches: open.branches, endTag: { start: tag.start, end: tag.end } });
+    }
+  });
+
+  // Conditions are numbered in document order so ids are stable across parses
+  const prefix = getPartPrefix(part);
+  sections.sort((a, b) => comparePositions(a.branches[0].tag.start, b.branches[0].tag.start));
+  sections
+    .flatMap((section) => section.branches)
+    .filter((branch) => branch.condition)
+    .sort((a, b) => comparePositions(a.tag.start, b.tag.start))
+    .forEach((branch, index) => {
+      branch.conditionId = `${prefix}if${index}`;
+    });
+
+  return sections;
+}
+
+// One occurrence per condition. Names compared against values become a choice
+// between every value the template mentions; bare names are yes/no questions.
+export function getConditionOccurrences(
+  sections: ConditionalSection[],
+  paragraphs: string[],
+  part: string,
+): PlaceholderOccurrence[] {
+  const branches = sections.flatMap((section) => section.branches).filter((branch) => branch.conditionId);
+  const optionsByName = new Map<string, string[]>();
+  branches.forEach(({ condition }) => {
+    if (condition?.value === undefined) return;
+    const options = optionsByName.get(condition.name) ?? [];
+    if (!options.includes(condition.value)) options.push(condition.value);
+    optionsByName.set(condition.name, options);
+  });
+
+  return branches
+    .map(({ tag, text, condition, conditionId }): PlaceholderOccurrence => {
+      const options = optionsByName.get(condition!.name);
+      return {
+        id: conditionId!,
+        placeholder: condition!.name,
+        part,
+        paragraphIndex: tag.start.paragraphIndex,
+        offset: tag.start.offset,
+        snippet: buildSnippet(paragraphs[tag.start.paragraphIndex] ?? text, tag.start.offset, tag.end.offset),
+        source: "condition",
+        displayText: text,
+        controlType: options ? "dropdown" : "checkbox",
+        options,
+      };
+    })
+    .sort((a, b) => a.paragraphIndex - b.paragraphIndex || a.offset - b.offset);
+}
+
+function isBranchTaken(condition: Condition, value: AnswerValue | undefined): boolean | undefined {
+  if (typeof value !== "string") return undefined;
+  if (condition.value === undefined) return isCheckedValue(value);
+  return value.trim().toLowerCase() === condition.value.toLowerCase();
+}
+
+// Index of the branch that stays, -1 when none does, undefined while a deciding answer is missing
+function getChosenBranch(section: ConditionalSection, values: Record<string, AnswerValue>): number | undefined {
+  for (let index = 0; index < section.branches.length; index++) {
+    const { condition, conditionId } = section.branches[index];
+    if (!condition) return index;
+
+    const taken = isBranchTaken(condition, values[conditionId!]);
+    if (taken === undefined) return undefined;
+    if (taken) return index;
+  }
+  return -1;
+}
+
+// Text to remove for the given answers: the tags of decided sections and every branch
+// that wasn't chosen. Undecided sections stay as they are. Ranges are sorted and merged.
+export function getRemovedRanges(sections: ConditionalSection[], values: Record<string, AnswerValue>): TextRange[] {
+  const ranges: TextRange[] = [];
+
+  sections.forEach((section) => {
+    const chosen = getChosenBranch(section, values);
+    if (chosen === undefined) return;
+
+    section.branches.forEach((branch, index) => {
+      const next = section.branches[index + 1]?.tag.start ?? section.endTag.start;
+      ranges.push(index === chosen ? branch.tag : { start: branch.tag.start, end: next });
+    });
+    ranges.push(section.endTag);
+  });
+
+  return ranges
+    .sort((a, b) => comparePositions(a.start, b.start))
+    .reduce<TextRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && comparePositions(range.start, last.end) <= 0) {
+        if (comparePositions(range.end, last.end) > 0) last.end = range.end;
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+}
+
+export function isPositionRemoved(position: TextPosition, ranges: TextRange[]): boolean {
+  return ranges.some(
+    (range) => comparePositions(position, range.start) >= 0 && comparePositions(position, range.end) < 0,
+  );
+}
+
+// Apply sections to a flat string such as the preview HTML. conditionIds gives the id
+// of each condition tag in the order it appears, since the string has no paragraph map.
+export function applySectionsToText(text: string, conditionIds: string[], values: Record<string, AnswerValue>): string {
+  const sections = readSections([text], "");
+  const branches = sections
+    .flatMap((section) => section.branches)
+    .filter((branch) => branch.conditionId)
+    .sort((a, b) => a.tag.start.offset - b.tag.start.offset);
+  branches.forEach((branch, index) => {
+    branch.conditionId = conditionIds[index] ?? `unmapped${index}`;
+  });
+
+  return getRemovedRanges(sections, values).reduceRight(
+    (result, range) => result.slice(0, range.start.offset) + result.slice(range.end.offset),
+    text,
+  );
+}
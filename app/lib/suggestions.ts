@@ -0,0 +1,129 @@
+// Answers the user may not need to type: the company named in the signature block, the
+// state in "a Delaware corporation", an email given for an earlier field. The batch
+// question route asks the AI for them; the document and the answers so far are also
+// read here, so there are suggestions without it.
+
+import { getFieldType, type FieldType } from "./answer-validation";
+import { getPlaceholderLabel } from "./placeholders";
+
+export const MAX_SUGGESTIONS = 3;
+const MAX_SUGGESTION_LENGTH = 200;
+
+export interface SuggestedAnswer {
+  value: string;
+  // Short, shown under the value: "From \"a Delaware corporation\""
+  reason: string;
+}
+
+// An earlier answer, with the placeholder it was given for
+export interface PreviousAnswer {
+  placeholder: string;
+  value: string;
+}
+
+// Still a template placeholder, not a value: "[Company Name]", "{{ name }}", "____"
+function isPlaceholderText(value: string): boolean {
+  return /[[\]{}«»]|<<|>>|%%|_{3,}/.test(value);
+}
+
+// Model output and merged lists: placeholder-free values, each once, at most three
+export function parseSuggestions(value: unknown): SuggestedAnswer[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value
+    .flatMap((item): SuggestedAnswer[] => {
+      const text = typeof item === "string" ? item : item?.value;
+      if (typeof text !== "string") return [];
+      const trimmed = text.trim();
+      const key = trimmed.toLowerCase();
+      if (!trimmed || trimmed.length > MAX_SUGGESTION_LENGTH || isPlaceholderText(trimmed) || seen.has(key)) return [];
+      seen.add(key);
+      return [{ value: trimmed, reason: typeof item?.reason === "string" ? item.reason.trim() : "" }];
+    })
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// "Acme Robotics, Inc.", "ACME ROBOTICS LLC": capitalized words ending in an entity suffix
+const ENTITY_REGEX =
+  /\b[A-Z][A-Za-z0-9&'’.-]*(?:,? [A-Z][A-Za-z0-9&'’.-]*)*?,? (?:Inc\.?|INC\.?|Corp\.?|CORP\.?|Corporation|CORPORATION|LLC|L\.L\.C\.|Ltd\.?|LTD\.?|Limited|LLP|L\.P\.|LP|GmbH)(?![A-Za-z])/g;
+// Words that start a sentence rather than a name, as in "WHEREAS, Acme Inc."
+const ENTITY_LEAD_REGEX = /^(?:(?:the|this|that|each|such|said|whereas|between|and)\b,?\s*)+/i;
+// "a Delaware corporation", "a New York limited liability company"
+const ENTITY_STATE_REGEX =
+  /\ban? ([A-Z][a-z]+(?: [A-Z][a-z]+)?) (?:public benefit corporation|corporation|limited liability company|limited partnership|general partnership)/g;
+// "the laws of the State of California"
+const GOVERNING_LAW_REGEX = /\blaws of the (?:State|Commonwealth) of ([A-Z][a-z]+(?: [A-Z][a-z]+)?)/g;
+const EMAIL_REGEX = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE_REGEX = /(?:\+\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g;
+
+// Most frequent first, since a name repeated through the document is the likely one
+function byFrequency(matches: { value: string; reason: string }[]): SuggestedAnswer[] {
+  const counts = new Map<string, { suggestion: SuggestedAnswer; count: number }>();
+  matches.forEach((match) => {
+    const key = match.value.toLowerCase();
+    const entry = counts.get(key) ?? { suggestion: match, count: 0 };
+    counts.set(key, { ...entry, count: entry.count + 1 });
+  });
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .map((entry) => entry.suggestion);
+}
+
+// Values the template text itself gives for the placeholder
+export function findDocumentSuggestions(placeholder: string, text: string, type: FieldType = getFieldType(placeholder)): SuggestedAnswer[] {
+  const label = getPlaceholderLabel(placeholder).toLowerCase();
+
+  if (/state|jurisdiction|incorporat|governing law/.test(label)) {
+    return parseSuggestions(byFrequency([
+      ...Array.from(text.matchAll(ENTITY_STATE_REGEX), (match) => ({ value: match[1], reason: `From "${match[0].trim()}"` })),
+      ...Array.from(text.matchAll(GOVERNING_LAW_REGEX), (match) => ({ value: match[1], reason: `From "${match[0].trim()}"` })),
+    ]));
+  }
+
+  switch (type) {
+    case "company":
+      return parseSuggestions(byFrequency(
+        Array.from(text.matchAll(ENTITY_REGEX), (match) => match[0].replace(ENTITY_LEAD_REGEX, ""))
+          .filter((name) => /^[A-Z][A-Za-z0-9&'’.-]*,? \S/.test(name))
+          .map((name) => ({ value: name, reason: "Named in the document" })),
+      ));
+    case "email":
+      return parseSuggestions(byFrequency(
+        Array.from(text.matchAll(EMAIL_REGEX), (match) => ({ value: match[0], reason: "Appears in the document" })),
+      ));
+    case "phone":
+      return parseSuggestions(byFrequency(
+        Array.from(text.matchAll(PHONE_REGEX), (match) => ({ value: match[0].trim(), reason: "Appears in the document" })),
+      ));
+    default:
+      return [];
+  }
+}
+
+function getWords(placeholder: string): Set<string> {
+  return new Set(getPlaceholderLabel(placeholder).toLowerCase().match(/[a-z]{3,}/g) ?? []);
+}
+
+// Earlier answers of the same kind, those whose labels share a word first:
+// the investor's email is the likely answer to "[Investor Notice Email]"
+export function findAnswerSuggestions(placeholder: string, previous: PreviousAnswer[], type: FieldType = getFieldType(placeholder)): SuggestedAnswer[] {
+  if (type === "other") return [];
+  const words = getWords(placeholder);
+  const sharedWords = (answer: PreviousAnswer) =>
+    Array.from(getWords(answer.placeholder)).filter((word) => words.has(word)).length;
+
+  return parseSuggestions(
+    previous
+      .filter((answer) => answer.value.trim() && getFieldType(answer.placeholder) === type)
+      .sort((a, b) => sharedWords(b) - sharedWords(a))
+      .map((answer) => ({
+        value: answer.value,
+        reason: `Your answer for "${getPlaceholderLabel(answer.placeholder) || answer.placeholder}"`,
+      })),
+  );
+}
+
+// First list wins on duplicates; three at most
+export function mergeSuggestions(...lists: SuggestedAnswer[][]): SuggestedAnswer[] {
+  return parseSuggestions(lists.flat());
+}
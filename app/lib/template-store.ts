@@ -0,0 +1,204 @@
+// Uploaded templates kept on the server between parse-document and generate-doc, so
+// downloads send a template id instead of the whole file. Stores are pluggable; the
+// filesystem one is the default. Templates expire after a TTL and are swept on save;
+// the oldest are evicted early when the store reaches its size or entry limit.
+
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+export interface StoredTemplate {
+  data: Buffer;
+  filename: string;
+  createdAt: number;
+}
+
+export interface TemplateStore {
+  // Returns the new template's id
+  save: (data: Buffer, filename: string) => Promise<string>;
+  // null once the template has expired or never existed
+  load: (id: string) => Promise<StoredTemplate | null>;
+  // Remove every expired template
+  cleanup: () => Promise<void>;
+}
+
+// Anyone can parse a document, so what the store holds is bounded: saving past either
+// limit evicts the oldest templates first
+export interface TemplateStoreLimits {
+  maxBytes: number;
+  maxEntries: number;
+}
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000; // 1 hour
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+const DEFAULT_LIMITS: TemplateStoreLimits = { maxBytes: 256 * 1024 * 1024, maxEntries: 500 };
+const ID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Ids come from clients, and the filesystem store turns them into paths
+export function isTemplateId(value: unknown): value is string {
+  return typeof value === "string" && ID_REGEX.test(value);
+}
+
+// Templates to evict, oldest first, so that one more of the given size fits
+function getEvictions<T extends { size: number; createdAt: number }>(
+  templates: T[],
+  incoming: number,
+  limits: TemplateStoreLimits,
+): T[] {
+  if (incoming > limits.maxBytes) throw new Error("Template is larger than the store allows");
+  let totalBytes = templates.reduce((total, template) => total + template.size, 0);
+  let count = templates.length;
+  return [...templates]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .filter((template) => {
+      if (count < limits.maxEntries && totalBytes + incoming <= limits.maxBytes) return false;
+      totalBytes -= template.size;
+      count--;
+      return true;
+    });
+}
+
+// Sweep at most once per interval, from whichever call comes first
+function throttleCleanup(cleanup: () => Promise<void>): () => void {
+  let lastRun = 0;
+  return () => {
+    if (Date.now() - lastRun < CLEANUP_INTERVAL_MS) return;
+    lastRun = Date.now();
+    cleanup().catch((error) => console.error("Failed to clean up templates", error));
+  };
+}
+
+export function createMemoryTemplateStore(ttlMs = DEFAULT_TTL_MS, limits = DEFAULT_LIMITS): TemplateStore {
+  const templates = new Map<string, StoredTemplate>();
+  const isExpired = (template: StoredTemplate) => Date.now() - template.createdAt > ttlMs;
+
+  const cleanup = async () => {
+    for (const [id, template] of templates.entries()) {
+      if (isExpired(template)) templates.delete(id);
+    }
+  };
+  const scheduleCleanup = throttleCleanup(cleanup);
+
+  return {
+    async save(data, filename) {
+      scheduleCleanup();
+      const stored = Array.from(templates, ([id, template]) => ({ id, size: template.data.length, createdAt: template.createdAt }));
+      getEvictions(stored, data.length, limits).forEach(({ id }) => templates.delete(id));
+      const id = randomUUID();
+      templates.set(id, { data, filename, createdAt: Date.now() });
+      return id;
+    },
+    async load(id) {
+      const template = templates.get(id);
+      if (!template || isExpired(template)) {
+        templates.delete(id);
+        return null;
+      }
+      return template;
+    },
+    cleanup,
+  };
+}
+
+// Each template is two files: <id>.bin with the document and <id>.json with its name
+// and creation time
+export function createFileSystemTemplateStore(
+  directory: string,
+  ttlMs = DEFAULT_TTL_MS,
+  limits = DEFAULT_LIMITS,
+): TemplateStore {
+  const getPath = (id: string, extension: string) => path.join(directory, `${id}${extension}`);
+  const remove = (id: string) =>
+    Promise.all([".bin", ".json"].map((extension) => fs.rm(getPath(id, extension), { force: true })));
+
+  const readMeta = async (id: string): Promise<{ filename: string; createdAt: number } | null> => {
+    try {
+      return JSON.parse(await fs.readFile(getPath(id, ".json"), "utf-8"));
+    } catch {
+      return null;
+    }
+  };
+
+  const listIds = async () => {
+    const entries = await fs.readdir(directory).catch(() => [] as string[]);
+    return entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map((entry) => entry.slice(0, -".json".length))
+      .filter(isTemplateId);
+  };
+
+  const cleanup = async () => {
+    for (const id of await listIds()) {
+      const meta = await readMeta(id);
+      if (!meta || Date.now() - meta.createdAt > ttlMs) await remove(id);
+    }
+  };
+  const scheduleCleanup = throttleCleanup(cleanup);
+
+  return {
+    async save(data, filename) {
+      scheduleCleanup();
+      const stored = await Promise.all(
+        (await listIds()).map(async (id) => ({
+          id,
+          size: await fs.stat(getPath(id, ".bin")).then((stats) => stats.size, () => 0),
+          createdAt: (await readMeta(id))?.createdAt ?? 0,
+        })),
+      );
+      await Promise.all(getEvictions(stored, data.length, limits).map(({ id }) => remove(id)));
+      const id = randomUUID();
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(getPath(id, ".bin"), data);
+      await fs.writeFile(getPath(id, ".json"), JSON.stringify({ filename, createdAt: Date.now() }));
+      return id;
+    },
+    async load(id) {
+      if (!isTemplateId(id)) return null;
+      const meta = await readMeta(id);
+      if (!meta) return null;
+      if (Date.now() - meta.createdAt > ttlMs) {
+        await remove(id);
+        return null;
+      }
+      try {
+        return { data: await fs.readFile(getPath(id, ".bin")), ...meta };
+      } catch {
+        return null;
+      }
+    },
+    cleanup,
+  };
+}
+
+let store: TemplateStore | undefined;
+
+// TEMPLATE_STORE picks the store ("filesystem" or "memory"), TEMPLATE_STORE_DIR where
+// the filesystem store writes, TEMPLATE_TTL_MINUTES how long templates are kept and
+// TEMPLATE_STORE_MAX_MB / TEMPLATE_STORE_MAX_ENTRIES how much it holds
+export function getTemplateStore(): TemplateStore {
+  if (!store) {
+    const ttlMinutes = Number(process.env.TEMPLATE_TTL_MINUTES);
+    const ttlMs = ttlMinutes > 0 ? ttlMinutes * 60 * 1000 : DEFAULT_TTL_MS;
+    const maxMegabytes = Number(process.env.TEMPLATE_STORE_MAX_MB);
+    const maxEntries = Number(process.env.TEMPLATE_STORE_MAX_ENTRIES);
+    const limits = {
+      maxBytes: maxMegabytes > 0 ? maxMegabytes * 1024 * 1024 : DEFAULT_LIMITS.maxBytes,
+      maxEntries: maxEntries > 0 ? Math.floor(maxEntries) : DEFAULT_LIMITS.maxEntries,
+    };
+    store =
+      process.env.TEMPLATE_STORE === "memory"
+        ? createMemoryTemplateStore(ttlMs, limits)
+        : createFileSystemTemplateStore(
+            process.env.TEMPLATE_STORE_DIR || path.join(os.tmpdir(), "clausefill-templates"),
+            ttlMs,
+            limits,
+          );
+  }
+  return store;
+}
+
+// Another backend (a bucket, a database) can be plugged in at startup
+export function setTemplateStore(templateStore: TemplateStore): void {
+  store = templateStore;
+}
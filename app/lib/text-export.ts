@@ -0,0 +1,174 @@
+// Markdown, plain-text and standalone HTML exports of the filled document, written
+// from the same HTML the PDF is rendered from so every output shows the same text.
+
+import { decodeHtml, readHtmlBlocks, type HtmlBlock, type TextRun } from "./html-blocks";
+import { encodeXml } from "./xml";
+
+const MARKDOWN_SPECIAL_REGEX = /([\\`*_[\]<>|])/g;
+
+// Kept in the standalone HTML; everything else is unwrapped to its text
+const ALLOWED_TAGS = [
+  "h1", "h2", "h3", "h4", "h5", "h6", "p", "br", "strong", "b", "em", "i", "u", "s", "sub", "sup",
+  "ul", "ol", "li", "table", "thead", "tbody", "tr", "th", "td", "a", "blockquote",
+];
+// Dropped together with their content
+const REMOVED_TAGS = ["script", "style", "iframe", "object", "embed", "template", "noscript", "svg", "math"];
+const HTML_TAG_REGEX = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b([^>]*)>|([^<]+|<)/g;
+const ATTRIBUTE_REGEX = /([a-zA-Z-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const STANDALONE_STYLE =
+  "body{font-family:Georgia,serif;max-width:48rem;margin:2rem auto;padding:0 1rem;line-height:1.5}" +
+  "table{border-collapse:collapse}td,th{border:1px solid #999;padding:.25rem .5rem;vertical-align:top}";
+
+// Consecutive runs with the same emphasis, so markers wrap whole phrases
+function groupRuns(runs: TextRun[]): TextRun[] {
+  return runs.reduce<TextRun[]>((groups, run) => {
+    const last = groups[groups.length - 1];
+    if (last && !!last.bold === !!run.bold && !!last.italic === !!run.italic) last.text += run.text;
+    else groups.push({ ...run });
+    return groups;
+  }, []);
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(MARKDOWN_SPECIAL_REGEX, "\\$1");
+}
+
+// Text that would otherwise start a heading, quote, list or numbered item
+function escapeMarkdownLineStart(text: string): string {
+  return text.replace(/^(\s*)([#>+-])/gm, "$1\\$2").replace(/^(\s*\d+)([.)])(?=\s|$)/gm, "$1\\$2");
+}
+
+function formatMarkdownRuns(runs: TextRun[], lineBreak: string): string {
+  return groupRuns(runs)
+    .map(({ text, bold, italic }) => {
+      const marker = `${bold ? "**" : ""}${italic ? "_" : ""}`;
+      return text
+        .split("\n")
+        .map((line) => {
+          // Markers can't sit against whitespace, so spaces stay outside them
+          const [, leading, body, trailing] = line.match(/^(\s*)(.*?)(\s*)$/) ?? ["", "", line, ""];
+          const escaped = escapeMarkdown(body);
+          return `${leading}${body && marker ? `${marker}${escaped}${marker.split("").reverse().join("")}` : escaped}${trailing}`;
+        })
+        .join(lineBreak);
+    })
+    .join("")
+    .trim();
+}
+
+function formatPlainRuns(runs: TextRun[], lineBreak = "\n"): string {
+  return runs
+    .map((run) => run.text)
+    .join("")
+    .split("\n")
+    .map((line) => line.trim())
+    .join(lineBreak)
+    .trim();
+}
+
+// List items sit on consecutive lines; every other block is separated by a blank line
+function joinBlocks(blocks: HtmlBlock[], render: (block: HtmlBlock) => string): string {
+  return blocks
+    .map((block, index) => {
+      const text = render(block);
+      if (index === 0) return text;
+      const separator = block.type === "listItem" && blocks[index - 1].type === "listItem" ? "\n" : "\n\n";
+      return `${separator}${text}`;
+    })
+    .join("")
+    .concat("\n");
+}
+
+function renderMarkdownTable(rows: TextRun[][][]): string {
+  const columns = Math.max(...rows.map((row) => row.length));
+  const lines = rows.map(
+    (row) =>
+      `| ${Array.from({ length: columns }, (_, index) => formatMarkdownRuns(row[index] ?? [], "<br>")).join(" | ")} |`,
+  );
+  // GFM tables need a header row; the first row of the document's table takes that place
+  lines.splice(1, 0, `| ${Array(columns).fill("---").join(" | ")} |`);
+  return lines.join("\n");
+}
+
+export function renderMarkdown(html: string): string {
+  return joinBlocks(readHtmlBlocks(html), (block) => {
+    if (block.type === "table") return renderMarkdownTable(block.rows);
+    if (block.type === "listItem") {
+      const indent = "    ".repeat(block.depth);
+      const marker = block.marker === "•" ? "-" : block.marker;
+      return `${indent}${marker} ${formatMarkdownRuns(block.runs, `  \n${indent}    `)}`;
+    }
+    if (block.headingLevel) return `${"#".repeat(block.headingLevel)} ${formatMarkdownRuns(block.runs, " ")}`;
+    return escapeMarkdownLineStart(formatMarkdownRuns(block.runs, "  \n"));
+  });
+}
+
+// Table cells are separated by tabs so rows paste into a spreadsheet
+export function renderPlainText(html: string): string {
+  return joinBlocks(readHtmlBlocks(html), (block) => {
+    if (block.type === "table") {
+      return block.rows.map((row) => row.map((cell) => formatPlainRuns(cell, " ")).join("\t")).join("\n");
+    }
+    if (block.type === "listItem") {
+      const indent = "  ".repeat(block.depth);
+      return `${indent}${block.marker} ${formatPlainRuns(block.runs, `\n${indent}  `)}`;
+    }
+    return formatPlainRuns(block.runs);
+  });
+}
+
+function sanitizeAttributes(name: string, attributes: string): string {
+  return Array.from(attributes.matchAll(ATTRIBUTE_REGEX))
+    .map(([, rawAttribute, doubleQuoted, singleQuoted]) => {
+      const attribute = rawAttribute.toLowerCase();
+      const value = decodeHtml(doubleQuoted ?? singleQuoted ?? "").trim();
+      const isSafe =
+        (name === "a" && attribute === "href" && /^(?:https?:|mailto:|#)/i.test(value)) ||
+        ((name === "td" || name === "th") && (attribute === "colspan" || attribute === "rowspan") && /^\d+$/.test(value));
+      return isSafe ? ` ${attribute}="${encodeXml(value).replace(/"/g, "&quot;")}"` : "";
+    })
+    .join("");
+}
+
+// Only structural tags survive: no scripts, styles, event handlers or embedded images
+function sanitizeHtml(html: string): string {
+  let removedDepth = 0;
+  let result = "";
+
+  for (const match of html.matchAll(HTML_TAG_REGEX)) {
+    const [token, closing, rawName, attributes, text] = match;
+    if (text !== undefined) {
+      if (!removedDepth) result += encodeXml(decodeHtml(text));
+      continue;
+    }
+    if (!rawName) continue; // comment
+
+    const name = rawName.toLowerCase();
+    if (REMOVED_TAGS.includes(name)) {
+      if (!token.endsWith("/>")) removedDepth = Math.max(0, removedDepth + (closing ? -1 : 1));
+    } else if (!removedDepth && ALLOWED_TAGS.includes(name)) {
+      if (name === "br") result += "<br />";
+      else result += closing ? `</${name}>` : `<${name}${sanitizeAttributes(name, attributes)}>`;
+    }
+  }
+
+  return result;
+}
+
+export function renderStandaloneHtml(html: string, title = ""): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${encodeXml(title)}</title>`,
+    `<style>${STANDALONE_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    sanitizeHtml(html),
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
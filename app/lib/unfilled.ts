@@ -0,0 +1,50 @@
+// What generate-doc does with placeholders that have no answer: one policy for
+// the request, optionally overridden per field (sent as occurrence ids).
+
+export type UnfilledPolicy = "leave" | "highlight" | "blank" | "marker" | "reject";
+
+export const DEFAULT_UNFILLED_POLICY: UnfilledPolicy = "leave";
+export const BLANK_LINE = "____________________";
+export const COMPLETION_MARKER = "[TO BE COMPLETED]";
+
+export const UNFILLED_POLICIES: { id: UnfilledPolicy; label: string; description: string }[] = [
+  { id: "leave", label: "Leave as is", description: "Unfilled placeholders stay in the document as written" },
+  { id: "highlight", label: "Highlight", description: "Unfilled placeholders stay, highlighted in yellow" },
+  { id: "blank", label: "Blank line", description: `Unfilled placeholders become a blank line (${BLANK_LINE})` },
+  { id: "marker", label: COMPLETION_MARKER, description: `Unfilled placeholders become ${COMPLETION_MARKER}` },
+  { id: "reject", label: "Require answers", description: "The download is refused while any placeholder is unfilled" },
+];
+
+export interface UnfilledPolicies {
+  policy: UnfilledPolicy;
+  // Per-occurrence overrides
+  fields: Record<string, UnfilledPolicy>;
+}
+
+export function isUnfilledPolicy(value: unknown): value is UnfilledPolicy {
+  return UNFILLED_POLICIES.some((policy) => policy.id === value);
+}
+
+// Request body: { policy, fields: { [occurrenceId]: policy } }; unknown policies are ignored
+export function parseUnfilledPolicies(value: unknown): UnfilledPolicies {
+  const { policy, fields } = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  return {
+    policy: isUnfilledPolicy(policy) ? policy : DEFAULT_UNFILLED_POLICY,
+    fields: Object.fromEntries(
+      Object.entries(fields && typeof fields === "object" ? fields : {}).filter(
+        (entry): entry is [string, UnfilledPolicy] => isUnfilledPolicy(entry[1]),
+      ),
+    ),
+  };
+}
+
+export function getUnfilledPolicy(policies: UnfilledPolicies, occurrenceId: string): UnfilledPolicy {
+  return policies.fields[occurrenceId] ?? policies.policy;
+}
+
+// Text written in place of the placeholder; highlight, leave and reject keep it
+export function getUnfilledText(policy: UnfilledPolicy): string | undefined {
+  if (policy === "blank") return BLANK_LINE;
+  if (policy === "marker") return COMPLETION_MARKER;
+  return undefined;
+}
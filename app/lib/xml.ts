@@ -0,0 +1,41 @@
+// Minimal string-level XML helpers. Templates are edited in place as text so
+// everything we don't touch is written back byte-for-byte.
+
+export interface XmlEdit {
+  start: number;
+  end: number;
+  value: string;
+}
+
+export function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// Apply non-overlapping edits in one pass over the XML, so the cost doesn't grow
+// with the number of edits times the size of the part
+export function applyEdits(xml: string, edits: XmlEdit[]): string {
+  const chunks: string[] = [];
+  let cursor = 0;
+  // Insertions at one position go in reverse order, as they did when applied last first
+  edits
+    .map((edit, index) => ({ ...edit, index }))
+    .sort((a, b) => a.start - b.start || a.end - b.end || b.index - a.index)
+    .forEach(({ start, end, value }) => {
+      chunks.push(xml.slice(cursor, start), value);
+      cursor = end;
+    });
+  chunks.push(xml.slice(cursor));
+  return chunks.join("");
+}
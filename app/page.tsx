@@ -3,39 +3,105 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ThemeToggle } from "./components/ThemeToggle";
 import ReactMarkdown from "react-markdown";
-
-// Enhanced regex to match common placeholder patterns:
-// - [Company Name], $[Amount], {variable}
-// - Standalone underscores: ___ (3+)
-// - Empty brackets: [ ], [  ]
-// - Common indicators: [TBD], [INSERT], [FILL IN]
-const PLACEHOLDER_REGEX = /\$?\[[^\]]*\]|\{[^}]+\}|_{3,}|\[TBD\]|\[INSERT\]|\[FILL IN\]/gi;
-const MAX_FILE_SIZE_BYTES = 4 * 1024 * 1024; // 4MB limit for Vercel serverless
-
-const sampleTemplateText = `SAFE Agreement
-
-This SAFE agreement (the "Agreement") is made on [Date of Safe] between [Company Name], a Delaware corporation (the "Company"), and [Investor Name] (the "Investor").
-
-The Investor agrees to invest $[Investment Amount] in exchange for the right to certain shares representing {equity_percent} of the Company.
-
-The Company will use the funds to pursue its business plan in the [Company Focus Area].`;
-
-const sampleTemplateHtml = `
-  <h2>Sample SAFE Agreement</h2>
-  <p>
-    This SAFE agreement (the <em>"Agreement"</em>) is made on <strong>[Date of Safe]</strong>
-    between <strong>[Company Name]</strong>, a Delaware corporation (the
-    <em>"Company"</em>), and <strong>[Investor Name]</strong> (the <em>"Investor"</em>).
-  </p>
-  <p>
-    The Investor agrees to invest <strong>$[Investment Amount]</strong> in exchange for
-    the right to certain shares representing <strong>{equity_percent}</strong> of the Company.
-  </p>
-  <p>
-    The Company will use the funds to pursue its business plan in the
-    <strong>[Company Focus Area]</strong>.
-  </p>
-`;
+import {
+  BODY_PART,
+  formatAnswer,
+  getControlQuestion,
+  getOccurrenceValues,
+  getPartLabel,
+  getPlaceholderLabel,
+  groupOccurrences,
+  isAnonymousPlaceholder,
+  isCheckedValue,
+  getCanonicalName,
+  linkFields,
+  mergeFieldGroups,
+  normalizeControlValue,
+  splitField,
+  unlinkField,
+  type AnswerRecord,
+  type AnswerValue,
+  type PlaceholderField,
+  type PlaceholderOccurrence,
+} from "./lib/placeholders";
+import {
+  applySectionsToText,
+  getRemovedRanges,
+  isPositionRemoved,
+  type ConditionalSection,
+} from "./lib/sections";
+import {
+  applyLoopsToText,
+  getLoopItemQuestion,
+  getLoopMoreQuestion,
+  getLoopStartQuestion,
+} from "./lib/loops";
+import { encodeXml } from "./lib/xml";
+import { MAX_TEMPLATE_BYTES } from "./lib/formats";
+import type { FieldLog, QuestionSource } from "./lib/fill-report";
+import { DEFAULT_UNFILLED_POLICY, UNFILLED_POLICIES, type UnfilledPolicy } from "./lib/unfilled";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  formatAmount,
+  parseAmount,
+  type AmountStyle,
+  type CurrencyCode,
+} from "./lib/amounts";
+import {
+  DATE_FORMATS,
+  DEFAULT_DATE_FORMAT,
+  DEFAULT_DATE_ORDER,
+  formatDate,
+  parseDate,
+  type DateFormat,
+  type DateOrder,
+} from "./lib/dates";
+import {
+  BULK_REPORT_NAME,
+  parseBulkFile,
+  ROW_NUMBER_TOKEN,
+  suggestColumnMapping,
+  type BulkRowResult,
+  type BulkTable,
+} from "./lib/bulk";
+import type { Provenance } from "./lib/provenance";
+import type { BlankSuggestion } from "./lib/implicit-blanks";
+import { shouldExtract, type ExtractedValue } from "./lib/extract-answers";
+import { getFieldType, readConstraints, validateAnswer } from "./lib/answer-validation";
+import {
+  findAnswerSuggestions,
+  findDocumentSuggestions,
+  mergeSuggestions,
+  parseSuggestions,
+  type SuggestedAnswer,
+} from "./lib/suggestions";
+import {
+  buildPlaceholderRegex,
+  DEFAULT_SYNTAX_PROFILE,
+  escapeRegExp,
+  SYNTAX_EXAMPLES,
+  SYNTAX_PRESETS,
+  type SyntaxProfile,
+} from "./lib/placeholder-syntax";
+
+// mammoth renders the body and its notes, but not headers, footers or comments
+const PREVIEW_PARTS = [BODY_PART, "footnotes", "endnotes"];
+// The session as of the last change, so a refresh picks up where the user left off.
+// The template itself stays on the server under its templateId.
+const SESSION_STORAGE_KEY = "clausefill-session";
+
+// Hand a generated file to the browser as a download
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+};
 
 const formatBytes = (value: number) => {
   if (!value) return "0 B";
@@ -44,6 +110,116 @@ const formatBytes = (value: number) => {
   return `${(value / Math.pow(1024, index)).toFixed(1)} ${units[index]}`;
 };
 
+// Deterministic question used when the question APIs are unavailable
+const getFallbackQuestion = (placeholder: string, occurrence?: PlaceholderOccurrence) => {
+  if (occurrence?.source === "loop") return getLoopStartQuestion(placeholder, occurrence.itemFields ?? []);
+  const context = occurrence?.snippet;
+  if (context && isAnonymousPlaceholder(placeholder)) {
+    return `What should go in the blank in "${context}"?`;
+  }
+  const controlQuestion = getControlQuestion(placeholder, occurrence?.controlType, occurrence?.options, occurrence?.source);
+  if (controlQuestion) return controlQuestion;
+  return `What is the ${getPlaceholderLabel(placeholder) || "this value"}?`;
+};
+
+// Item fields of every loop in a field, one per canonical name
+const getFieldItemFields = (field: PlaceholderField, occurrencesById: Map<string, PlaceholderOccurrence>) => {
+  const itemFields = new Map<string, string>();
+  field.occurrenceIds.forEach((id) =>
+    occurrencesById.get(id)?.itemFields?.forEach((placeholder) => {
+      const name = getCanonicalName(placeholder);
+      if (!itemFields.has(name)) itemFields.set(name, placeholder);
+    }),
+  );
+  return Array.from(itemFields.values());
+};
+
+// A loop being answered: records so far, and the item field being asked
+// (itemIndex past the last item field means "add another?")
+interface LoopDraft {
+  records: AnswerRecord[];
+  current: AnswerRecord;
+  itemIndex: number;
+}
+
+// A parsed document held back while the user reviews the blanks parse-document proposed
+interface BlankReview {
+  name: string;
+  html: string;
+  text: string;
+  occurrences: PlaceholderOccurrence[];
+  fields?: PlaceholderField[];
+  // Document parts in the order their occurrences are listed
+  parts: string[];
+  suggestions: BlankSuggestion[];
+  accepted: Record<string, boolean>;
+}
+
+// Values for several fields found in one reply, shown for confirmation before they're saved
+interface PendingExtraction {
+  input: string;
+  values: ExtractedValue[];
+  accepted: Record<string, boolean>;
+}
+
+// An answer that didn't fit its field; replying "use anyway" keeps it
+interface RejectedAnswer {
+  fieldId: string;
+  input: string;
+}
+
+interface StoredSession {
+  templateId: string | null;
+  isSample: boolean;
+  documentMeta: { name: string; size: string } | null;
+  templateHtml: string;
+  templateText: string;
+  occurrences: PlaceholderOccurrence[];
+  fields: PlaceholderField[];
+  answers: Record<string, AnswerValue>;
+  messages: { role: "user" | "assistant"; content: string }[];
+  currentFieldIndex: number;
+  questionCache: Record<string, string>;
+  suggestionCache: Record<string, SuggestedAnswer[]>;
+  fillLog: Record<string, FieldLog>;
+  syntax: SyntaxProfile | null;
+  parsedComments: boolean;
+  sections: ConditionalSection[];
+  provenance: Provenance | null;
+  unfilledPolicy: UnfilledPolicy;
+  fieldPolicies: Record<string, UnfilledPolicy>;
+  defaultCurrency: CurrencyCode;
+  amountStyle: AmountStyle;
+  dateOrder: DateOrder;
+  dateFormat: DateFormat;
+}
+
+const OVERRIDE_REGEX = /^(?:use (?:it |that )?anyway|keep (?:it|that)|override|i(?:'m| am) sure)[.!]?$/i;
+
+// Choices on the download button; "document" is the filled template in its own format
+type DownloadOutput = "document" | "pdf" | "markdown" | "html" | "text";
+
+interface DownloadOption {
+  id: "document" | "pdf" | "both" | "markdown" | "html" | "text";
+  outputs: DownloadOutput[];
+}
+
+const DOWNLOAD_OPTIONS: DownloadOption[] = [
+  { id: "document", outputs: ["document"] },
+  { id: "pdf", outputs: ["pdf"] },
+  { id: "both", outputs: ["document", "pdf"] },
+  { id: "markdown", outputs: ["markdown"] },
+  { id: "html", outputs: ["html"] },
+  { id: "text", outputs: ["text"] },
+];
+
+const OUTPUT_LABELS: Record<Exclude<DownloadOutput, "document">, string> = {
+  pdf: "PDF",
+  markdown: "Markdown",
+  html: "HTML",
+  text: "Plain text",
+};
+
 export default function Home() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -53,19 +229,76 @@ export default function Home() {
   const [templateHtml, setTemplateHtml] = useState("");
   const [templateText, setTemplateText] = useState("");
   const [originalFileBuffer, setOriginalFileBuffer] = useState<ArrayBuffer | null>(null);
-  const [placeholders, setPlaceholders] = useState<string[]>([]);
-  const [answers, setAnswers] = useState<Record<string, string>>({});
+  // Id of the template as stored by parse-document; downloads send it instead of the file
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  // The built-in sample, which generate-doc can rebuild once its stored copy expires
+  const [isSample, setIsSample] = useState(false);
+  const [occurrences, setOccurrences] = useState<PlaceholderOccurrence[]>([]);
+  const [fields, setFields] = useState<PlaceholderField[]>([]);
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({});
   const [documentMeta, setDocumentMeta] = useState<{ name: string; size: string } | null>(null);
   const [lastUpdated, setLastUpdated] = useState<string>("");
   const [messages, setMessages] = useState<{ role: "user" | "assistant"; content: string }[]>([]);
-  const [currentPlaceholderIndex, setCurrentPlaceholderIndex] = useState(0);
+  const [currentFieldIndex, setCurrentFieldIndex] = useState(0);
   const [userInput, setUserInput] = useState("");
   const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadOptionId, setDownloadOptionId] = useState<DownloadOption["id"]>("document");
+  const [trackChanges, setTrackChanges] = useState(false);
+  const [revisionAuthor, setRevisionAuthor] = useState("");
   const [showInstructions, setShowInstructions] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [userApiKey, setUserApiKey] = useState("");
   const [questionCache, setQuestionCache] = useState<Record<string, string>>({});
-  const [hasAmbiguousWarning, setHasAmbiguousWarning] = useState(false);
+  // Values the question generator found in the document, shown as chips under each question
+  const [suggestionCache, setSuggestionCache] = useState<Record<string, SuggestedAnswer[]>>({});
+  // How each field was asked and answered, for the fill report
+  const [fillLog, setFillLog] = useState<Record<string, FieldLog>>({});
+  const [includeReportAppendix, setIncludeReportAppendix] = useState(false);
+  const [includeManifest, setIncludeManifest] = useState(false);
+  // What happens to placeholders left unanswered: one policy, with per-field overrides
+  const [unfilledPolicy, setUnfilledPolicy] = useState<UnfilledPolicy>(DEFAULT_UNFILLED_POLICY);
+  const [fieldPolicies, setFieldPolicies] = useState<Record<string, UnfilledPolicy>>({});
+  const [includeComments, setIncludeComments] = useState(false);
+  // Also ask for blanks the syntax can't see, like runs of spaces or sample names
+  const [detectBlanks, setDetectBlanks] = useState(false);
+  const [blankReview, setBlankReview] = useState<BlankReview | null>(null);
+  const [syntaxPresetId, setSyntaxPresetId] = useState("auto");
+  const [customDelimiter, setCustomDelimiter] = useState({ open: "", close: "" });
+  // Syntax the current document was parsed with; generate-doc needs the same one
+  const [syntax, setSyntax] = useState<SyntaxProfile | null>(null);
+  // Whether that parse read comments; generate-doc must fill the same parts
+  const [parsedComments, setParsedComments] = useState(false);
+  // {#if} sections; answers to their conditions decide which clauses stay
+  const [sections, setSections] = useState<ConditionalSection[]>([]);
+  // Set when the uploaded file was filled by this tool before
+  const [provenance, setProvenance] = useState<Provenance | null>(null);
+  const [loopDraft, setLoopDraft] = useState<LoopDraft | null>(null);
+  const [pendingExtraction, setPendingExtraction] = useState<PendingExtraction | null>(null);
+  const [rejectedAnswer, setRejectedAnswer] = useState<RejectedAnswer | null>(null);
+  // Amounts typed without a currency are in this one; "legal" also spells them out in words
+  const [defaultCurrency, setDefaultCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+  const [amountStyle, setAmountStyle] = useState<AmountStyle>("numeric");
+  // Whether 3/4/25 is March 4 or 3 April, and how dates are written into the document
+  const [dateOrder, setDateOrder] = useState<DateOrder>(DEFAULT_DATE_ORDER);
+  const [dateFormat, setDateFormat] = useState<DateFormat>(DEFAULT_DATE_FORMAT);
+  // Bulk mode: rows from a CSV/JSON file, the column that fills each field and the
+  // fields a row can't be generated without
+  const [bulkTable, setBulkTable] = useState<BulkTable | null>(null);
+  const [bulkFileName, setBulkFileName] = useState("");
+  const [bulkMapping, setBulkMapping] = useState<Record<string, string>>({});
+  const [bulkRequired, setBulkRequired] = useState<Record<string, boolean>>({});
+  const [bulkFilenameTemplate, setBulkFilenameTemplate] = useState("");
+  const [isBulkGenerating, setIsBulkGenerating] = useState(false);
+
+  // undefined means auto-detect
+  const selectedSyntax = useMemo((): SyntaxProfile | undefined => {
+    if (syntaxPresetId === "custom") {
+      return customDelimiter.open.trim() && customDelimiter.close.trim()
+        ? { syntaxes: [], custom: [customDelimiter] }
+        : undefined;
+    }
+    return SYNTAX_PRESETS.find((preset) => preset.id === syntaxPresetId)?.profile;
+  }, [syntaxPresetId, customDelimiter]);
 
   // Normalize user input based on context
   const normalizeValue = useCallback((value: string, placeholder: string): string => {
@@ -98,37 +331,18 @@ export default function Home() {
     
     // Check if this is a date field
     if (/date|day|effective/i.test(lowerPlaceholder)) {
-      const lowerValue = trimmedValue.toLowerCase();
-      const today = new Date();
-      
-      if (lowerValue === 'today') {
-        return today.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
-      } else if (lowerValue === 'tomorrow') {
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        return tomorrow.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
-      } else if (lowerValue === 'yesterday') {
-        const yesterday = new Date(today);
-        yesterday.setDate(yesterday.getDate() - 1);
-        return yesterday.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
-      } else if (lowerValue === 'next week') {
-        const nextWeek = new Date(today);
-        nextWeek.setDate(nextWeek.getDate() + 7);
-        return nextWeek.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
-      } else if (lowerValue === 'last week') {
-        const lastWeek = new Date(today);
-        lastWeek.setDate(lastWeek.getDate() - 7);
-        return lastWeek.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+      const date = parseDate(trimmedValue, dateOrder);
+      if (date) {
+        return formatDate(date, dateFormat, dateOrder);
       }
     }
     
     // Check if this is an amount field
     if (placeholder.startsWith('$') || /amount|price|cost|fee|payment|salary/i.test(lowerPlaceholder)) {
-      // Remove any existing $ and commas
-      const numericValue = trimmedValue.replace(/[$,]/g, '');
-      if (!isNaN(Number(numericValue))) {
-        // Format as currency
-        return '$' + Number(numericValue).toLocaleString('en-US');
+      // A $[Amount] placeholder is in dollars unless the answer names another currency
+      const amount = parseAmount(trimmedValue, placeholder.startsWith('$') ? 'USD' : defaultCurrency);
+      if (amount) {
+        return formatAmount(amount, amountStyle);
       }
     }
     
@@ -189,12 +403,17 @@ export default function Home() {
     }
     
     return trimmedValue;
-  }, []);
+  }, [defaultCurrency, amountStyle, dateOrder, dateFormat]);
 
   const placeholderBadge = useMemo(() => {
-    if (!placeholders.length) return "None yet";
-    return `${placeholders.length} placeholder${placeholders.length === 1 ? "" : "s"}`;
-  }, [placeholders.length]);
+    if (!fields.length) return "None yet";
+    return `${fields.length} placeholder${fields.length === 1 ? "" : "s"}`;
+  }, [fields.length]);
+
+  const occurrenceById = useMemo(
+    () => new Map(occurrences.map((occurrence) => [occurrence.id, occurrence])),
+    [occurrences],
+  );
 
   // Auto-scroll chat container to bottom when messages change (without scrolling the page)
   useEffect(() => {
@@ -206,44 +425,249 @@ export default function Home() {
     }
   }, [messages]);
 
-  const extractPlaceholders = useCallback((text: string) => {
-    const matches = text.match(PLACEHOLDER_REGEX) ?? [];
-    return Array.from(new Set(matches.map((match) => match.trim())));
+  // Restored before the effect below first saves, which would otherwise clear it
+  useEffect(() => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) ?? "null") as StoredSession | null;
+      if (!stored?.fields?.length) return;
+      setTemplateId(stored.templateId);
+      setIsSample(stored.isSample);
+      setDocumentMeta(stored.documentMeta);
+      setTemplateHtml(stored.templateHtml);
+      setTemplateText(stored.templateText);
+      setOccurrences(stored.occurrences);
+      setFields(stored.fields);
+      setAnswers(stored.answers);
+      setMessages(stored.messages);
+      setCurrentFieldIndex(stored.currentFieldIndex);
+      setQuestionCache(stored.questionCache);
+      setSuggestionCache(stored.suggestionCache);
+      setFillLog(stored.fillLog);
+      setSyntax(stored.syntax);
+      setParsedComments(stored.parsedComments);
+      setSections(stored.sections);
+      setProvenance(stored.provenance);
+      setUnfilledPolicy(stored.unfilledPolicy);
+      setFieldPolicies(stored.fieldPolicies);
+      setDefaultCurrency(stored.defaultCurrency);
+      setAmountStyle(stored.amountStyle);
+      setDateOrder(stored.dateOrder);
+      setDateFormat(stored.dateFormat);
+    } catch (error) {
+      console.error("Failed to restore the saved session", error);
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
   }, []);
 
+  // Saved once the first question is asked; without a stored template (or the sample)
+  // a refreshed session couldn't be downloaded, so it isn't kept
+  useEffect(() => {
+    if (!fields.length || !messages.length || (!templateId && !isSample)) {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+      return;
+    }
+    const session: StoredSession = {
+      templateId,
+      isSample,
+      documentMeta,
+      templateHtml,
+      templateText,
+      occurrences,
+      fields,
+      answers,
+      messages,
+      currentFieldIndex,
+      questionCache,
+      suggestionCache,
+      fillLog,
+      syntax,
+      parsedComments,
+      sections,
+      provenance,
+      unfilledPolicy,
+      fieldPolicies,
+      defaultCurrency,
+      amountStyle,
+      dateOrder,
+      dateFormat,
+    };
+    try {
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } catch (error) {
+      // Storage full: the session still works, it just won't survive a refresh, and an
+      // older saved session mustn't come back in its place
+      console.error("Failed to save the session", error);
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  }, [templateId, isSample, documentMeta, templateHtml, templateText, occurrences, fields, answers, messages, currentFieldIndex, questionCache, suggestionCache, fillLog, syntax, parsedComments, sections, provenance, unfilledPolicy, fieldPolicies, defaultCurrency, amountStyle, dateOrder, dateFormat]);
+
+  // Occurrences inside {#if} branches that the given answers rule out
+  const getHiddenOccurrenceIds = useCallback((fieldAnswers: Record<string, AnswerValue>): Set<string> => {
+    const hidden = new Set<string>();
+    if (!sections.length) return hidden;
+
+    const values = getOccurrenceValues(fields, fieldAnswers);
+    Array.from(new Set(sections.map((section) => section.part))).forEach((part) => {
+      const ranges = getRemovedRanges(sections.filter((section) => section.part === part), values);
+      occurrences
+        .filter((occurrence) => occurrence.part === part && isPositionRemoved(occurrence, ranges))
+        .forEach((occurrence) => hidden.add(occurrence.id));
+    });
+    return hidden;
+  }, [sections, fields, occurrences]);
+
+  const hiddenOccurrenceIds = useMemo(() => getHiddenOccurrenceIds(answers), [getHiddenOccurrenceIds, answers]);
+
+  // Fields the download would leave unfilled; conditions and removed clauses don't count
+  const unfilledFields = useMemo(
+    () =>
+      fields.filter(
+        (field) =>
+          answers[field.id] === undefined &&
+          occurrenceById.get(field.id)?.source !== "condition" &&
+          !field.occurrenceIds.every((id) => hiddenOccurrenceIds.has(id)),
+      ),
+    [fields, answers, occurrenceById, hiddenOccurrenceIds],
+  );
+
+  // Next field still in the document, skipping ones only found in removed clauses
+  // and ones already answered by an earlier reply
+  const getNextFieldIndex = useCallback((fromIndex: number, fieldAnswers: Record<string, AnswerValue>): number => {
+    const hidden = getHiddenOccurrenceIds(fieldAnswers);
+    let index = fromIndex + 1;
+    while (
+      index < fields.length &&
+      (fields[index].occurrenceIds.every((id) => hidden.has(id)) || fieldAnswers[fields[index].id] !== undefined)
+    ) {
+      index++;
+    }
+    return index;
+  }, [getHiddenOccurrenceIds, fields]);
+
   const highlightedHtml = useMemo(() => {
-    if (!templateHtml) return "";
-    
-    let highlighted = templateHtml;
-    
-    // Replace each placeholder with a highlighted version
-    placeholders.forEach((placeholder) => {
-      const isFilled = answers[placeholder] !== undefined;
-      const displayValue = isFilled ? answers[placeholder] : placeholder;
+    if (!templateHtml || !occurrences.some((occurrence) => PREVIEW_PARTS.includes(occurrence.part))) return templateHtml;
+
+    // The preview and the parsed occurrences list the same placeholders in document
+    // order, so the n-th match of a placeholder in the HTML is its n-th occurrence.
+    // Content controls and merge fields show their current text, not their name.
+    // Conditions and loops show their opening tag. mammoth escapes &, < and >, so match the escaped text.
+    const occurrencesByText = new Map<string, PlaceholderOccurrence[]>();
+    occurrences.filter((occurrence) => PREVIEW_PARTS.includes(occurrence.part)).forEach((occurrence) => {
+      const text = encodeXml(occurrence.displayText ?? occurrence.placeholder);
+      if (!text.trim()) return;
+      const list = occurrencesByText.get(text) ?? [];
+      list.push(occurrence);
+      occurrencesByText.set(text, list);
+    });
+
+    const fieldByOccurrence = new Map<string, PlaceholderField>();
+    fields.forEach((field) => field.occurrenceIds.forEach((id) => fieldByOccurrence.set(id, field)));
+
+    const currentField = fields[currentFieldIndex];
+    const seen = new Map<string, number>();
+    const pattern = Array.from(occurrencesByText.keys())
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|");
+
+    const highlighted = templateHtml.replace(new RegExp(pattern, "g"), (match) => {
+      const index = seen.get(match) ?? 0;
+      seen.set(match, index + 1);
+
+      const occurrence = occurrencesByText.get(match)?.[index];
+      const field = occurrence ? fieldByOccurrence.get(occurrence.id) : undefined;
+      const isFilled = field !== undefined && answers[field.id] !== undefined;
+      // Answered section and loop tags are left bare for applySectionsToText and applyLoopsToText
+      if ((occurrence?.source === "condition" || occurrence?.source === "loop") && isFilled) return match;
+      // Answers come from the user, the AI or a restored session, so they're escaped like the loop copies
+      const displayValue = isFilled ? encodeXml(formatAnswer(answers[field.id])) : match;
       const bgColor = isFilled ? "bg-emerald-100" : "bg-amber-100";
       const textColor = isFilled ? "text-emerald-900" : "text-amber-900";
-      
-      // Escape special regex characters in placeholder
-      const escapedPlaceholder = placeholder.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-      const regex = new RegExp(escapedPlaceholder, "g");
-      
-      highlighted = highlighted.replace(
-        regex,
-        `<mark class="px-1 py-0.5 rounded ${bgColor} ${textColor} font-medium">${displayValue}</mark>`
-      );
+      const ring = field && field === currentField && !isFilled ? " ring-2 ring-amber-500" : "";
+
+      return `<mark class="px-1 py-0.5 rounded ${bgColor} ${textColor} font-medium${ring}">${displayValue}</mark>`;
     });
-    
-    return highlighted;
-  }, [templateHtml, placeholders, answers]);
+
+    // Show or hide conditional clauses as their conditions are answered
+    const values = getOccurrenceValues(fields, answers);
+    const conditionIds = occurrences
+      .filter((occurrence) => occurrence.source === "condition" && PREVIEW_PARTS.includes(occurrence.part))
+      .map((occurrence) => occurrence.id);
+    const resolved = conditionIds.length ? applySectionsToText(highlighted, conditionIds, values) : highlighted;
+
+    // Then repeat answered loops; loops in removed clauses are no longer in the HTML
+    const loopIds = occurrences
+      .filter((occurrence) => occurrence.source === "loop" && PREVIEW_PARTS.includes(occurrence.part))
+      .filter((occurrence) => !hiddenOccurrenceIds.has(occurrence.id))
+      .map((occurrence) => occurrence.id);
+    return loopIds.length
+      ? applyLoopsToText(
+          resolved,
+          loopIds,
+          values,
+          buildPlaceholderRegex(syntax ?? DEFAULT_SYNTAX_PROFILE),
+          (value) => `<mark class="px-1 py-0.5 rounded bg-emerald-100 text-emerald-900 font-medium">${encodeXml(value)}</mark>`,
+        )
+      : resolved;
+  }, [templateHtml, occurrences, fields, answers, currentFieldIndex, hiddenOccurrenceIds, syntax]);
+
+  // Placeholders in headers, footers and comments, shown under the preview with their answers
+  const offPreviewOccurrences = useMemo(() => {
+    const fieldByOccurrence = new Map<string, PlaceholderField>();
+    fields.forEach((field) => field.occurrenceIds.forEach((id) => fieldByOccurrence.set(id, field)));
+
+    return occurrences
+      .filter((occurrence) => !PREVIEW_PARTS.includes(occurrence.part))
+      .map((occurrence) => {
+        const field = fieldByOccurrence.get(occurrence.id);
+        const value = field ? answers[field.id] : undefined;
+        return { occurrence, value: value === undefined ? undefined : formatAnswer(value) };
+      });
+  }, [occurrences, fields, answers]);
 
   // Generate all questions at once (batch)
-  const generateAllQuestions = useCallback(async (placeholderList: string[]): Promise<Record<string, string>> => {
+  const generateAllQuestions = useCallback(async (
+    fieldList: PlaceholderField[],
+    occurrenceList: PlaceholderOccurrence[],
+  ): Promise<{
+    questions: Record<string, string>;
+    groups: string[][];
+    sources: Record<string, QuestionSource>;
+    suggestions: Record<string, SuggestedAnswer[]>;
+  }> => {
+    const occurrencesById = new Map(occurrenceList.map((occurrence) => [occurrence.id, occurrence]));
+
+    // Loops are asked record by record with fixed questions, so the AI never sees them
+    const loopQuestions: Record<string, string> = {};
+    const askedFields = fieldList.filter((field) => {
+      if (occurrencesById.get(field.id)?.source !== "loop") return true;
+      loopQuestions[field.id] = getLoopStartQuestion(field.placeholder, getFieldItemFields(field, occurrencesById));
+      return false;
+    });
+    const getSources = (questions: Record<string, string>, source: QuestionSource) =>
+      Object.fromEntries(
+        Object.keys(questions).map((id): [string, QuestionSource] => [id, id in loopQuestions ? "deterministic" : source]),
+      );
+    if (!askedFields.length) {
+      return { questions: loopQuestions, groups: [], sources: getSources(loopQuestions, "deterministic"), suggestions: {} };
+    }
+
     try {
       const response = await fetch("/api/generate-questions-batch", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          placeholders: placeholderList,
+          placeholders: askedFields.map((field) => {
+            const occurrence = occurrencesById.get(field.id);
+            return {
+              id: field.id,
+              placeholder: field.placeholder,
+              context: occurrence?.snippet,
+              controlType: occurrence?.controlType,
+              options: occurrence?.options,
+              source: occurrence?.source,
+            };
+          }),
           documentContext: templateText,
           userApiKey: userApiKey || undefined,
         }),
@@ -255,6 +679,7 @@ export default function Home() {
 
       const data = await response.json();
       const cache: Record<string, string> = {};
+      const suggestions: Record<string, SuggestedAnswer[]> = {};
       
       // Handle both array and object responses
       // AI sometimes returns "questions" or "placeholders" as the key
@@ -271,34 +696,57 @@ export default function Home() {
         throw new Error("No questions returned from API");
       }
       
-      questionsList.forEach((q: { placeholder: string; question: string }) => {
-        cache[q.placeholder] = q.question;
+      questionsList.forEach((q: { id?: string; placeholder: string; question: string; suggestions?: unknown }) => {
+        const field = askedFields.find((f) => f.id === q.id) ?? askedFields.find((f) => f.placeholder === q.placeholder);
+        if (field && !cache[field.id]) {
+          cache[field.id] = q.question;
+          suggestions[field.id] = parseSuggestions(q.suggestions);
+        }
       });
       
       console.log(`Generated ${Object.keys(cache).length} questions in batch`);
-      return cache;
+      const questions = { ...cache, ...loopQuestions };
+      return {
+        questions,
+        groups: Array.isArray(data.groups) ? data.groups : [],
+        sources: getSources(questions, data.source ?? "ai"),
+        suggestions,
+      };
     } catch (error) {
       console.error("Error generating batch questions:", error);
       // Fallback to simple questions
       const cache: Record<string, string> = {};
-      placeholderList.forEach(p => {
-        const clean = p.replace(/^\$?\[|\]$/g, "").replace(/^\{|\}$/g, "").replace(/_+/g, "").trim() || "this value";
-        cache[p] = `What is the ${clean}?`;
+      askedFields.forEach((field) => {
+        cache[field.id] = getFallbackQuestion(field.placeholder, occurrencesById.get(field.id));
       });
-      return cache;
+      const questions = { ...cache, ...loopQuestions };
+      return { questions, groups: [], sources: getSources(questions, "deterministic-fallback"), suggestions: {} };
     }
   }, [templateText, userApiKey]);
 
-  const generateQuestion = useCallback(async (placeholder: string): Promise<string> => {
+  const updateFieldLog = useCallback((fieldId: string, update: (entry: FieldLog) => FieldLog) => {
+    setFillLog((previous) => ({ ...previous, [fieldId]: { ...previous[fieldId], ...update(previous[fieldId] ?? {}) } }));
+  }, []);
+
+  const generateQuestion = useCallback(async (field: PlaceholderField): Promise<string> => {
+    const askedAt = new Date().toISOString();
+    const logQuestion = (question: string, questionSource: QuestionSource) => {
+      updateFieldLog(field.id, () => ({ question, questionSource, askedAt }));
+      return question;
+    };
+
     // Check cache first
-    console.log(`Looking for "${placeholder}" in cache. Cache has ${Object.keys(questionCache).length} keys:`, Object.keys(questionCache));
-    
-    if (questionCache[placeholder]) {
-      console.log(`✓ Using cached question for: ${placeholder}`);
-      return questionCache[placeholder];
+    if (questionCache[field.id]) {
+      console.log(`✓ Using cached question for: ${field.placeholder} (${field.id})`);
+      updateFieldLog(field.id, () => ({ askedAt }));
+      return questionCache[field.id];
     }
     
-    console.log(`✗ Cache miss for: ${placeholder}, generating individually...`);
+    console.log(`✗ Cache miss for: ${field.placeholder} (${field.id}), generating individually...`);
+    const occurrence = occurrenceById.get(field.id);
+    if (occurrence?.source === "loop") {
+      return logQuestion(getLoopStartQuestion(field.placeholder, getFieldItemFields(field, occurrenceById)), "deterministic");
+    }
     
     // Fallback to individual generation if not in cache
     try {
@@ -307,7 +755,11 @@ export default function Home() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          placeholder,
+          placeholder: field.placeholder,
+          context: occurrence?.snippet,
+          controlType: occurrence?.controlType,
+          options: occurrence?.options,
+          source: occurrence?.source,
           documentContext: templateText,
           userApiKey: userApiKey || undefined,
         }),
@@ -320,93 +772,70 @@ export default function Home() {
           console.warn("Rate limit exceeded:", data.message);
           // Use fallback question from response or generate one
           if (data.fallbackQuestion) {
-            return data.fallbackQuestion;
+            return logQuestion(data.fallbackQuestion, "deterministic-fallback");
           }
         }
         throw new Error("Failed to generate question");
       }
 
       const data = await response.json();
-      return data.question;
+      return logQuestion(data.question, data.source ?? "ai");
     } catch (error) {
       console.error("Error generating question, using fallback:", error);
       
       // Fallback to deterministic question
-      let cleanedPlaceholder = placeholder
-        .replace(/^\$?\[|\]$/g, "")
-        .replace(/^\{|\}$/g, "")
-        .replace(/_+/g, "")
-        .trim();
-
-      if (!cleanedPlaceholder) {
-        cleanedPlaceholder = "this value";
-      }
-
-      return `What is the ${cleanedPlaceholder}?`;
+      return logQuestion(getFallbackQuestion(field.placeholder, occurrence), "deterministic-fallback");
     }
-  }, [templateText, userApiKey]);
+  }, [questionCache, occurrenceById, templateText, userApiKey, updateFieldLog]);
 
   const handleParsedDocument = useCallback(
-    async (name: string, html: string, text: string) => {
+    async (name: string, html: string, text: string, extractedOccurrences: PlaceholderOccurrence[], parsedFields?: PlaceholderField[]) => {
+      const extractedFields = parsedFields ?? groupOccurrences(extractedOccurrences);
+
       setTemplateHtml(html);
       setTemplateText(text);
-      setPlaceholders(extractPlaceholders(text));
+      setOccurrences(extractedOccurrences);
+      setFields(extractedFields);
+      setLoopDraft(null);
+      setRejectedAnswer(null);
+      setFillLog({});
+      setFieldPolicies({});
+      setBulkTable(null);
       setDocumentMeta({ name, size: formatBytes(text.length * 2) });
       setLastUpdated(new Date().toLocaleTimeString());
-
-      const extractedPlaceholders = extractPlaceholders(text);
-      
-      // Check for problematic document formatting
-      if (extractedPlaceholders.length > 0) {
-        // Count how many times each placeholder appears
-        const placeholderOccurrences = new Map<string, number>();
-        extractedPlaceholders.forEach(placeholder => {
-          const escapedPlaceholder = placeholder.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-          const regex = new RegExp(escapedPlaceholder, "g");
-          const count = (text.match(regex) || []).length;
-          placeholderOccurrences.set(placeholder, count);
-        });
-        
-        // Check if any placeholder appears too many times (likely ambiguous)
-        const ambiguousPlaceholders = Array.from(placeholderOccurrences.entries())
-          .filter(([placeholder, count]) => count > 5 && placeholder.match(/^_{3,}$/));
-        
-        if (ambiguousPlaceholders.length > 0 && !hasAmbiguousWarning) {
-          // Show warning about ambiguous placeholders
-          setHasAmbiguousWarning(true);
-          setIsTyping(true);
-          setTimeout(() => {
-            setMessages([
-              {
-                role: "assistant",
-                content: `⚠️ **Document Formatting Issue Detected**\n\nThis document uses the same placeholder (\`${ambiguousPlaceholders[0][0]}\`) **${ambiguousPlaceholders[0][1]} times**. This means all ${ambiguousPlaceholders[0][1]} fields will be filled with the same value.\n\n**Recommended fix:**\n\nUpdate your document to use descriptive placeholders:\n- ❌ \`________________\` (used everywhere)\n- ✅ \`[Effective Date]\`, \`[Party Name]\`, \`[Address]\`, etc.\n\n**You can:**\n1. Edit your document to use unique placeholders\n2. Type "continue" to proceed anyway\n3. Upload a different document`,
-              },
-            ]);
-            setIsTyping(false);
-          }, 500);
-          return;
-        }
-      }
       
-      if (extractedPlaceholders.length > 0) {
+      if (extractedFields.length > 0) {
         // Generate ALL questions at once (batch) BEFORE showing any messages
         setIsTyping(true);
-        
+
         try {
           // Wait for questions to be generated first
-          const generatedQuestions = await generateAllQuestions(extractedPlaceholders);
+          const { questions: generatedQuestions, groups, sources, suggestions } = await generateAllQuestions(extractedFields, extractedOccurrences);
           console.log("Generated questions cache:", generatedQuestions);
-          console.log("Cache keys:", Object.keys(generatedQuestions));
           
           // Set cache BEFORE showing any messages
           setQuestionCache(generatedQuestions);
+          setSuggestionCache(suggestions);
+          setFillLog(
+            Object.fromEntries(
+              Object.entries(sources).map(([id, questionSource]) => [id, { question: generatedQuestions[id], questionSource }]),
+            ),
+          );
+
+          // Differently written placeholders the AI thinks mean the same value share one question
+          const groupedFields = mergeFieldGroups(extractedFields, groups);
+          setFields(groupedFields);
+
+          const repeatedCount = extractedOccurrences.length - groupedFields.length;
+          const aliasedField = groupedFields.find((field) => field.aliases?.length);
+          const introMessage = `Great! I found ${groupedFields.length} placeholder${groupedFields.length === 1 ? "" : "s"} in your document${repeatedCount > 0 ? ` (${extractedOccurrences.length} spots in total, repeated names share one answer)` : ""}. Let's fill them in one by one.${aliasedField ? `\n\nSome placeholders are written differently but ask for the same thing, like ${[aliasedField.placeholder, ...aliasedField.aliases!].join(" and ")}, so I'll only ask once. Use **Split** in the sidebar if they need different values.` : ""}`;
           
           // Now show messages
           setTimeout(() => {
             setMessages([
               {
                 role: "assistant",
-                content: `Great! I found ${extractedPlaceholders.length} placeholder${extractedPlaceholders.length === 1 ? "" : "s"} in your document. Let's fill them in one by one.`,
+                content: introMessage,
               },
             ]);
             setIsTyping(false);
@@ -418,13 +847,14 @@ export default function Home() {
                 setMessages([
                   {
                     role: "assistant",
-                    content: `Great! I found ${extractedPlaceholders.length} placeholder${extractedPlaceholders.length === 1 ? "" : "s"} in your document. Let's fill them in one by one.`,
+                    content: introMessage,
                   },
                   {
                     role: "assistant",
-                    content: generatedQuestions[extractedPlaceholders[0]] || `What is the ${extractedPlaceholders[0]}?`,
+                    content: generatedQuestions[groupedFields[0].id] || getFallbackQuestion(groupedFields[0].placeholder, extractedOccurrences.find((occurrence) => occurrence.id === groupedFields[0].id)),
                   },
                 ]);
+                updateFieldLog(groupedFields[0].id, () => ({ askedAt: new Date().toISOString() }));
                 setIsTyping(false);
               }, 500);
             }, 100);
@@ -440,27 +870,39 @@ export default function Home() {
           setMessages([
             {
               role: "assistant",
-              content: "⚠️ **No placeholders detected in this document.**\n\n📝 **For best results, format placeholders like:**\n\n- [Company Name]  \n- $[Amount]  \n- {variable}  \n- ___ (3+ underscores)  \n- [ ] (empty brackets)\n\n💡 **What you can do:**\n\n1. Upload a different document with placeholders  \n2. Download this document as-is  \n3. Edit your document to add placeholders and re-upload",
+              content: "⚠️ **No placeholders detected in this document.**\n\n📝 **For best results, format placeholders like:**\n\n- [Company Name]  \n- $[Amount]  \n- {variable} or {{variable}}  \n- «Name», <<Name>> or %%name%%  \n- ___ (3+ underscores)  \n- [ ] (empty brackets)\n\n💡 **What you can do:**\n\n1. Upload a different document with placeholders  \n2. Download this document as-is  \n3. Edit your document to add placeholders and re-upload",
             },
           ]);
           setIsTyping(false);
         }, 500);
       }
     },
-    [extractPlaceholders, generateAllQuestions],
+    [generateAllQuestions, updateFieldLog],
   );
 
+  // Without a file, the server parses its built-in sample
   const parseDocument = useCallback(
-    async (file: File) => {
+    async (file?: File) => {
       setIsParsing(true);
       setUploadError(null);
       
-      // Store original file buffer for formatting preservation
-      const arrayBuffer = await file.arrayBuffer();
-      setOriginalFileBuffer(arrayBuffer);
+      // Kept in case the stored template expires and has to be uploaded again
+      setOriginalFileBuffer(file ? await file.arrayBuffer() : null);
       
       const formData = new FormData();
-      formData.append("file", file);
+      if (file) {
+        formData.append("file", file);
+      } else {
+        formData.append("sample", "true");
+      }
+      formData.append("includeComments", String(includeComments));
+      if (selectedSyntax) {
+        formData.append("syntax", JSON.stringify(selectedSyntax));
+      }
+      if (detectBlanks) {
+        formData.append("detectBlanks", "true");
+        if (userApiKey) formData.append("userApiKey", userApiKey);
+      }
 
       try {
         const response = await fetch("/api/parse-document", {
@@ -473,34 +915,103 @@ export default function Home() {
           throw new Error(data.error ?? "Unable to parse document");
         }
 
-        handleParsedDocument(file.name, data.templateHtml ?? "", data.templateText ?? "");
+        setSyntax(data.syntax ?? null);
+        setParsedComments(includeComments);
+        setSections(data.sections ?? []);
+        setProvenance(data.provenance ?? null);
+        setTemplateId(data.templateId ?? null);
+        setIsSample(!file);
+        const name = data.filename ?? file?.name ?? "document.docx";
+        const suggestions: BlankSuggestion[] = data.blankSuggestions ?? [];
+        // Proposed blanks are reviewed before the chat starts, since they change the questions
+        if (suggestions.length) {
+          setBlankReview({
+            name,
+            html: data.templateHtml ?? "",
+            text: data.templateText ?? "",
+            occurrences: data.occurrences ?? [],
+            fields: data.fields,
+            parts: data.parts ?? [],
+            suggestions,
+            accepted: Object.fromEntries(suggestions.map((suggestion) => [suggestion.occurrence.id, true])),
+          });
+          return;
+        }
+        handleParsedDocument(name, data.templateHtml ?? "", data.templateText ?? "", data.occurrences ?? [], data.fields);
       } catch (error) {
         console.error(error);
         const errorMessage = error instanceof Error ? error.message : "Unexpected error";
-        setUploadError(`${errorMessage}. Please ensure your file is a valid .docx document and try again. If the problem persists, try opening and re-saving the document in Microsoft Word.`);
+        setUploadError(`${errorMessage}. Please ensure your file is a valid .docx or .odt document and try again. If the problem persists, try opening and re-saving the document in Microsoft Word or LibreOffice.`);
       } finally {
         setIsParsing(false);
       }
     },
-    [handleParsedDocument],
+    [handleParsedDocument, includeComments, selectedSyntax, detectBlanks, userApiKey],
+  );
+
+  // Accepted blanks join the occurrences in document order and go into the syntax
+  // profile, so generate-doc finds them at the same place
+  const handleConfirmBlanks = useCallback(() => {
+    if (!blankReview) return;
+    const { name, html, text, occurrences: parsedOccurrences, fields: parsedFields, parts, suggestions } = blankReview;
+    const accepted = suggestions.filter((suggestion) => blankReview.accepted[suggestion.occurrence.id]);
+    const replacedIds = new Set(accepted.flatMap((suggestion) => suggestion.replacesIds));
+    const merged = [
+      ...parsedOccurrences.filter((occurrence) => !replacedIds.has(occurrence.id)),
+      ...accepted.map((suggestion) => suggestion.occurrence),
+    ].sort(
+      (a, b) =>
+        parts.indexOf(a.part) - parts.indexOf(b.part) || a.paragraphIndex - b.paragraphIndex || a.offset - b.offset,
+    );
+
+    if (accepted.length) {
+      setSyntax((current) => ({ ...(current ?? DEFAULT_SYNTAX_PROFILE), blanks: accepted.map((suggestion) => suggestion.blank) }));
+    }
+    setBlankReview(null);
+    handleParsedDocument(name, html, text, merged, accepted.length ? undefined : parsedFields);
+  }, [blankReview, handleParsedDocument]);
+
+  const acceptedBlankCount = useMemo(
+    () => blankReview?.suggestions.filter((suggestion) => blankReview.accepted[suggestion.occurrence.id]).length ?? 0,
+    [blankReview],
   );
 
+  const updateBlankSuggestion = useCallback((id: string, update: { accepted?: boolean; name?: string }) => {
+    setBlankReview((current) => {
+      if (!current) return current;
+      return {
+        ...current,
+        accepted: update.accepted === undefined ? current.accepted : { ...current.accepted, [id]: update.accepted },
+        suggestions: current.suggestions.map((suggestion) =>
+          suggestion.occurrence.id === id && update.name !== undefined
+            ? {
+                ...suggestion,
+                blank: { ...suggestion.blank, name: update.name },
+                occurrence: { ...suggestion.occurrence, placeholder: update.name },
+              }
+            : suggestion,
+        ),
+      };
+    });
+  }, []);
+
   const handleFile = useCallback(
     (file?: File) => {
       if (!file) return;
 
-      const isDocx =
+      const isSupported =
         file.type ===
           "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
-        file.name.toLowerCase().endsWith(".docx");
+        file.type === "application/vnd.oasis.opendocument.text" ||
+        /\.(docx|odt)$/i.test(file.name);
 
-      if (!isDocx) {
-        setUploadError("Only .docx files are supported");
+      if (!isSupported) {
+        setUploadError("Only .docx and .odt files are supported");
         return;
       }
 
-      if (file.size > MAX_FILE_SIZE_BYTES) {
-        setUploadError("File is too large (max 4 MB)");
+      if (file.size > MAX_TEMPLATE_BYTES) {
+        setUploadError(`File is too large (max ${MAX_TEMPLATE_BYTES / 1024 / 1024} MB)`);
         return;
       }
 
@@ -528,36 +1039,47 @@ export default function Home() {
     [handleFile],
   );
 
-  const handleUseSample = useCallback(async () => {
-    // For sample document, we need to create a basic .docx buffer
-    // Since we don't have the original file, we'll create a simple one
-    try {
-      // Fetch a basic SAFE template or create a minimal docx
-      // For now, we'll just disable download for sample docs
-      setOriginalFileBuffer(null);
-      
-      handleParsedDocument("Sample SAFE Agreement", sampleTemplateHtml, sampleTemplateText);
-    } catch (error) {
-      console.error("Error loading sample:", error);
-    }
-  }, [handleParsedDocument]);
+  // The sample is a real document on the server, so it can be downloaded filled
+  const handleUseSample = useCallback(() => {
+    void parseDocument();
+  }, [parseDocument]);
 
   const handleReset = useCallback(() => {
     // Clear all state
     setTemplateHtml("");
     setTemplateText("");
     setOriginalFileBuffer(null);
-    setPlaceholders([]);
+    setTemplateId(null);
+    setIsSample(false);
+    setOccurrences([]);
+    setFields([]);
+    setSyntax(null);
+    setParsedComments(false);
+    setBlankReview(null);
+    setSections([]);
+    setProvenance(null);
+    setLoopDraft(null);
+    setPendingExtraction(null);
+    setRejectedAnswer(null);
     setAnswers({});
+    setQuestionCache({});
+    setSuggestionCache({});
+    setFillLog({});
+    setFieldPolicies({});
+    setBulkTable(null);
+    setIsBulkGenerating(false);
+    setDefaultCurrency(DEFAULT_CURRENCY);
+    setAmountStyle("numeric");
+    setDateOrder(DEFAULT_DATE_ORDER);
+    setDateFormat(DEFAULT_DATE_FORMAT);
     setDocumentMeta(null);
     setLastUpdated("");
     setMessages([]);
-    setCurrentPlaceholderIndex(0);
+    setCurrentFieldIndex(0);
     setUserInput("");
     setUploadError(null);
     setIsParsing(false);
     setIsDownloading(false);
-    setHasAmbiguousWarning(false);
     
     // Clear file input
     if (fileInputRef.current) {
@@ -565,172 +1087,580 @@ export default function Home() {
     }
   }, []);
 
-  const handleSubmitAnswer = useCallback(async (isSkip = false) => {
-    if (!isSkip && !userInput.trim()) return;
+  // A typed answer as it goes into the document: control values first, then dates, amounts and the like
+  const normalizeAnswer = useCallback((field: PlaceholderField, value: string): string =>
+    normalizeControlValue(value, occurrenceById.get(field.id)) ?? normalizeValue(value, field.placeholder),
+  [occurrenceById, normalizeValue]);
 
-    // Check if user is responding to ambiguous placeholder warning
-    if (hasAmbiguousWarning && userInput.trim().toLowerCase() === 'continue') {
-      setHasAmbiguousWarning(false);
-      setMessages([
-        ...messages,
-        { role: "user", content: userInput.trim() },
-        { role: "assistant", content: "Okay, continuing with the document. Note that identical placeholders will be filled with the same value." }
-      ]);
-      setUserInput("");
-      
-      // Re-trigger document parsing to continue
-      if (templateHtml && templateText) {
-        handleParsedDocument(documentMeta?.name || "Document", templateHtml, templateText);
-      }
-      return;
+  // What's wrong with a typed answer for the field, by its type and any limits in the placeholder
+  const checkAnswer = useCallback((field: PlaceholderField, value: string): string | undefined => {
+    const occurrence = occurrenceById.get(field.id);
+    return validateAnswer(
+      value,
+      {
+        placeholder: field.placeholder,
+        type: getFieldType(field.placeholder),
+        constraints: readConstraints(field.placeholder, occurrence, defaultCurrency),
+        controlType: occurrence?.controlType,
+      },
+      { defaultCurrency, dateOrder },
+    );
+  }, [occurrenceById, defaultCurrency, dateOrder]);
+
+  // Up to three answers for the current question: the generator's, then values the
+  // document states, then earlier answers of the same kind. Ones that wouldn't pass are left out.
+  const currentSuggestions = useMemo((): SuggestedAnswer[] => {
+    const field = fields[currentFieldIndex];
+    const occurrence = field ? occurrenceById.get(field.id) : undefined;
+    if (!field || occurrence?.source === "loop" || occurrence?.source === "condition" || occurrence?.controlType === "checkbox") {
+      return [];
+    }
+    const previous = fields.flatMap((other) => {
+      const value = answers[other.id];
+      return other.id !== field.id && typeof value === "string" ? [{ placeholder: other.placeholder, value }] : [];
+    });
+    return mergeSuggestions([
+      ...(suggestionCache[field.id] ?? []),
+      ...findDocumentSuggestions(field.placeholder, templateText),
+      ...findAnswerSuggestions(field.placeholder, previous),
+    ].filter((suggestion) => !checkAnswer(field, suggestion.value)));
+  }, [fields, currentFieldIndex, occurrenceById, answers, suggestionCache, templateText, checkAnswer]);
+
+  // Values the reply gives for the current field and later open ones; empty when
+  // the reply is too short to hold more than the answer, or the route is unavailable
+  const extractAnswers = useCallback(async (message: string, fieldAnswers: Record<string, AnswerValue>): Promise<ExtractedValue[]> => {
+    const hidden = getHiddenOccurrenceIds(fieldAnswers);
+    const openFields = fields.slice(currentFieldIndex).filter((field) => {
+      const source = occurrenceById.get(field.id)?.source;
+      return (
+        fieldAnswers[field.id] === undefined &&
+        source !== "loop" &&
+        source !== "condition" &&
+        !field.occurrenceIds.every((id) => hidden.has(id))
+      );
+    });
+    if (!shouldExtract(message, openFields.length)) return [];
+
+    try {
+      const response = await fetch("/api/extract-answers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          message,
+          fields: openFields.map((field) => {
+            const occurrence = occurrenceById.get(field.id);
+            return {
+              id: field.id,
+              placeholder: field.placeholder,
+              context: occurrence?.snippet,
+              controlType: occurrence?.controlType,
+              options: occurrence?.options,
+            };
+          }),
+          currentFieldId: fields[currentFieldIndex]?.id,
+          documentContext: templateText,
+          userApiKey: userApiKey || undefined,
+        }),
+      });
+      if (!response.ok) throw new Error("Failed to extract answers");
+      const data = await response.json();
+      return Array.isArray(data.values) ? data.values : [];
+    } catch (error) {
+      console.error("Error extracting answers, using the reply for the current question:", error);
+      return [];
+    }
+  }, [fields, currentFieldIndex, occurrenceById, getHiddenOccurrenceIds, templateText, userApiKey]);
+
+  // Ask the next open field after fromIndex, or wrap up when none are left
+  const continueChat = useCallback(async (
+    newMessages: { role: "user" | "assistant"; content: string }[],
+    newAnswers: Record<string, AnswerValue>,
+    fromIndex: number,
+  ) => {
+    const nextIndex = getNextFieldIndex(fromIndex, newAnswers);
+    setCurrentFieldIndex(nextIndex);
+
+    if (nextIndex < fields.length) {
+      // Generate AI question for next placeholder
+      const nextQuestion = await generateQuestion(fields[nextIndex]);
+      newMessages.push({
+        role: "assistant",
+        content: nextQuestion,
+      });
+    } else {
+      // All done
+      const filledCount = Object.keys(newAnswers).length;
+      newMessages.push({
+        role: "assistant",
+        content: `Done! I've filled ${filledCount} of ${fields.length} placeholders. You can now review the completed document and download it.`,
+      });
     }
 
+    setMessages(newMessages);
+    setIsTyping(false);
+  }, [fields, generateQuestion, getNextFieldIndex]);
+
+  const handleSubmitAnswer = useCallback(async (isSkip = false, typed = userInput) => {
+    const input = typed.trim();
+    if (!isSkip && !input) return;
+
     // Add user's answer to messages
     setMessages([
       ...messages,
-      { role: "user", content: isSkip ? "skip" : userInput.trim() },
+      { role: "user", content: isSkip ? "skip" : input },
     ]);
     setUserInput("");
     setIsTyping(true);
 
     // Simulate thinking delay, then generate AI question
     setTimeout(async () => {
-      const currentPlaceholder = placeholders[currentPlaceholderIndex];
-      const newMessages = [...messages, { role: "user" as const, content: isSkip ? "skip" : userInput.trim() }];
+      const currentField = fields[currentFieldIndex];
+      const newMessages = [...messages, { role: "user" as const, content: isSkip ? "skip" : input }];
 
       let newAnswers = answers;
-      if (!isSkip) {
+      const answeredAt = new Date().toISOString();
+      // "use anyway" after a rejected answer saves that answer as typed
+      const overridden = !isSkip && rejectedAnswer?.fieldId === currentField.id && OVERRIDE_REGEX.test(input)
+        ? rejectedAnswer.input
+        : undefined;
+      setRejectedAnswer(null);
+      if (!isSkip && overridden === undefined) {
+        // Logged as typed, before normalizeValue
+        updateFieldLog(currentField.id, (entry) => ({ rawInputs: [...(entry.rawInputs ?? []), input] }));
+      }
+      const currentOccurrence = occurrenceById.get(currentField.id);
+      if (currentOccurrence?.source === "loop" && !isSkip) {
+        // Collect a list: each item field of a record, then "add another?"
+        const itemFields = getFieldItemFields(currentField, occurrenceById);
+        const draft = loopDraft ?? { records: [], current: {}, itemIndex: 0 };
+        let nextDraft: LoopDraft | null = null;
+
+        if (draft.itemIndex < itemFields.length) {
+          const placeholder = itemFields[draft.itemIndex];
+          const current = { ...draft.current, [getCanonicalName(placeholder)]: normalizeValue(input, placeholder) };
+          nextDraft = draft.itemIndex + 1 < itemFields.length
+            ? { ...draft, current, itemIndex: draft.itemIndex + 1 }
+            : { records: [...draft.records, current], current: {}, itemIndex: itemFields.length };
+        } else if (isCheckedValue(input)) {
+          // Loops without named fields just repeat their content once per "yes"
+          nextDraft = itemFields.length
+            ? { ...draft, current: {}, itemIndex: 0 }
+            : { ...draft, records: [...draft.records, {}] };
+        }
+
+        if (nextDraft) {
+          setLoopDraft(nextDraft);
+          newMessages.push({
+            role: "assistant",
+            content: nextDraft.itemIndex < itemFields.length
+              ? getLoopItemQuestion(currentField.placeholder, itemFields[nextDraft.itemIndex], nextDraft.records.length)
+              : getLoopMoreQuestion(currentField.placeholder, nextDraft.records.length),
+          });
+          setMessages(newMessages);
+          setIsTyping(false);
+          return;
+        }
+
+        setLoopDraft(null);
+        newAnswers = { ...answers, [currentField.id]: draft.records };
+        setAnswers(newAnswers);
+        updateFieldLog(currentField.id, () => ({ skipped: false, answeredAt }));
+      } else if (overridden !== undefined) {
+        newAnswers = { ...answers, [currentField.id]: normalizeAnswer(currentField, overridden) };
+        setAnswers(newAnswers);
+        updateFieldLog(currentField.id, () => ({ skipped: false, answeredAt }));
+      } else if (!isSkip) {
+        // A reply that also answers later questions is confirmed before anything is saved.
+        // Checkboxes and dropdowns take one of a few values, so their replies are short.
+        const hasFixedValues = currentOccurrence?.controlType === "checkbox" || currentOccurrence?.controlType === "dropdown";
+        const extracted = hasFixedValues ? [] : await extractAnswers(input, answers);
+        if (extracted.some((value) => value.fieldId !== currentField.id)) {
+          const values = extracted.flatMap(({ fieldId, value }) => {
+            const field = fields.find((candidate) => candidate.id === fieldId);
+            return field ? [{ fieldId, value: normalizeAnswer(field, value) }] : [];
+          });
+          // Values that don't fit their field start unticked
+          setPendingExtraction({
+            input,
+            values,
+            accepted: Object.fromEntries(extracted.map(({ fieldId, value }) => {
+              const field = fields.find((candidate) => candidate.id === fieldId);
+              return [fieldId, !!field && !checkAnswer(field, value)];
+            })),
+          });
+          newMessages.push({
+            role: "assistant",
+            content: `Your reply answers ${values.length} questions at once. Check the values below, then confirm them or use the reply for this question only.`,
+          });
+          setMessages(newMessages);
+          setIsTyping(false);
+          return;
+        }
+
+        // A value picked out of the reply for this question alone, as in "It's jane@acme.com,
+        // thanks", stands in for the whole reply
+        const answer = extracted.find((value) => value.fieldId === currentField.id)?.value ?? input;
+
+        // Explain what's wrong and ask again rather than move on
+        const problem = checkAnswer(currentField, answer);
+        if (problem) {
+          setRejectedAnswer({ fieldId: currentField.id, input: answer });
+          newMessages.push({
+            role: "assistant",
+            content: `${problem} Please try again, or reply **use anyway** to keep "${answer}".`,
+          });
+          setMessages(newMessages);
+          setIsTyping(false);
+          return;
+        }
+
         // Only save answer if not skipping - normalize the value first
-        const normalizedValue = normalizeValue(userInput.trim(), currentPlaceholder);
-        newAnswers = { ...answers, [currentPlaceholder]: normalizedValue };
+        const normalizedValue = normalizeAnswer(currentField, answer);
+        newAnswers = { ...answers, [currentField.id]: normalizedValue };
         setAnswers(newAnswers);
+        updateFieldLog(currentField.id, () => ({ skipped: false, answeredAt }));
       } else {
+        updateFieldLog(currentField.id, () => ({ skipped: true, answeredAt }));
+        // Skipping a loop keeps the records already complete
+        if (loopDraft?.records.length) {
+          newAnswers = { ...answers, [currentField.id]: loopDraft.records };
+          setAnswers(newAnswers);
+        }
+        setLoopDraft(null);
         // Acknowledge skip
         newMessages.push({
           role: "assistant",
-          content: `Skipped "${currentPlaceholder}". Moving to the next one.`,
+          content: `Skipped "${currentField.placeholder}". Moving to the next one.`,
         });
       }
 
       // Move to next placeholder
-      const nextIndex = currentPlaceholderIndex + 1;
-      setCurrentPlaceholderIndex(nextIndex);
-
-      if (nextIndex < placeholders.length) {
-        // Generate AI question for next placeholder
-        const nextQuestion = await generateQuestion(placeholders[nextIndex]);
-        newMessages.push({
-          role: "assistant",
-          content: nextQuestion,
-        });
-      } else {
-        // All done
-        const filledCount = Object.keys(newAnswers).length;
-        newMessages.push({
-          role: "assistant",
-          content: `Done! I've filled ${filledCount} of ${placeholders.length} placeholders. You can now review the completed document and download it.`,
-        });
-      }
-
-      setMessages(newMessages);
-      setIsTyping(false);
+      await continueChat(newMessages, newAnswers, currentFieldIndex);
     }, 500);
-  }, [userInput, currentPlaceholderIndex, placeholders, answers, messages, generateQuestion, hasAmbiguousWarning, normalizeValue, templateHtml, templateText, documentMeta, handleParsedDocument]);
+  }, [userInput, currentFieldIndex, fields, answers, messages, normalizeValue, normalizeAnswer, checkAnswer, extractAnswers, continueChat, occurrenceById, loopDraft, rejectedAnswer, updateFieldLog]);
+
+  // Save the values found in one reply, or only answer the current question with it
+  const handleConfirmExtraction = useCallback(async (useExtracted: boolean) => {
+    if (!pendingExtraction) return;
+    const currentField = fields[currentFieldIndex];
+    const { input, values, accepted } = pendingExtraction;
+    const problem = useExtracted ? undefined : checkAnswer(currentField, input);
+    if (problem) {
+      setPendingExtraction(null);
+      setRejectedAnswer({ fieldId: currentField.id, input });
+      setMessages([
+        ...messages,
+        { role: "assistant", content: `${problem} Please try again, or reply **use anyway** to keep "${input}".` },
+      ]);
+      return;
+    }
+    const chosen = useExtracted
+      ? values.filter((value) => accepted[value.fieldId])
+      : [{ fieldId: currentField.id, value: normalizeAnswer(currentField, input) }];
+    const newAnswers = { ...answers, ...Object.fromEntries(chosen.map(({ fieldId, value }) => [fieldId, value])) };
+
+    setPendingExtraction(null);
+    setAnswers(newAnswers);
+    const answeredAt = new Date().toISOString();
+    chosen.forEach(({ fieldId }) => {
+      // The current field logged the reply when it was sent
+      updateFieldLog(fieldId, (entry) => ({
+        rawInputs: fieldId === currentField.id ? entry.rawInputs : [...(entry.rawInputs ?? []), input],
+        skipped: false,
+        answeredAt,
+      }));
+    });
 
-  const handleSkipPlaceholder = useCallback(async (placeholderToSkip: string) => {
-    const indexToSkip = placeholders.indexOf(placeholderToSkip);
-    if (indexToSkip === -1 || indexToSkip !== currentPlaceholderIndex) return;
+    const newMessages = [...messages];
+    if (useExtracted && chosen.length) {
+      const placeholderById = new Map(fields.map((field) => [field.id, field.placeholder]));
+      newMessages.push({
+        role: "assistant",
+        content: `Filled in:\n\n${chosen.map(({ fieldId, value }) => `- **${getPlaceholderLabel(placeholderById.get(fieldId) ?? "") || "Blank"}**: ${value}`).join("\n")}`,
+      });
+    }
+    setIsTyping(true);
+    // From the current field, so it is asked again if it wasn't among the values kept
+    await continueChat(newMessages, newAnswers, currentFieldIndex - 1);
+  }, [pendingExtraction, fields, currentFieldIndex, answers, messages, normalizeAnswer, checkAnswer, updateFieldLog, continueChat]);
+
+  const handleSkipPlaceholder = useCallback(async (fieldIdToSkip: string) => {
+    const indexToSkip = fields.findIndex((field) => field.id === fieldIdToSkip);
+    if (indexToSkip === -1 || indexToSkip !== currentFieldIndex) return;
 
     // Show typing indicator
     setIsTyping(true);
+    setLoopDraft(null);
+    setPendingExtraction(null);
+    setRejectedAnswer(null);
+    updateFieldLog(fieldIdToSkip, () => ({ skipped: true, answeredAt: new Date().toISOString() }));
 
     // Add system message about skip
     const newMessages = [
       ...messages,
       {
         role: "assistant" as const,
-        content: `Skipped "${placeholderToSkip}". Moving to the next one.`,
+        content: `Skipped "${fields[indexToSkip].placeholder}". Moving to the next one.`,
       },
     ];
 
     // Move to next placeholder
-    const nextIndex = currentPlaceholderIndex + 1;
-    setCurrentPlaceholderIndex(nextIndex);
-
-    if (nextIndex < placeholders.length) {
-      // Generate AI question for next placeholder
-      const nextQuestion = await generateQuestion(placeholders[nextIndex]);
-      newMessages.push({
-        role: "assistant",
-        content: nextQuestion,
-      });
-    } else {
-      // All done
-      const filledCount = Object.keys(answers).length;
-      newMessages.push({
-        role: "assistant",
-        content: `Done! I've filled ${filledCount} of ${placeholders.length} placeholders. You can now review the completed document and download it.`,
-      });
-    }
+    await continueChat(newMessages, answers, currentFieldIndex);
+  }, [fields, currentFieldIndex, messages, answers, continueChat, updateFieldLog]);
+
+  // Link a pending field to the closest earlier field with the same placeholder text
+  const handleLinkField = useCallback((fieldId: string) => {
+    const index = fields.findIndex((field) => field.id === fieldId);
+    if (index <= currentFieldIndex) return;
+
+    const isLoop = (field: PlaceholderField) => occurrenceById.get(field.id)?.source === "loop";
+    const target = fields
+      .slice(0, index)
+      .reverse()
+      .find((field) =>
+        getCanonicalName(field.placeholder) === getCanonicalName(fields[index].placeholder) &&
+        isLoop(field) === isLoop(fields[index]),
+      );
+    if (!target) return;
+
+    setFields(linkFields(fields, fieldId, target.id));
+  }, [fields, currentFieldIndex, occurrenceById]);
+
+  // Ask separately for each occurrence of a linked field that hasn't been answered yet
+  const handleUnlinkField = useCallback((fieldId: string) => {
+    const index = fields.findIndex((field) => field.id === fieldId);
+    if (index < currentFieldIndex || answers[fieldId] !== undefined) return;
+
+    setFields(unlinkField(fields, fieldId));
+  }, [fields, currentFieldIndex, answers]);
+
+  // Undo a wrong alias grouping: each spelling gets its own question again
+  const handleSplitField = useCallback((fieldId: string) => {
+    const index = fields.findIndex((field) => field.id === fieldId);
+    if (index < currentFieldIndex || answers[fieldId] !== undefined) return;
+
+    setFields(splitField(fields, fieldId, occurrences));
+  }, [fields, currentFieldIndex, answers, occurrences]);
+
+  // "DOCX" or "ODT", for the download picker
+  const documentFormatLabel = /\.odt$/i.test(documentMeta?.name ?? "") ? "ODT" : "DOCX";
+  // Tracked changes are Word revision markup, so only a .docx download can carry them.
+  // Removed {#if} branches and repeated loops aren't written as revisions, so templates
+  // with them get no redline rather than one that hides those changes.
+  const hasSectionsOrLoops = sections.length > 0 || occurrences.some((occurrence) => occurrence.source === "loop");
+  const isWordDownload =
+    documentFormatLabel === "DOCX" &&
+    !!DOWNLOAD_OPTIONS.find((option) => option.id === downloadOptionId)?.outputs.includes("document");
+  const canTrackChanges = isWordDownload && !hasSectionsOrLoops;
+
+  // Overrides are sent per occurrence, like the answers
+  const unfilledOptions = useMemo(
+    () => ({
+      policy: unfilledPolicy,
+      fields: Object.fromEntries(
+        fields.flatMap((field) =>
+          fieldPolicies[field.id] ? field.occurrenceIds.map((id) => [id, fieldPolicies[field.id]]) : [],
+        ),
+      ),
+    }),
+    [fields, unfilledPolicy, fieldPolicies],
+  );
 
-    setMessages(newMessages);
-    setIsTyping(false);
-  }, [placeholders, currentPlaceholderIndex, messages, answers, generateQuestion]);
+  // The stored template is referenced by id; if it's gone (or was never stored)
+  // the file goes up as binary with everything else as JSON, and the sample is
+  // rebuilt by the server
+  const postTemplateRequest = useCallback(
+    async (url: string, options: Record<string, unknown>) => {
+      const postJson = (body: Record<string, unknown>) =>
+        fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+      const resend = () => {
+        if (!originalFileBuffer) return postJson({ ...options, sample: true });
+        const formData = new FormData();
+        formData.append("file", new Blob([originalFileBuffer]), documentMeta?.name || "document.docx");
+        formData.append("options", JSON.stringify(options));
+        return fetch(url, { method: "POST", body: formData });
+      };
+      const canResend = !!originalFileBuffer || isSample;
+      const response = templateId ? await postJson({ ...options, templateId }) : await resend();
+      return response.status === 404 && templateId && canResend ? resend() : response;
+    },
+    [templateId, isSample, originalFileBuffer, documentMeta],
+  );
 
   const handleDownload = useCallback(async () => {
-    if (!originalFileBuffer) {
-      alert("Download is only available for uploaded documents. The sample document is for demonstration purposes only. Please upload your own .docx file to download a filled version.");
+    if (!templateId && !originalFileBuffer && !isSample) {
+      alert("The document is no longer available. Please upload it again to download a filled version.");
       return;
     }
 
     setIsDownloading(true);
     try {
-      // Convert ArrayBuffer to base64
-      const base64 = btoa(
-        new Uint8Array(originalFileBuffer).reduce(
-          (data, byte) => data + String.fromCharCode(byte),
-          ""
-        )
-      );
-
-      const response = await fetch("/api/generate-doc", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          originalFileBase64: base64,
-          answers,
-          originalFilename: documentMeta?.name || "document.docx",
-        }),
+      const occurrenceAnswers = getOccurrenceValues(fields, answers);
+
+      const response = await postTemplateRequest("/api/generate-doc", {
+        answers: occurrenceAnswers,
+        originalFilename: documentMeta?.name || "document.docx",
+        syntax,
+        includeComments: parsedComments,
+        dateOrder,
+        outputs: DOWNLOAD_OPTIONS.find((option) => option.id === downloadOptionId)?.outputs,
+        trackChanges: canTrackChanges && trackChanges ? { author: revisionAuthor } : undefined,
+        report:
+          includeManifest || includeReportAppendix
+            ? {
+                manifest: includeManifest,
+                appendix: includeReportAppendix,
+                fields: fields.map(({ id, placeholder, aliases, occurrenceIds }) => ({
+                  id,
+                  placeholder,
+                  aliases,
+                  occurrenceIds,
+                  log: fillLog[id],
+                })),
+              }
+            : undefined,
+        unfilled: unfilledOptions,
       });
 
+      // Refused because required placeholders are unfilled, or the PDF can't show the text
+      if (response.status === 422) {
+        const { error, missingFields = [] } = (await response.json()) as { error?: string; missingFields?: { id: string }[] };
+        if (!missingFields.length) {
+          alert(error ?? "Failed to download document. Please try again.");
+          return;
+        }
+        const missingIds = new Set(missingFields.map(({ id }) => id));
+        const names = fields
+          .filter((field) => field.occurrenceIds.some((id) => missingIds.has(id)))
+          .map((field) => field.placeholder);
+        alert(`These placeholders need an answer before downloading:\n\n${names.join("\n")}`);
+        return;
+      }
+
+      // The stored template expired, and after a refresh there's no file to send again
+      if (response.status === 404) {
+        alert("The document is no longer available. Please upload it again to download a filled version.");
+        return;
+      }
+
       if (!response.ok) {
         throw new Error("Failed to generate document");
       }
 
-      // Create blob and download
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      
-      // Generate filename with full suffix
+      // The server names the file after the format picked, or .zip when several were
       const originalName = documentMeta?.name || "document.docx";
-      const nameWithoutExt = originalName.replace(/\.docx$/i, "");
-      a.download = `${nameWithoutExt}-clausefill-ai-v1.docx`;
-      
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      const extension = originalName.match(/\.(docx|odt)$/i)?.[0].toLowerCase() ?? ".docx";
+      const nameWithoutExt = originalName.replace(/\.(docx|odt)$/i, "");
+      saveBlob(
+        await response.blob(),
+        response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ??
+          `${nameWithoutExt}-clausefill-ai-v1${extension}`,
+      );
     } catch (error) {
       console.error("Download failed", error);
       alert("Failed to download document. Please try again.");
     } finally {
       setIsDownloading(false);
     }
-  }, [originalFileBuffer, answers, documentMeta]);
+  }, [templateId, isSample, originalFileBuffer, fields, answers, documentMeta, syntax, parsedComments, dateOrder, downloadOptionId, canTrackChanges, trackChanges, revisionAuthor, includeManifest, includeReportAppendix, fillLog, unfilledOptions, postTemplateRequest]);
+
+  // Repeating sections take a list per document, which a flat row can't hold
+  const bulkFields = useMemo(
+    () => fields.filter((field) => occurrenceById.get(field.id)?.source !== "loop"),
+    [fields, occurrenceById],
+  );
+
+  const handleBulkFile = useCallback(async (file: File) => {
+    try {
+      const table = parseBulkFile(await file.text(), file.name);
+      const mapping = suggestColumnMapping(bulkFields, table.columns);
+      setBulkTable(table);
+      setBulkFileName(file.name);
+      setBulkMapping(mapping);
+      // Matched fields are required until unticked, so a row with a gap is reported instead of sent out half-filled
+      setBulkRequired(Object.fromEntries(Object.keys(mapping).map((fieldId) => [fieldId, true])));
+      const nameField = bulkFields.find((field) => mapping[field.id]);
+      const baseName = (documentMeta?.name || "document").replace(/\.(docx|odt)$/i, "");
+      setBulkFilenameTemplate(
+        `${baseName} - {${nameField ? getPlaceholderLabel(nameField.placeholder) : ROW_NUMBER_TOKEN}}`,
+      );
+    } catch (error) {
+      console.error("Failed to read bulk file", error);
+      alert(error instanceof Error ? error.message : "Unable to read the file. Please use a CSV or JSON file.");
+    }
+  }, [bulkFields, documentMeta]);
+
+  const handleBulkGenerate = useCallback(async () => {
+    if (!bulkTable) return;
+    if (!templateId && !originalFileBuffer && !isSample) {
+      alert("The document is no longer available. Please upload it again to generate documents.");
+      return;
+    }
+
+    setIsBulkGenerating(true);
+    try {
+      // Cells go through the same normalization as chat answers
+      const rows = bulkTable.rows.map((row) =>
+        Object.fromEntries(
+          bulkFields.flatMap((field) => {
+            const cell = bulkMapping[field.id] ? row[bulkMapping[field.id]]?.trim() : "";
+            if (!cell) return [];
+            return [[field.id, normalizeControlValue(cell, occurrenceById.get(field.id)) ?? normalizeValue(cell, field.placeholder)]];
+          }),
+        ),
+      );
+
+      const response = await postTemplateRequest("/api/generate-bulk", {
+        fields: bulkFields.map(({ id, placeholder, occurrenceIds }) => ({ id, placeholder, occurrenceIds })),
+        rows,
+        required: bulkFields.filter((field) => bulkRequired[field.id]).map((field) => field.id),
+        filenameTemplate: bulkFilenameTemplate,
+        originalFilename: documentMeta?.name || "document.docx",
+        syntax,
+        includeComments: parsedComments,
+        dateOrder,
+        unfilled: unfilledOptions,
+      });
+
+      // Every row was skipped; say why for each
+      if (response.status === 422) {
+        const { rows: results = [] } = (await response.json()) as { rows?: BulkRowResult[] };
+        alert(
+          `No documents were generated:\n\n${results
+            .map((result) => `Row ${result.row}: ${result.missingFields?.length ? `missing ${result.missingFields.join(", ")}` : result.error}`)
+            .join("\n")}`,
+        );
+        return;
+      }
+
+      if (response.status === 404) {
+        alert("The document is no longer available. Please upload it again to generate documents.");
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error("Failed to generate documents");
+      }
+
+      saveBlob(
+        await response.blob(),
+        response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "clausefill-bulk.zip",
+      );
+      const skipped = Number(response.headers.get("X-Clausefill-Skipped-Rows")) || 0;
+      if (skipped) {
+        alert(`${skipped} row${skipped === 1 ? " was" : "s were"} skipped. See ${BULK_REPORT_NAME} in the zip for details.`);
+      }
+    } catch (error) {
+      console.error("Bulk generation failed", error);
+      alert("Failed to generate documents. Please try again.");
+    } finally {
+      setIsBulkGenerating(false);
+    }
+  }, [bulkTable, bulkFields, bulkMapping, bulkRequired, bulkFilenameTemplate, templateId, isSample, originalFileBuffer, documentMeta, syntax, parsedComments, dateOrder, unfilledOptions, occurrenceById, normalizeValue, postTemplateRequest]);
 
   return (
     <div className="min-h-screen py-12" style={{ background: "var(--md-sys-color-background)", color: "var(--md-sys-color-on-background)" }}>
@@ -781,7 +1711,7 @@ export default function Home() {
             <div>
               <h1 className="text-4xl font-semibold tracking-tight" style={{ color: "var(--md-sys-color-on-background)" }}>Clausefill-AI</h1>
               <p className="mt-2 max-w-3xl text-base" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
-                <strong>Fill legal documents faster with AI-guided conversations.</strong> Upload your .docx template, 
+                <strong>Fill legal documents faster with AI-guided conversations.</strong> Upload your .docx or .odt template, 
                 answer questions in a chat, and download a perfectly formatted completed document.
               </p>
               <div className="mt-4 flex flex-wrap gap-4 text-sm" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
@@ -795,7 +1725,7 @@ export default function Home() {
                   <svg className="w-5 h-5" style={{ color: "var(--md-sys-color-primary)" }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>No data stored</span>
+                  <span>Short-lived storage</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <svg className="w-5 h-5" style={{ color: "var(--md-sys-color-primary)" }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -848,7 +1778,7 @@ export default function Home() {
                     <div className="w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold" style={{ background: "var(--md-sys-color-primary)", color: "var(--md-sys-color-on-primary)" }}>1</div>
                     <h3 className="font-semibold" style={{ color: "var(--md-sys-color-on-surface)" }}>Upload Document</h3>
                   </div>
-                  <p className="text-sm">Upload your .docx legal template. Make sure placeholders are formatted like [Company Name] or {`{variable}`}.</p>
+                  <p className="text-sm">Upload your .docx or .odt legal template. Make sure placeholders are formatted like [Company Name] or {`{variable}`}.</p>
                 </div>
                 <div>
                   <div className="flex items-center gap-2 mb-2">
@@ -915,20 +1845,20 @@ export default function Home() {
                     d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5m-13.5-9L12 3m0 0 4.5 4.5M12 3v13.5"
                   />
                 </svg>
-                <p className="text-base font-medium" style={{ color: "var(--md-sys-color-on-surface)" }}>Drag &amp; drop your .docx</p>
-                <p className="text-sm" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>or click to choose a file up to 4&nbsp;MB</p>
+                <p className="text-base font-medium" style={{ color: "var(--md-sys-color-on-surface)" }}>Drag &amp; drop your .docx or .odt</p>
+                <p className="text-sm" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>or click to choose a file up to {MAX_TEMPLATE_BYTES / 1024 / 1024}&nbsp;MB</p>
                 <input
                   ref={fileInputRef}
                   id="document-upload"
                   type="file"
-                  accept=".docx"
+                  accept=".docx,.odt"
                   className="sr-only"
                   onChange={handleInputChange}
                 />
               </label>
               <div className="mt-4 space-y-2 text-sm" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
                 <div className="flex items-center justify-between">
-                  <p>Supported format: .docx (Word)</p>
+                  <p>Supported formats: .docx (Word), .odt (LibreOffice)</p>
                   <button
                     type="button"
                     className="text-sm font-semibold transition"
@@ -938,6 +1868,57 @@ export default function Home() {
                     Browse files
                   </button>
                 </div>
+                <label className="flex items-center gap-2 text-xs cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeComments}
+                    onChange={(e) => setIncludeComments(e.target.checked)}
+                  />
+                  Also fill placeholders inside comments
+                </label>
+                <label className="flex items-center gap-2 text-xs cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={detectBlanks}
+                    onChange={(e) => setDetectBlanks(e.target.checked)}
+                  />
+                  Look for unmarked blanks (spaces, sample names) with AI
+                </label>
+                <label className="flex items-center justify-between gap-2 text-xs">
+                  Placeholder syntax
+                  <select
+                    value={syntaxPresetId}
+                    onChange={(e) => setSyntaxPresetId(e.target.value)}
+                    className="rounded-lg border px-2 py-1 text-xs"
+                    style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                  >
+                    {SYNTAX_PRESETS.map((preset) => (
+                      <option key={preset.id} value={preset.id}>{preset.label}</option>
+                    ))}
+                  </select>
+                </label>
+                {syntaxPresetId === "custom" && (
+                  <div className="flex items-center gap-2 text-xs">
+                    <input
+                      type="text"
+                      value={customDelimiter.open}
+                      onChange={(e) => setCustomDelimiter({ ...customDelimiter, open: e.target.value })}
+                      placeholder="Opening, e.g. @@"
+                      maxLength={10}
+                      className="w-full rounded-lg border px-2 py-1 font-mono"
+                      style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                    />
+                    <input
+                      type="text"
+                      value={customDelimiter.close}
+                      onChange={(e) => setCustomDelimiter({ ...customDelimiter, close: e.target.value })}
+                      placeholder="Closing, e.g. @@"
+                      maxLength={10}
+                      className="w-full rounded-lg border px-2 py-1 font-mono"
+                      style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                    />
+                  </div>
+                )}
                 <p className="text-xs">
                   Have a PDF? Convert it to .docx first using{" "}
                   <a 
@@ -964,12 +1945,57 @@ export default function Home() {
               )}
             </div>
 
+            {blankReview && (
+              <div className="rounded-3xl border p-6 shadow-sm" style={{ background: "var(--md-sys-color-surface-container)", borderColor: "var(--md-sys-color-outline-variant)" }}>
+                <p className="text-sm font-semibold uppercase tracking-wide" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
+                  Possible blanks
+                </p>
+                <p className="mt-2 text-sm" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
+                  These look like spots to fill in but aren&apos;t marked as placeholders. Keep the ones that are, and rename them if needed.
+                </p>
+                <ul className="mt-4 space-y-3">
+                  {blankReview.suggestions.map(({ blank, occurrence, reason }) => (
+                    <li key={occurrence.id} className="rounded-xl p-3 text-xs" style={{ background: "var(--md-sys-color-surface-container-high)", color: "var(--md-sys-color-on-surface-variant)" }}>
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!blankReview.accepted[occurrence.id]}
+                          onChange={(e) => updateBlankSuggestion(occurrence.id, { accepted: e.target.checked })}
+                        />
+                        <input
+                          type="text"
+                          value={blank.name}
+                          onChange={(e) => updateBlankSuggestion(occurrence.id, { name: e.target.value })}
+                          placeholder="Field name"
+                          className="w-full rounded-lg border px-2 py-1 text-xs"
+                          style={{ background: "var(--md-sys-color-surface-container-highest)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                        />
+                      </label>
+                      <p className="mt-2">
+                        {blank.text.trim() ? <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>{blank.text}</code> : "Blank space"}
+                        {blank.part !== BODY_PART && ` · ${getPartLabel(blank.part)}`}
+                      </p>
+                      <p className="mt-1 italic" title={reason}>{occurrence.snippet}</p>
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  type="button"
+                  onClick={handleConfirmBlanks}
+                  className="mt-4 w-full rounded-2xl border py-3 text-sm font-semibold transition"
+                  style={{ background: "var(--md-sys-color-primary-container)", borderColor: "var(--md-sys-color-primary)", color: "var(--md-sys-color-on-primary-container)" }}
+                >
+                  {acceptedBlankCount ? `Add ${acceptedBlankCount} blank${acceptedBlankCount === 1 ? "" : "s"} and start` : "Start without them"}
+                </button>
+              </div>
+            )}
+
             <div className="rounded-3xl border p-6 shadow-sm" style={{ background: "var(--md-sys-color-surface-container)", borderColor: "var(--md-sys-color-outline-variant)" }}>
               <p className="text-sm font-semibold uppercase tracking-wide" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
                 Quick start
               </p>
               <p className="mt-2 text-sm" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
-                {templateHtml ? "Want to start over with a different document?" : "No .docx handy? Load a ready-made SAFE sample to try it out."}
+                {templateHtml ? "Want to start over with a different document?" : "No .docx or .odt handy? Load a ready-made SAFE sample to try it out."}
               </p>
               {!templateHtml ? (
                 <button
@@ -999,6 +2025,11 @@ export default function Home() {
                   <li>• Square brackets: <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>[Company Name]</code></li>
                   <li>• With dollar sign: <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>$[Amount]</code></li>
                   <li>• Curly braces: <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>{`{variable}`}</code></li>
+                  <li>• Handlebars: <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>{`{{variable}}`}</code></li>
+                  <li>• Guillemets &amp; angle brackets: <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>«Name»</code> <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>{"<<Name>>"}</code></li>
+                  <li>• Percent signs: <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>%%name%%</code></li>
+                  <li>• Optional clauses: <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>{`{#if name}…{:else}…{/if}`}</code></li>
+                  <li>• Repeating rows: <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>{`{#investors}{name}{/investors}`}</code></li>
                   <li>• Underscores: <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>___</code></li>
                   <li>• Empty brackets: <code className="px-1 rounded" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>[ ]</code></li>
                 </ul>
@@ -1018,10 +2049,97 @@ export default function Home() {
                   <dt>Size</dt>
                   <dd className="font-medium" style={{ color: "var(--md-sys-color-on-surface)" }}>{documentMeta?.size ?? "—"}</dd>
                 </div>
+                <div className="flex items-center justify-between">
+                  <dt>Syntax</dt>
+                  <dd className="font-medium font-mono text-xs" style={{ color: "var(--md-sys-color-on-surface)" }}>
+                    {syntax
+                      ? [...(syntax.custom ?? []).map(({ open, close }) => `${open}name${close}`), ...syntax.syntaxes.map((item) => SYNTAX_EXAMPLES[item])].join(" ")
+                      : "—"}
+                  </dd>
+                </div>
                 <div className="flex items-center justify-between">
                   <dt>Placeholders</dt>
                   <dd className="font-medium" style={{ color: "var(--md-sys-color-on-surface)" }}>{placeholderBadge}</dd>
                 </div>
+                <div className="flex items-center justify-between">
+                  <dt>Amounts</dt>
+                  <dd className="flex gap-1">
+                    <select
+                      value={defaultCurrency}
+                      onChange={(e) => setDefaultCurrency(e.target.value as CurrencyCode)}
+                      className="rounded-lg border px-1 py-0.5 text-xs"
+                      style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                      aria-label="Default currency"
+                      title="Currency for amounts typed without one"
+                    >
+                      {CURRENCIES.map((currency) => (
+                        <option key={currency.code} value={currency.code} title={currency.label}>{currency.code}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={amountStyle}
+                      onChange={(e) => setAmountStyle(e.target.value as AmountStyle)}
+                      className="rounded-lg border px-1 py-0.5 text-xs"
+                      style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                      aria-label="Amount style"
+                    >
+                      <option value="numeric">$100,000</option>
+                      <option value="legal">In words</option>
+                    </select>
+                  </dd>
+                </div>
+                <div className="flex items-center justify-between">
+                  <dt>Dates</dt>
+                  <dd className="flex gap-1">
+                    <select
+                      value={dateOrder}
+                      onChange={(e) => setDateOrder(e.target.value as DateOrder)}
+                      className="rounded-lg border px-1 py-0.5 text-xs"
+                      style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                      aria-label="Date order"
+                      title="How dates like 3/4/25 are read"
+                    >
+                      <option value="month-first">M/D/Y</option>
+                      <option value="day-first">D/M/Y</option>
+                    </select>
+                    <select
+                      value={dateFormat}
+                      onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                      className="w-28 rounded-lg border px-1 py-0.5 text-xs"
+                      style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                      aria-label="Date format"
+                    >
+                      {DATE_FORMATS.map((format) => (
+                        <option key={format.id} value={format.id}>{format.label}</option>
+                      ))}
+                    </select>
+                  </dd>
+                </div>
+                {provenance && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <dt>Filled with</dt>
+                      <dd className="font-medium" style={{ color: "var(--md-sys-color-on-surface)" }}>
+                        Clausefill AI {provenance.toolVersion || "—"}
+                        {provenance.filledAt && !Number.isNaN(Date.parse(provenance.filledAt))
+                          ? `, ${new Date(provenance.filledAt).toLocaleDateString()}`
+                          : ""}
+                      </dd>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <dt>Template</dt>
+                      <dd className="font-medium font-mono text-xs" style={{ color: "var(--md-sys-color-on-surface)" }} title={`SHA-256 ${provenance.templateHash}`}>
+                        {provenance.templateHash.slice(0, 12)}
+                      </dd>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <dt>Filled fields</dt>
+                      <dd className="font-medium" style={{ color: "var(--md-sys-color-on-surface)" }} title={provenance.filledFields.join("\n")}>
+                        {provenance.filledFields.length} of {provenance.fields.length}
+                      </dd>
+                    </div>
+                  </>
+                )}
               </dl>
             </div>
 
@@ -1030,18 +2148,84 @@ export default function Home() {
                 Detected placeholders
               </p>
               <div className="mt-3 space-y-2 text-sm" style={{ color: "var(--md-sys-color-on-surface)" }}>
-                {placeholders.length ? (
+                {fields.length ? (
                   <ul className="divide-y rounded-2xl border" style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)" }}>
-                    {placeholders.map((placeholder, index) => {
-                      const isFilled = answers[placeholder] !== undefined;
-                      const isCurrent = index === currentPlaceholderIndex;
+                    {fields.map((field, index) => {
+                      const isFilled = answers[field.id] !== undefined;
+                      const isCurrent = index === currentFieldIndex;
+                      const isHidden = !isFilled && field.occurrenceIds.every((id) => hiddenOccurrenceIds.has(id));
+                      const source = occurrenceById.get(field.id)?.source;
+                      const canLink = index > currentFieldIndex &&
+                        fields.slice(0, index).some((other) =>
+                          getCanonicalName(other.placeholder) === getCanonicalName(field.placeholder) &&
+                          (occurrenceById.get(other.id)?.source === "loop") === (source === "loop"),
+                        );
+                      // Alias groups split by spelling first; exact repeats unlink per occurrence
+                      const canSplit = index >= currentFieldIndex && !isFilled && !!field.aliases?.length;
+                      const canUnlink = index >= currentFieldIndex && !isFilled && !field.aliases?.length && field.occurrenceIds.length > 1;
                       return (
-                        <li key={placeholder} className="flex items-center justify-between px-4 py-2 gap-2">
-                          <span className="font-mono text-xs flex-1" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>{placeholder}</span>
+                        <li key={field.id} className="flex items-center justify-between px-4 py-2 gap-2" title={occurrenceById.get(field.id)?.snippet}>
+                          <span className="font-mono text-xs flex-1" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
+                            {field.placeholder}
+                            {field.aliases?.map((alias) => (
+                              <span key={alias} className="ml-1" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>= {alias}</span>
+                            ))}
+                            {field.occurrenceIds.length > 1 && (
+                              <span className="ml-1" style={{ color: "var(--md-sys-color-secondary)" }}>×{field.occurrenceIds.length}</span>
+                            )}
+                            {Array.from(new Set(field.occurrenceIds.map((id) => occurrenceById.get(id)?.part ?? BODY_PART)))
+                              .filter((part) => part !== BODY_PART)
+                              .map((part) => (
+                                <span key={part} className="ml-1 rounded px-1 font-sans" style={{ background: "var(--md-sys-color-surface-container-highest)" }}>
+                                  {getPartLabel(part)}
+                                </span>
+                              ))}
+                            {source && source !== "text" && (
+                              <span className="ml-1 rounded px-1 font-sans" style={{ background: "var(--md-sys-color-tertiary-container)", color: "var(--md-sys-color-on-tertiary-container)" }}>
+                                {source === "condition"
+                                  ? "Condition"
+                                  : source === "loop"
+                                    ? "Repeating"
+                                    : source === "mergeField"
+                                      ? "Merge field"
+                                      : "Content control"}
+                              </span>
+                            )}
+                          </span>
                           <div className="flex items-center gap-2">
+                            {canLink && (
+                              <button
+                                onClick={() => handleLinkField(field.id)}
+                                className="text-xs px-2 py-1 rounded transition"
+                                style={{ background: "var(--md-sys-color-secondary-container)", color: "var(--md-sys-color-on-secondary-container)" }}
+                                title="Use the same answer as the previous occurrence"
+                              >
+                                Link
+                              </button>
+                            )}
+                            {canSplit && (
+                              <button
+                                onClick={() => handleSplitField(field.id)}
+                                className="text-xs px-2 py-1 rounded transition"
+                                style={{ background: "var(--md-sys-color-secondary-container)", color: "var(--md-sys-color-on-secondary-container)" }}
+                                title="Ask separately for each spelling of this placeholder"
+                              >
+                                Split
+                              </button>
+                            )}
+                            {canUnlink && (
+                              <button
+                                onClick={() => handleUnlinkField(field.id)}
+                                className="text-xs px-2 py-1 rounded transition"
+                                style={{ background: "var(--md-sys-color-secondary-container)", color: "var(--md-sys-color-on-secondary-container)" }}
+                                title="Ask separately for each occurrence"
+                              >
+                                Unlink
+                              </button>
+                            )}
                             {isCurrent && !isFilled && (
                               <button
-                                onClick={() => handleSkipPlaceholder(placeholder)}
+                                onClick={() => handleSkipPlaceholder(field.id)}
                                 className="text-xs px-2 py-1 rounded transition"
                                 style={{ background: "var(--md-sys-color-error-container)", color: "var(--md-sys-color-on-error-container)" }}
                               >
@@ -1049,7 +2233,9 @@ export default function Home() {
                               </button>
                             )}
                             <span style={{ color: isFilled ? "var(--md-sys-color-success)" : "var(--md-sys-color-secondary)" }}>
-                              {isFilled ? "Filled" : isCurrent ? "Current" : "Pending"}
+                              {isFilled
+                                ? Array.isArray(answers[field.id]) ? `${answers[field.id].length} added` : "Filled"
+                                : isHidden ? "Not needed" : isCurrent ? "Current" : "Pending"}
                             </span>
                           </div>
                         </li>
@@ -1061,6 +2247,102 @@ export default function Home() {
                 )}
               </div>
             </div>
+
+            {templateHtml && bulkFields.length > 0 && (
+              <div className="rounded-3xl border p-6 shadow-sm" style={{ background: "var(--md-sys-color-surface-container)", borderColor: "var(--md-sys-color-outline-variant)" }}>
+                <p className="text-sm font-semibold uppercase tracking-wide" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
+                  Bulk generate
+                </p>
+                <p className="mt-2 text-sm" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
+                  One document per row of a CSV or JSON file, downloaded as a zip.
+                </p>
+                <label
+                  className="mt-4 flex w-full cursor-pointer items-center justify-center rounded-2xl border py-3 text-sm font-semibold transition"
+                  style={{ background: "var(--md-sys-color-primary-container)", borderColor: "var(--md-sys-color-primary)", color: "var(--md-sys-color-on-primary-container)" }}
+                >
+                  {bulkTable ? "Choose a different file" : "Choose CSV or JSON"}
+                  <input
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    className="sr-only"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) void handleBulkFile(file);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+                {bulkTable && (
+                  <div className="mt-4 space-y-3 text-xs">
+                    <p style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
+                      <span className="font-medium" style={{ color: "var(--md-sys-color-on-surface)" }}>{bulkFileName}</span>
+                      {" "}· {bulkTable.rows.length} row{bulkTable.rows.length === 1 ? "" : "s"}, {bulkTable.columns.length} column{bulkTable.columns.length === 1 ? "" : "s"}
+                    </p>
+                    <ul className="space-y-1">
+                      {bulkFields.map((field) => (
+                        <li key={field.id} className="flex items-center gap-2">
+                          <span className="font-mono truncate flex-1" style={{ color: "var(--md-sys-color-on-surface-variant)" }} title={field.placeholder}>
+                            {field.placeholder}
+                          </span>
+                          <select
+                            value={bulkMapping[field.id] ?? ""}
+                            onChange={(e) => {
+                              const column = e.target.value;
+                              setBulkMapping((prev) => {
+                                const next = { ...prev };
+                                if (column) next[field.id] = column;
+                                else delete next[field.id];
+                                return next;
+                              });
+                            }}
+                            className="w-28 rounded-lg border px-2 py-1 text-xs"
+                            style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                            aria-label={`Column for ${field.placeholder}`}
+                          >
+                            <option value="">Not mapped</option>
+                            {bulkTable.columns.map((column) => (
+                              <option key={column} value={column}>{column}</option>
+                            ))}
+                          </select>
+                          <label className="flex items-center gap-1 cursor-pointer" title="Skip rows where this is empty">
+                            <input
+                              type="checkbox"
+                              checked={!!bulkRequired[field.id]}
+                              onChange={(e) => setBulkRequired((prev) => ({ ...prev, [field.id]: e.target.checked }))}
+                            />
+                            Req.
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                    <label className="block space-y-1">
+                      <span style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
+                        File names, with <code>{"{Field Name}"}</code> or <code>{`{${ROW_NUMBER_TOKEN}}`}</code>
+                      </span>
+                      <input
+                        type="text"
+                        value={bulkFilenameTemplate}
+                        onChange={(e) => setBulkFilenameTemplate(e.target.value)}
+                        className="w-full rounded-lg border px-2 py-1 text-xs font-mono"
+                        style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                        aria-label="Bulk file name template"
+                      />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={handleBulkGenerate}
+                      disabled={isBulkGenerating}
+                      className="w-full rounded-xl px-4 py-3 text-sm font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      style={{ background: "var(--md-sys-color-success)", color: "var(--md-sys-color-on-success)" }}
+                    >
+                      {isBulkGenerating
+                        ? "Generating..."
+                        : `Generate ${bulkTable.rows.length} document${bulkTable.rows.length === 1 ? "" : "s"}`}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Middle: Document preview */}
@@ -1078,7 +2360,27 @@ export default function Home() {
             </div>
             <div className="mt-6 h-[calc(100vh-300px)] min-h-[500px] overflow-y-auto rounded-2xl border p-6 text-base leading-relaxed" style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}>
               {highlightedHtml ? (
-                <article className="prose prose-slate max-w-none" dangerouslySetInnerHTML={{ __html: highlightedHtml }} />
+                <>
+                  <article className="prose prose-slate max-w-none" dangerouslySetInnerHTML={{ __html: highlightedHtml }} />
+                  {offPreviewOccurrences.length > 0 && (
+                    <div className="mt-8 border-t pt-4 text-sm" style={{ borderColor: "var(--md-sys-color-outline-variant)" }}>
+                      <p className="font-semibold uppercase tracking-wide text-xs" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
+                        Headers, footers &amp; comments
+                      </p>
+                      <ul className="mt-2 space-y-1">
+                        {offPreviewOccurrences.map(({ occurrence, value }) => (
+                          <li key={occurrence.id}>
+                            <span className="text-xs mr-2" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>{getPartLabel(occurrence.part)}</span>
+                            <mark className={`px-1 py-0.5 rounded font-medium ${value !== undefined ? "bg-emerald-100 text-emerald-900" : "bg-amber-100 text-amber-900"}`}>
+                              {value ?? occurrence.placeholder}
+                            </mark>
+                            <span className="ml-2 text-xs" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>{occurrence.snippet}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </>
               ) : (
                 <div className="flex h-full flex-col items-center justify-center text-center" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
                   <p className="text-base font-medium">Upload a document to see it here</p>
@@ -1097,13 +2399,13 @@ export default function Home() {
                     Conversational Fill
                   </p>
                   <p className="text-xs mt-1" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
-                    {currentPlaceholderIndex < placeholders.length
-                      ? `${currentPlaceholderIndex + 1} of ${placeholders.length}`
+                    {currentFieldIndex < fields.length
+                      ? `${currentFieldIndex + 1} of ${fields.length}`
                       : "Complete"}
                   </p>
                 </div>
                 <div className="text-xs" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
-                  {Object.keys(answers).length}/{placeholders.length} filled
+                  {Object.keys(answers).length}/{fields.length} filled
                 </div>
               </div>
 
@@ -1159,8 +2461,78 @@ export default function Home() {
                 <div ref={messagesEndRef} />
               </div>
 
-              {currentPlaceholderIndex < placeholders.length && (
+              {currentFieldIndex < fields.length && pendingExtraction && (
+                <div className="border-t pt-4 space-y-3" style={{ borderColor: "var(--md-sys-color-outline-variant)" }}>
+                  <ul className="space-y-2 text-sm">
+                    {pendingExtraction.values.map(({ fieldId, value }) => (
+                      <li key={fieldId}>
+                        <label className="flex items-start gap-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="mt-1"
+                            checked={!!pendingExtraction.accepted[fieldId]}
+                            onChange={(e) =>
+                              setPendingExtraction({
+                                ...pendingExtraction,
+                                accepted: { ...pendingExtraction.accepted, [fieldId]: e.target.checked },
+                              })
+                            }
+                          />
+                          <span>
+                            <span className="font-medium" style={{ color: "var(--md-sys-color-on-surface)" }}>
+                              {getPlaceholderLabel(fields.find((field) => field.id === fieldId)?.placeholder ?? "") || "Blank"}
+                            </span>
+                            <span style={{ color: "var(--md-sys-color-on-surface-variant)" }}>: {value}</span>
+                          </span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => void handleConfirmExtraction(true)}
+                      disabled={!pendingExtraction.values.some((value) => pendingExtraction.accepted[value.fieldId])}
+                      className="flex-1 rounded-xl px-4 py-3 text-sm font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      style={{ background: "var(--md-sys-color-primary)", color: "var(--md-sys-color-on-primary)" }}
+                    >
+                      Use these values
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void handleConfirmExtraction(false)}
+                      className="flex-1 rounded-xl border px-4 py-3 text-sm font-semibold transition"
+                      style={{ borderColor: "var(--md-sys-color-outline)", color: "var(--md-sys-color-on-surface)" }}
+                    >
+                      Only this question
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {currentFieldIndex < fields.length && !pendingExtraction && (
                 <div className="border-t pt-4" style={{ borderColor: "var(--md-sys-color-outline-variant)" }}>
+                  {currentSuggestions.length > 0 && !isTyping && (
+                    <div className="mb-3 flex flex-wrap gap-2" aria-label="Suggested answers">
+                      {currentSuggestions.map(({ value, reason }) => (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => void handleSubmitAnswer(false, value)}
+                          title={reason || undefined}
+                          className="flex flex-col items-start rounded-2xl border px-3 py-1.5 text-left text-sm transition hover:opacity-80"
+                          style={{ borderColor: "var(--md-sys-color-outline)", background: "var(--md-sys-color-surface-container)", color: "var(--md-sys-color-on-surface)" }}
+                        >
+                          <span className="font-medium">{value}</span>
+                          {reason && (
+                            <span className="text-xs" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
+                              {reason}
+                            </span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   <form
                     onSubmit={(e) => {
                       e.preventDefault();
@@ -1187,31 +2559,158 @@ export default function Home() {
                       Send
                     </button>
                   </form>
+                  {rejectedAnswer?.fieldId === fields[currentFieldIndex]?.id && (
+                    <button
+                      type="button"
+                      onClick={() => void handleSubmitAnswer(false, "use anyway")}
+                      disabled={isTyping}
+                      className="mt-2 text-xs underline disabled:opacity-50"
+                      style={{ color: "var(--md-sys-color-on-surface-variant)" }}
+                    >
+                      Use &ldquo;{rejectedAnswer.input}&rdquo; anyway
+                    </button>
+                  )}
                 </div>
               )}
 
-              {((currentPlaceholderIndex >= placeholders.length && placeholders.length > 0) || 
-                (placeholders.length === 0 && templateHtml)) && (
-                <div className="border-t pt-4" style={{ borderColor: "var(--md-sys-color-outline-variant)" }}>
-                  <button
-                    type="button"
-                    onClick={handleDownload}
-                    disabled={isDownloading}
-                    className="w-full rounded-xl px-6 py-3 text-sm font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-                    style={{ background: "var(--md-sys-color-success)", color: "var(--md-sys-color-on-success)" }}
-                  >
-                    {isDownloading ? (
-                      <>
-                        <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                        Generating...
-                      </>
-                    ) : (
-                      placeholders.length === 0 ? "Download Document" : "Download Completed Document"
-                    )}
-                  </button>
+              {((currentFieldIndex >= fields.length && fields.length > 0) || 
+                (fields.length === 0 && templateHtml)) && (
+                <div className="border-t pt-4 space-y-3" style={{ borderColor: "var(--md-sys-color-outline-variant)" }}>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={includeReportAppendix}
+                        onChange={(e) => setIncludeReportAppendix(e.target.checked)}
+                      />
+                      Append fill report page
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={includeManifest}
+                        onChange={(e) => setIncludeManifest(e.target.checked)}
+                      />
+                      Include fill manifest (JSON)
+                    </label>
+                  </div>
+                  {unfilledFields.length > 0 && (
+                    <div className="space-y-2 rounded-xl border p-3 text-xs" style={{ borderColor: "var(--md-sys-color-outline-variant)" }}>
+                      <label className="flex items-center justify-between gap-3">
+                        <span className="font-medium" style={{ color: "var(--md-sys-color-on-surface)" }}>
+                          {unfilledFields.length} unfilled placeholder{unfilledFields.length === 1 ? "" : "s"}
+                        </span>
+                        <select
+                          value={unfilledPolicy}
+                          onChange={(e) => setUnfilledPolicy(e.target.value as UnfilledPolicy)}
+                          className="rounded-lg border px-2 py-1 text-xs"
+                          style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                          aria-label="Unfilled placeholder policy"
+                        >
+                          {UNFILLED_POLICIES.map((policy) => (
+                            <option key={policy.id} value={policy.id}>{policy.label}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <ul className="space-y-1">
+                        {unfilledFields.map((field) => {
+                          const policy = fieldPolicies[field.id] ?? unfilledPolicy;
+                          return (
+                            <li key={field.id} className="flex items-center justify-between gap-3">
+                              <span className="font-mono truncate" style={{ color: "var(--md-sys-color-on-surface-variant)" }} title={UNFILLED_POLICIES.find((item) => item.id === policy)?.description}>
+                                {field.placeholder}
+                              </span>
+                              <select
+                                value={fieldPolicies[field.id] ?? ""}
+                                onChange={(e) => {
+                                  const value = e.target.value as UnfilledPolicy | "";
+                                  setFieldPolicies((prev) => {
+                                    const next = { ...prev };
+                                    if (value) next[field.id] = value;
+                                    else delete next[field.id];
+                                    return next;
+                                  });
+                                }}
+                                className="rounded-lg border px-2 py-1 text-xs"
+                                style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: policy === "reject" ? "var(--md-sys-color-error)" : "var(--md-sys-color-on-surface)" }}
+                                aria-label={`Unfilled policy for ${field.placeholder}`}
+                              >
+                                <option value="">Default ({UNFILLED_POLICIES.find((item) => item.id === unfilledPolicy)?.label})</option>
+                                {UNFILLED_POLICIES.map((item) => (
+                                  <option key={item.id} value={item.id}>{item.label}</option>
+                                ))}
+                              </select>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  )}
+                  {isWordDownload && hasSectionsOrLoops && (
+                    <p className="text-xs" style={{ color: "var(--md-sys-color-on-surface-variant)" }}>
+                      Tracked changes aren&apos;t available for documents with {"{#if}"} sections or loops.
+                    </p>
+                  )}
+                  {canTrackChanges && (
+                    <div className="flex items-center gap-3 text-xs">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={trackChanges}
+                          onChange={(e) => setTrackChanges(e.target.checked)}
+                        />
+                        Show fills as tracked changes
+                      </label>
+                      {trackChanges && (
+                        <input
+                          type="text"
+                          value={revisionAuthor}
+                          onChange={(e) => setRevisionAuthor(e.target.value)}
+                          placeholder="Author (Clausefill AI)"
+                          className="flex-1 rounded-lg border px-2 py-1 text-xs"
+                          style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                          aria-label="Tracked changes author"
+                        />
+                      )}
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <select
+                      value={downloadOptionId}
+                      onChange={(e) => setDownloadOptionId(e.target.value as DownloadOption["id"])}
+                      disabled={isDownloading}
+                      className="rounded-xl border px-3 py-3 text-sm"
+                      style={{ background: "var(--md-sys-color-surface-container-high)", borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface)" }}
+                      aria-label="Download format"
+                    >
+                      {DOWNLOAD_OPTIONS.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.outputs
+                            .map((output) => (output === "document" ? documentFormatLabel : OUTPUT_LABELS[output]))
+                            .join(" + ")}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={handleDownload}
+                      disabled={isDownloading}
+                      className="flex-1 rounded-xl px-6 py-3 text-sm font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                      style={{ background: "var(--md-sys-color-success)", color: "var(--md-sys-color-on-success)" }}
+                    >
+                      {isDownloading ? (
+                        <>
+                          <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                          </svg>
+                          Generating...
+                        </>
+                      ) : (
+                        fields.length === 0 ? "Download Document" : "Download Completed Document"
+                      )}
+                    </button>
+                  </div>
                 </div>
               )}
             </div>
@@ -1228,7 +2727,7 @@ export default function Home() {
         <footer className="mt-12 border-t pt-8 text-center text-sm" style={{ borderColor: "var(--md-sys-color-outline-variant)", color: "var(--md-sys-color-on-surface-variant)" }}>
           <div className="space-y-2">
             <p>
-              <strong style={{ color: "var(--md-sys-color-on-surface)" }}>How it works:</strong> Upload a .docx template → 
+              <strong style={{ color: "var(--md-sys-color-on-surface)" }}>How it works:</strong> Upload a .docx or .odt template → 
               Placeholders are detected → Answer questions conversationally → Download completed document
             </p>
             <p className="text-xs">
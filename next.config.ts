@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The PDF export reads these fonts from disk, so deployments must include them
+  outputFileTracingIncludes: {
+    "/api/generate-doc": ["DejaVuSans", "DejaVuSans-Bold", "DejaVuSans-Oblique", "DejaVuSans-BoldOblique"].map(
+      (name) => `./node_modules/dejavu-fonts-ttf/ttf/${name}.ttf`,
+    ),
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,98 @@
+// Fill benchmark: builds a synthetic credit agreement of a given length (the fixture)
+// and times parsing and filling it the way parse-document and generate-doc do.
+//
+//   npm run benchmark -- [pages...]
+//
+// Prints the time per page for each size so regressions in the engine show up as a
+// growing per-page cost rather than a flat one.
+
+import PizZip from "pizzip";
+import { extractPartOccurrences, fillOccurrences, getPartName, listTextParts } from "../app/lib/docx";
+import { groupOccurrences, getOccurrenceValues } from "../app/lib/placeholders";
+
+const DEFAULT_PAGES = [10, 50, 200];
+const PARAGRAPHS_PER_PAGE = 12;
+// Distinct placeholders in the fixture, each repeated throughout the document
+const FIELD_COUNT = 150;
+const RUNS = 3;
+
+const CLAUSE =
+  "The Borrower shall repay the Loans in full on the Maturity Date, together with accrued interest, fees and all other amounts owing under the Finance Documents";
+
+function run(text: string, bold = false): string {
+  return `<w:r>${bold ? "<w:rPr><w:b/></w:rPr>" : ""}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+}
+
+// Every paragraph has one placeholder, some split across runs the way Word saves them
+function buildFixture(pages: number): Buffer {
+  const paragraphs: string[] = [];
+  for (let page = 0; page < pages; page++) {
+    for (let index = 0; index < PARAGRAPHS_PER_PAGE; index++) {
+      const field = (page * PARAGRAPHS_PER_PAGE + index) % FIELD_COUNT;
+      const placeholder =
+        index % 3 === 0 ? run("[") + run(`Field ${field}`, true) + run("]") : run(`[Field ${field}]`);
+      paragraphs.push(`<w:p>${run(`${page + 1}.${index + 1} ${CLAUSE} to `)}${placeholder}${run(".")}</w:p>`);
+    }
+    paragraphs.push('<w:p><w:r><w:br w:type="page"/></w:r></w:p>');
+  }
+
+  const zip = new PizZip();
+  zip.file(
+    "word/document.xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>' +
+      paragraphs.join("") +
+      "<w:sectPr/></w:body></w:document>",
+  );
+  zip.file("word/header1.xml", `<w:hdr><w:p>${run("[Field 0] Credit Agreement")}</w:p></w:hdr>`);
+  return zip.generate({ type: "nodebuffer", compression: "DEFLATE" }) as Buffer;
+}
+
+function time(action: () => void): number {
+  let best = Infinity;
+  for (let attempt = 0; attempt < RUNS; attempt++) {
+    const start = performance.now();
+    action();
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+}
+
+const sizes = process.argv.slice(2).map(Number).filter((pages) => pages > 0);
+
+console.log("pages  size      fields  parse ms  fill ms  ms/page");
+(sizes.length ? sizes : DEFAULT_PAGES).forEach((pages) => {
+  const buffer = buildFixture(pages);
+  const zip = new PizZip(buffer);
+  const paths = listTextParts(zip);
+
+  const occurrences = paths.flatMap((path) => extractPartOccurrences(zip.file(path)!.asText(), getPartName(path)));
+  const fields = groupOccurrences(occurrences);
+  const values = getOccurrenceValues(
+    fields,
+    Object.fromEntries(fields.map((field) => [field.id, `Value for ${field.placeholder}`])),
+  );
+
+  const parseMs = time(() => {
+    const parsed = new PizZip(buffer);
+    listTextParts(parsed).forEach((path) => extractPartOccurrences(parsed.file(path)!.asText(), getPartName(path)));
+  });
+  const fillMs = time(() => {
+    const filled = new PizZip(buffer);
+    listTextParts(filled).forEach((path) => {
+      filled.file(path, fillOccurrences(filled.file(path)!.asText(), getPartName(path), values).xml);
+    });
+    filled.generate({ type: "nodebuffer", compression: "DEFLATE" });
+  });
+
+  console.log(
+    [
+      String(pages).padEnd(6),
+      `${(buffer.length / 1024).toFixed(0)} KB`.padEnd(9),
+      String(fields.length).padEnd(7),
+      parseMs.toFixed(1).padEnd(9),
+      fillMs.toFixed(1).padEnd(8),
+      ((parseMs + fillMs) / pages).toFixed(2),
+    ].join(" "),
+  );
+});